@@ -2,6 +2,8 @@ import { Switch, Route } from "wouter";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient } from "./lib/queryClient";
 import { Toaster } from "@/components/ui/toaster";
+import { AuthProvider } from "@/hooks/use-auth";
+import { RequireAuth } from "@/lib/protected-route";
 
 import Dashboard from "@/pages/dashboard";
 import DataSources from "@/pages/data-sources";
@@ -9,11 +11,13 @@ import SchemaMapping from "@/pages/schema-mapping";
 import QueryBuilder from "@/pages/query-builder";
 import Results from "@/pages/results";
 import Settings from "@/pages/settings";
+import Audit from "@/pages/audit";
 import NotFound from "@/pages/not-found";
+import AuthPage from "@/pages/auth-page";
 import Sidebar from "@/components/layout/sidebar";
 import Header from "@/components/layout/header";
 
-function Router() {
+function AppLayout() {
   return (
     <div className="min-h-screen flex">
       <Sidebar />
@@ -28,6 +32,7 @@ function Router() {
               <Route path="/query-builder" component={QueryBuilder} />
               <Route path="/results" component={Results} />
               <Route path="/settings" component={Settings} />
+              <Route path="/audit" component={Audit} />
               <Route component={NotFound} />
             </Switch>
           </div>
@@ -37,11 +42,26 @@ function Router() {
   );
 }
 
+function Router() {
+  return (
+    <Switch>
+      <Route path="/auth" component={AuthPage} />
+      <Route>
+        <RequireAuth>
+          <AppLayout />
+        </RequireAuth>
+      </Route>
+    </Switch>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Router />
-      <Toaster />
+      <AuthProvider>
+        <Router />
+        <Toaster />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
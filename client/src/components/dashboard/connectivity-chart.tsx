@@ -0,0 +1,104 @@
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import type { SourceHealthCheck } from "@shared/schema";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+
+const COLORS = ["#2563eb", "#16a34a", "#9333ea", "#ea580c", "#0891b2", "#db2777"];
+
+// Hours of history the chart shows
+const HISTORY_HOURS = 24;
+
+interface ConnectivityChartProps {
+  sources: { id: number; name: string }[];
+  healthChecks: SourceHealthCheck[];
+}
+
+// Latency of each source's health checks over the last day. Failed checks leave a gap in
+// the source's line; uptime is the share of checks that reached the source.
+export default function ConnectivityChart({ sources, healthChecks }: ConnectivityChartProps) {
+  const since = Date.now() - HISTORY_HOURS * 60 * 60 * 1000;
+  const recent = healthChecks.filter(
+    (check) => check.checkedAt && new Date(check.checkedAt).getTime() >= since
+  );
+
+  if (recent.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 text-center py-8">
+        No health checks recorded yet.
+      </p>
+    );
+  }
+
+  const config: ChartConfig = {};
+  sources.forEach((source, index) => {
+    config[`source${source.id}`] = {
+      label: source.name,
+      color: COLORS[index % COLORS.length],
+    };
+  });
+
+  // One point per minute; checks of all sources in one run land on the same point
+  const points = new Map<number, Record<string, number | null>>();
+  for (const check of recent) {
+    const minute = Math.floor(new Date(check.checkedAt!).getTime() / 60000) * 60000;
+    const point = points.get(minute) ?? { time: minute };
+    point[`source${check.sourceId}`] = check.status === "connected" ? check.latencyMs : null;
+    points.set(minute, point);
+  }
+  const data = Array.from(points.values()).sort((a, b) => a.time! - b.time!);
+
+  return (
+    <div>
+      <ChartContainer config={config} className="h-[220px] w-full">
+        <LineChart data={data} margin={{ left: 4, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={["dataMin", "dataMax"]}
+            tickFormatter={(time) => new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+            tickLine={false}
+          />
+          <YAxis unit="ms" width={56} tickLine={false} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => new Date(payload[0]?.payload.time).toLocaleString()}
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          {sources.map((source) => (
+            <Line
+              key={source.id}
+              dataKey={`source${source.id}`}
+              stroke={`var(--color-source${source.id})`}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ChartContainer>
+
+      <div className="mt-3 flex flex-wrap gap-4 text-xs text-gray-600">
+        {sources.map((source) => {
+          const checks = recent.filter((check) => check.sourceId === source.id);
+          if (checks.length === 0) return null;
+          const reached = checks.filter((check) => check.status === "connected").length;
+          return (
+            <span key={source.id}>
+              {source.name}: {Math.round((reached / checks.length) * 100)}% uptime
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
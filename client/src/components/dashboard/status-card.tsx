@@ -4,6 +4,7 @@ import { LayoutDashboard, Database, Link2 } from "lucide-react";
 interface StatusCardProps {
   title: string;
   value: number | string;
+  detail?: string;
   icon: "sources" | "mappings" | "queries";
   iconColor?: string;
   bgColor?: string;
@@ -12,6 +13,7 @@ interface StatusCardProps {
 export default function StatusCard({ 
   title, 
   value, 
+  detail,
   icon,
   iconColor = "text-blue-600",
   bgColor = "bg-blue-100" 
@@ -39,6 +41,7 @@ export default function StatusCard({
         <div className="ml-4">
           <h4 className="text-sm font-medium text-gray-600">{title}</h4>
           <p className="text-2xl font-semibold text-gray-800">{value}</p>
+          {detail && <p className="text-xs text-gray-500">{detail}</p>}
         </div>
       </div>
     </div>
@@ -1,27 +1,34 @@
 import { Card, CardContent } from "@/components/ui/card";
+import type { SourceHealthCheck } from "@shared/schema";
 import StatusCard from "./status-card";
+import ConnectivityChart from "./connectivity-chart";
 
 interface SystemOverviewProps {
-  dataSourcesCount: number;
+  dataSources: { id: number; name: string; status: string }[];
+  healthChecks: SourceHealthCheck[];
   schemaMappingsCount: number;
   recentQueriesCount: number;
 }
 
 export default function SystemOverview({
-  dataSourcesCount,
+  dataSources,
+  healthChecks,
   schemaMappingsCount,
   recentQueriesCount
 }: SystemOverviewProps) {
+  const connectedCount = dataSources.filter(source => source.status === "connected").length;
+
   return (
     <Card className="bg-white rounded-lg shadow-md p-6 mb-6">
       <h3 className="text-lg font-semibold text-gray-800 mb-4">System Status</h3>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <StatusCard 
           title="Active Data Sources" 
-          value={dataSourcesCount} 
+          value={connectedCount} 
+          detail={`of ${dataSources.length} configured`}
           icon="sources"
-          iconColor="text-green-600"
-          bgColor="bg-green-100"
+          iconColor={connectedCount < dataSources.length ? "text-amber-600" : "text-green-600"}
+          bgColor={connectedCount < dataSources.length ? "bg-amber-100" : "bg-green-100"}
         />
         <StatusCard 
           title="Schema Mappings" 
@@ -38,6 +45,8 @@ export default function SystemOverview({
           bgColor="bg-purple-100"
         />
       </div>
+      <h4 className="text-sm font-medium text-gray-600 mt-6 mb-2">Connectivity (last 24 hours)</h4>
+      <ConnectivityChart sources={dataSources} healthChecks={healthChecks} />
     </Card>
   );
 }
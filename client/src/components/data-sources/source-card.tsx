@@ -1,12 +1,14 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Edit, Trash2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import type { DataSource } from "@shared/schema";
+import type { AppSettings, DataSource } from "@shared/schema";
 
 interface SourceCardProps {
   dataSource: DataSource;
@@ -15,26 +17,36 @@ interface SourceCardProps {
 
 export default function SourceCard({ dataSource, onEdit }: SourceCardProps) {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const [isDeleting, setIsDeleting] = useState(false);
 
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
+
   // Format the collections as an array
   const collections = Array.isArray(dataSource.collections) 
     ? dataSource.collections 
     : [];
     
-  // Determine connection status
+  // Determine connection status; demo mode is set on the source or for the whole application
   const isConnected = dataSource.status === 'connected';
-  const isSampleMode = isConnected && collections.length === 0;
+  const isSampleMode = dataSource.demoMode || settings?.demoMode === true;
+  const hasError = dataSource.status === 'error';
   
   // Determine status display
   let statusColor = 'bg-green-500';
   let statusText = 'Connected';
   let statusTextColor = 'text-green-600';
   
-  if (isSampleMode) {
+  if (isSampleMode && isConnected) {
     statusColor = 'bg-amber-400';
-    statusText = 'Sample Mode';
+    statusText = 'Demo Mode (sample data)';
     statusTextColor = 'text-amber-600';
+  } else if (hasError) {
+    statusColor = 'bg-red-500';
+    statusText = 'Connection Error';
+    statusTextColor = 'text-red-600';
   } else if (!isConnected) {
     statusColor = 'bg-red-500';
     statusText = 'Disconnected';
@@ -96,22 +108,27 @@ export default function SourceCard({ dataSource, onEdit }: SourceCardProps) {
               </div>
             </div>
           </div>
+          {/* Editors change sources; only admins delete them */}
           <div className="flex space-x-2">
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={() => onEdit(dataSource)}
-            >
-              <Edit className="h-5 w-5" />
-            </Button>
-            <Button
-              variant="ghost"
-              size="icon"
-              onClick={handleDelete}
-              disabled={isDeleting}
-            >
-              <Trash2 className="h-5 w-5" />
-            </Button>
+            {hasRole("editor") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onEdit(dataSource)}
+              >
+                <Edit className="h-5 w-5" />
+              </Button>
+            )}
+            {hasRole("admin") && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleDelete}
+                disabled={isDeleting}
+              >
+                <Trash2 className="h-5 w-5" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -134,8 +151,8 @@ export default function SourceCard({ dataSource, onEdit }: SourceCardProps) {
                 {isSampleMode ? (
                   <div className="p-2 bg-amber-50 rounded border border-amber-200 text-amber-800 text-xs">
                     <div className="font-medium mb-1">Using Sample Data Collections</div>
-                    <p>This data source is using pre-defined sample collections.</p>
-                    <p className="mt-1">To use real collections, please update source configuration.</p>
+                    <p>This data source is in demo mode and uses pre-defined sample collections.</p>
+                    <p className="mt-1">To use real collections, turn off demo mode.</p>
                   </div>
                 ) : (
                   <div className="p-2 bg-gray-50 rounded border border-gray-200 text-gray-500 text-xs">
@@ -164,10 +181,18 @@ export default function SourceCard({ dataSource, onEdit }: SourceCardProps) {
                 </svg>
               </div>
               <p className="text-xs text-amber-700">
-                Using demonstration data. Click edit to update credentials and connect to your {dataSource.type === 'firebase' ? 'Firebase' : 'MongoDB'} instance.
+                Using demonstration data. {dataSource.demoMode
+                  ? "Click edit to turn off demo mode and connect with this source's credentials."
+                  : "Demo mode is on for all sources in Settings."}
               </p>
             </div>
           )}
+
+          {hasError && !isSampleMode && dataSource.lastError && (
+            <div className="mt-2 p-2 bg-red-50 rounded border border-red-200 text-red-700 text-xs">
+              {dataSource.lastError}
+            </div>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -1,6 +1,15 @@
 import { useLocation } from "wouter";
-import { Bell, HelpCircle } from "lucide-react";
+import { Bell, HelpCircle, LogOut, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
 
 const getTitleFromPath = (path: string) => {
   switch (path) {
@@ -16,6 +25,8 @@ const getTitleFromPath = (path: string) => {
       return "Results";
     case "/settings":
       return "Settings";
+    case "/audit":
+      return "Audit Log";
     default:
       return "Not Found";
   }
@@ -24,6 +35,7 @@ const getTitleFromPath = (path: string) => {
 export default function Header() {
   const [location] = useLocation();
   const title = getTitleFromPath(location);
+  const { user, logoutMutation } = useAuth();
 
   return (
     <header className="bg-white shadow-sm z-10">
@@ -39,6 +51,27 @@ export default function Header() {
             <Button variant="ghost" size="icon">
               <HelpCircle className="h-5 w-5" />
             </Button>
+            {user && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" className="flex items-center space-x-2">
+                    <User className="h-5 w-5" />
+                    <span className="text-sm font-medium text-gray-700">{user.username}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel>Signed in as {user.username}</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onSelect={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                  >
+                    <LogOut className="mr-2 h-4 w-4" />
+                    Log Out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         </div>
       </div>
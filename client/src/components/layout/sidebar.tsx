@@ -1,6 +1,7 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/hooks/use-auth";
 
 import {
   LayoutDashboard,
@@ -9,6 +10,7 @@ import {
   Zap,
   FileBarChart,
   Settings,
+  ScrollText,
   Menu,
 } from "lucide-react";
 
@@ -21,9 +23,16 @@ const sidebarLinks = [
   { href: "/settings", icon: Settings, label: "Settings" },
 ];
 
+// Links only admins see
+const adminLinks = [
+  { href: "/audit", icon: ScrollText, label: "Audit Log" },
+];
+
 export default function Sidebar() {
   const [location] = useLocation();
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const { hasRole } = useAuth();
+  const links = hasRole("admin") ? [...sidebarLinks, ...adminLinks] : sidebarLinks;
 
   return (
     <div
@@ -50,7 +59,7 @@ export default function Sidebar() {
 
       <nav className="p-2">
         <ul className="space-y-1">
-          {sidebarLinks.map((link) => (
+          {links.map((link) => (
             <li key={link.href}>
               <Link href={link.href}>
                 <a
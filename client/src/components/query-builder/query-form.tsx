@@ -545,7 +545,7 @@ export default function QueryForm({ dataSources, savedQueries, onChange }: Query
                     </FormControl>
                     <div className="ml-2">
                       <Label htmlFor="hybrid" className="font-medium text-gray-700">Hybrid Approach</Label>
-                      <p className="mt-1 text-xs text-gray-500">Uses cached results with real-time updates for optimal performance and freshness.</p>
+                      <p className="mt-1 text-xs text-gray-500">Reads collections marked as snapshots on their data source from a stored copy and queries the rest live.</p>
                     </div>
                   </FormItem>
                 </RadioGroup>
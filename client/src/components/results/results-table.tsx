@@ -23,12 +23,19 @@ interface ResultsTableProps {
   results: any[];
   executionDetails: ExecutionDetails;
   viewMode?: string;
+  // Results fetched with a page size: whether the server has more, and how to fetch the next page
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export default function ResultsTable({ 
   results, 
   executionDetails,
-  viewMode = "table"
+  viewMode = "table",
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: ResultsTableProps) {
   const [page, setPage] = useState(1);
   const rowsPerPage = 10;
@@ -56,6 +63,16 @@ export default function ResultsTable({
   const totalPages = Math.ceil(results.length / rowsPerPage);
   const startIndex = (page - 1) * rowsPerPage;
   const paginatedResults = results.slice(startIndex, startIndex + rowsPerPage);
+  const canLoadMore = hasMore && onLoadMore !== undefined;
+
+  // Past the last loaded page, ask the server for the next one
+  const handleNextPage = () => {
+    if (page < totalPages) {
+      setPage(page + 1);
+    } else if (canLoadMore) {
+      onLoadMore();
+    }
+  };
 
   // Format date for display
   const formatDate = (dateString: string) => {
@@ -121,9 +138,9 @@ export default function ResultsTable({
         
         <div className="bg-gray-50 px-6 py-3 border-t border-gray-200 flex items-center justify-between">
           <div className="text-sm text-gray-500">
-            Showing <span className="font-medium">{paginatedResults.length}</span> of <span className="font-medium">{results.length}</span> results
+            Showing <span className="font-medium">{paginatedResults.length}</span> of <span className="font-medium">{results.length}{hasMore ? "+" : ""}</span> results
           </div>
-          {totalPages > 1 && (
+          {(totalPages > 1 || canLoadMore) && (
             <div className="flex space-x-2">
               <Button
                 variant="outline"
@@ -136,10 +153,10 @@ export default function ResultsTable({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => setPage(page + 1)}
-                disabled={page === totalPages}
+                onClick={handleNextPage}
+                disabled={(page === totalPages && !canLoadMore) || isLoadingMore}
               >
-                Next
+                {isLoadingMore ? "Loading..." : "Next"}
               </Button>
             </div>
           )}
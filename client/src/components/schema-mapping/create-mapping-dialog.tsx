@@ -1,9 +1,9 @@
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import type { DataSource, SchemaMapping } from "@shared/schema";
 
@@ -18,6 +18,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -39,8 +40,9 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Button } from "@/components/ui/button";
-import { Plus, Trash2 } from "lucide-react";
+import { Eye, Plus, Trash2 } from "lucide-react";
 
 const formSchema = z.object({
   name: z.string().min(2, {
@@ -51,9 +53,21 @@ const formSchema = z.object({
   targetId: z.string().min(1, "Target is required"),
   targetCollection: z.string().min(1, "Target collection is required"),
   status: z.enum(["active", "inactive"]).default("active"),
+  bidirectional: z.boolean().default(false),
   // We'll handle mapping rules separately
 });
 
+// What the rules make of a few source documents, and the documents a rule failed on
+interface MappingPreview {
+  rows: Record<string, unknown>[];
+  errors: { row: number; sourceField: string; targetField: string; error: string }[];
+}
+
+const TRANSFORM_HELP =
+  "An expression over value (the source field) and other source fields, e.g. CONCAT(firstName, ' ', lastName), " +
+  "TO_DATE(value), FORMAT_DATE(value, 'YYYY-MM-DD'), REGEX_REPLACE(value, '[^0-9]', ''), LOOKUP(value, 'M', 'male', 'F', 'female', 'unknown'). " +
+  "A two-way mapping needs an inverse for each transform; leave it empty to derive one where the functions allow.";
+
 interface CreateMappingDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -72,6 +86,8 @@ export default function CreateMappingDialog({
   const [mappingRules, setMappingRules] = useState<any[]>([]);
   const [sourceCollections, setSourceCollections] = useState<string[]>([]);
   const [targetCollections, setTargetCollections] = useState<string[]>([]);
+  const [preview, setPreview] = useState<MappingPreview | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
 
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -83,6 +99,7 @@ export default function CreateMappingDialog({
           targetId: String(editingMapping.targetId),
           targetCollection: editingMapping.targetCollection,
           status: editingMapping.status as "active" | "inactive",
+          bidirectional: editingMapping.bidirectional,
         }
       : {
           name: "",
@@ -91,6 +108,7 @@ export default function CreateMappingDialog({
           targetId: "",
           targetCollection: "",
           status: "active",
+          bidirectional: false,
         },
   });
 
@@ -105,6 +123,7 @@ export default function CreateMappingDialog({
     } else if (!editingMapping && open) {
       setMappingRules([]);
     }
+    setPreview(null);
   }, [editingMapping, open]);
 
   // Update collections when source changes
@@ -168,6 +187,38 @@ export default function CreateMappingDialog({
     setMappingRules(newRules);
   };
 
+  // Run the rules as they stand on a few documents of the source collection
+  const previewMapping = async () => {
+    const { sourceId, sourceCollection } = form.getValues();
+    if (!sourceId || !sourceCollection) {
+      toast({
+        title: "Validation Error",
+        description: "Choose a source and source collection to preview.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsPreviewing(true);
+    try {
+      const res = await apiRequest("POST", "/api/schema-mappings/preview", {
+        sourceId: parseInt(sourceId),
+        sourceCollection,
+        mappingRules,
+      });
+      setPreview(await res.json());
+    } catch (error) {
+      setPreview(null);
+      toast({
+        title: "Preview failed",
+        description: errorMessage(error as Error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
   async function onSubmit(values: z.infer<typeof formSchema>) {
     if (mappingRules.length === 0) {
       toast({
@@ -199,6 +250,7 @@ export default function CreateMappingDialog({
         targetId: parseInt(values.targetId),
         targetCollection: values.targetCollection,
         status: values.status,
+        bidirectional: values.bidirectional,
         mappingRules: mappingRules,
       };
 
@@ -230,7 +282,7 @@ export default function CreateMappingDialog({
         title: "Error",
         description: `Failed to ${
           editingMapping ? "update" : "create"
-        } schema mapping.`,
+        } schema mapping: ${errorMessage(error as Error)}`,
         variant: "destructive",
       });
     } finally {
@@ -293,6 +345,27 @@ export default function CreateMappingDialog({
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="bidirectional"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Two-way</FormLabel>
+                    <FormDescription>
+                      Also map target documents back into the source's fields
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-6">
               <div className="space-y-4">
                 <h3 className="text-sm font-medium">Source</h3>
@@ -424,15 +497,27 @@ export default function CreateMappingDialog({
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <h3 className="text-sm font-medium">Mapping Rules</h3>
-                <Button
-                  type="button"
-                  variant="outline"
-                  size="sm"
-                  onClick={addMappingRule}
-                >
-                  <Plus className="h-4 w-4 mr-1" />
-                  Add Rule
-                </Button>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    disabled={mappingRules.length === 0 || isPreviewing}
+                    onClick={previewMapping}
+                  >
+                    <Eye className="h-4 w-4 mr-1" />
+                    Preview
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={addMappingRule}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Rule
+                  </Button>
+                </div>
               </div>
 
               <Table>
@@ -453,57 +538,108 @@ export default function CreateMappingDialog({
                     </TableRow>
                   ) : (
                     mappingRules.map((rule, index) => (
-                      <TableRow key={index}>
-                        <TableCell>
-                          <Input
-                            value={rule.sourceField}
-                            onChange={(e) =>
-                              updateMappingRule(index, "sourceField", e.target.value)
-                            }
-                            placeholder="e.g., uid"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Input
-                            value={rule.targetField}
-                            onChange={(e) =>
-                              updateMappingRule(index, "targetField", e.target.value)
-                            }
-                            placeholder="e.g., _id"
-                          />
-                        </TableCell>
-                        <TableCell>
-                          <Select
-                            value={rule.type}
-                            onValueChange={(value) =>
-                              updateMappingRule(index, "type", value)
-                            }
-                          >
-                            <SelectTrigger>
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="direct">Direct</SelectItem>
-                              <SelectItem value="transform">Transform</SelectItem>
-                              <SelectItem value="custom">Custom</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </TableCell>
-                        <TableCell>
-                          <Button
-                            type="button"
-                            variant="ghost"
-                            size="icon"
-                            onClick={() => removeMappingRule(index)}
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </TableCell>
-                      </TableRow>
+                      <Fragment key={index}>
+                        <TableRow>
+                          <TableCell>
+                            <Input
+                              value={rule.sourceField}
+                              onChange={(e) =>
+                                updateMappingRule(index, "sourceField", e.target.value)
+                              }
+                              placeholder="e.g., uid"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              value={rule.targetField}
+                              onChange={(e) =>
+                                updateMappingRule(index, "targetField", e.target.value)
+                              }
+                              placeholder="e.g., _id"
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={rule.type}
+                              onValueChange={(value) =>
+                                updateMappingRule(index, "type", value)
+                              }
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="direct">Direct</SelectItem>
+                                <SelectItem value="transform">Transform</SelectItem>
+                                <SelectItem value="custom">Custom</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => removeMappingRule(index)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                        {rule.type === "transform" && (
+                          <TableRow>
+                            <TableCell colSpan={2} className="pt-0">
+                              <Input
+                                className="font-mono text-xs"
+                                value={rule.transform ?? ""}
+                                onChange={(e) =>
+                                  updateMappingRule(index, "transform", e.target.value)
+                                }
+                                placeholder="e.g., TO_DATE(value)"
+                                title={TRANSFORM_HELP}
+                              />
+                            </TableCell>
+                            <TableCell colSpan={2} className="pt-0">
+                              <Input
+                                className="font-mono text-xs"
+                                value={rule.inverse ?? ""}
+                                onChange={(e) =>
+                                  updateMappingRule(index, "inverse", e.target.value)
+                                }
+                                placeholder="Inverse, e.g., TO_STRING(value)"
+                              />
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
                     ))
                   )}
                 </TableBody>
               </Table>
+              {mappingRules.some((rule) => rule.type === "transform") && (
+                <p className="text-xs text-gray-500">{TRANSFORM_HELP}</p>
+              )}
+
+              {preview && (
+                <div className="space-y-2">
+                  {preview.errors.length > 0 && (
+                    <ul className="text-xs text-red-600 space-y-1">
+                      {preview.errors.map((rowError, index) => (
+                        <li key={index}>
+                          Row {rowError.row + 1}, {rowError.sourceField} → {rowError.targetField}: {rowError.error}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {preview.rows.length === 0 ? (
+                    <p className="text-xs text-gray-500">The source collection has no documents to preview.</p>
+                  ) : (
+                    <pre className="max-h-48 overflow-auto rounded bg-gray-100 p-2 text-xs">
+                      {JSON.stringify(preview.rows, null, 2)}
+                    </pre>
+                  )}
+                </div>
+              )}
             </div>
 
             <DialogFooter>
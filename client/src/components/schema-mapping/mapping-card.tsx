@@ -4,6 +4,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import type { SchemaMapping, DataSource } from "@shared/schema";
@@ -20,6 +21,7 @@ export default function MappingCard({
   onEdit,
 }: MappingCardProps) {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const [isDeleting, setIsDeleting] = useState(false);
   const [isExpanded, setIsExpanded] = useState(false);
 
@@ -75,6 +77,11 @@ export default function MappingCard({
             <h4 className="text-md font-semibold text-gray-800">{mapping.name}</h4>
           </div>
           <div className="flex items-center space-x-2">
+            {mapping.bidirectional && (
+              <Badge variant="outline" className="px-2 py-1 text-xs rounded-full">
+                Two-way
+              </Badge>
+            )}
             <Badge
               variant={mapping.status === 'active' ? 'success' : 'secondary'}
               className={`px-2 py-1 ${mapping.status === 'active' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'} text-xs rounded-full`}
@@ -162,25 +169,27 @@ export default function MappingCard({
             </div>
           </div>
           
-          <div className="flex justify-end mt-4 space-x-2">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => onEdit(mapping)}
-            >
-              <Edit className="h-4 w-4 mr-1" />
-              Edit
-            </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleDelete}
-              disabled={isDeleting}
-            >
-              <Trash2 className="h-4 w-4 mr-1" />
-              Delete
-            </Button>
-          </div>
+          {hasRole("editor") && (
+            <div className="flex justify-end mt-4 space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onEdit(mapping)}
+              >
+                <Edit className="h-4 w-4 mr-1" />
+                Edit
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleDelete}
+                disabled={isDeleting}
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </Button>
+            </div>
+          )}
         </CardContent>
       )}
     </Card>
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Copy, KeyRound, Plus } from "lucide-react";
+import type { CreatedApiKey, PublicApiKey } from "@shared/schema";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+
+const SCOPE_LABELS: Record<string, string> = {
+  read: "Read-only",
+  execute: "Execute",
+};
+
+// Expiry choices in days; "never" keeps the key until it is revoked
+const EXPIRY_OPTIONS = [
+  { value: "30", label: "30 days" },
+  { value: "90", label: "90 days" },
+  { value: "365", label: "1 year" },
+  { value: "never", label: "Never" },
+];
+
+function keyStatus(apiKey: PublicApiKey): { label: string; className: string } {
+  if (apiKey.revokedAt) {
+    return { label: "Revoked", className: "bg-gray-100 text-gray-600" };
+  }
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt).getTime() <= Date.now()) {
+    return { label: "Expired", className: "bg-amber-100 text-amber-700" };
+  }
+  return { label: "Active", className: "bg-green-100 text-green-700" };
+}
+
+function formatDate(value: Date | string | null): string {
+  return value ? new Date(value).toLocaleDateString() : "Never";
+}
+
+// The signed-in user's API keys: create, list and revoke
+export default function ApiKeys() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState("read");
+  const [expiry, setExpiry] = useState("90");
+  // The key just created; it can't be shown again once this is dismissed
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const { data: apiKeys = [] } = useQuery<PublicApiKey[]>({
+    queryKey: ["/api/api-keys"],
+  });
+
+  const createKey = useMutation({
+    mutationFn: async (): Promise<CreatedApiKey> => {
+      const res = await apiRequest("POST", "/api/api-keys", {
+        name,
+        scope,
+        expiresInDays: expiry === "never" ? null : parseInt(expiry),
+      });
+      return res.json();
+    },
+    onSuccess: (apiKey) => {
+      setCreated(apiKey);
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create API key", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const revokeKey = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/api-keys/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/api-keys"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not revoke API key", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const copyKey = async () => {
+    if (!created) return;
+    await navigator.clipboard.writeText(created.key);
+    toast({ title: "Copied", description: "The API key is on your clipboard." });
+  };
+
+  return (
+    <div className="space-y-4">
+      {created && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>Copy your new API key now</AlertTitle>
+          <AlertDescription>
+            <p className="mb-2">It won't be shown again. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.</p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-gray-100 px-2 py-1 text-xs">{created.key}</code>
+              <Button variant="outline" size="sm" onClick={copyKey}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCreated(null)}>Done</Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="flex-1"
+          placeholder="Key name, e.g. Nightly ETL"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+        />
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="read">Read-only</SelectItem>
+            <SelectItem value="execute">Execute</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={expiry} onValueChange={setExpiry}>
+          <SelectTrigger className="w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPIRY_OPTIONS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          disabled={!name.trim() || createKey.isPending}
+          onClick={() => createKey.mutate()}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Create Key
+        </Button>
+      </div>
+
+      {apiKeys.length === 0 ? (
+        <p className="text-xs text-gray-500">You have no API keys.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {apiKeys.map(apiKey => {
+            const status = keyStatus(apiKey);
+            return (
+              <div key={apiKey.id} className="flex items-center justify-between px-4 py-2">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium">{apiKey.name}</span>
+                    <Badge variant="secondary" className={status.className}>{status.label}</Badge>
+                    <Badge variant="outline">{SCOPE_LABELS[apiKey.scope] ?? apiKey.scope}</Badge>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    <code>{apiKey.prefix}…</code>
+                    {` · expires ${formatDate(apiKey.expiresAt)} · last used ${apiKey.lastUsedAt ? formatDate(apiKey.lastUsedAt) : "never"}`}
+                  </p>
+                </div>
+                {!apiKey.revokedAt && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeKey.isPending}
+                    onClick={() => revokeKey.mutate(apiKey.id)}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
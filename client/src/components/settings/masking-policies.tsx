@@ -0,0 +1,186 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { MASKING_STRATEGIES, USER_ROLES, type DataSource, type MaskingPolicy } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+
+const STRATEGY_LABELS: Record<string, string> = {
+  hash: "Hash",
+  partial: "Partial mask",
+  null: "Remove",
+  tokenize: "Tokenize",
+};
+
+const STRATEGY_EXAMPLES: Record<string, string> = {
+  hash: "9f86d081884c7d65…",
+  partial: "j***@example.com",
+  null: "null",
+  tokenize: "tok_9f86d081884c7d65",
+};
+
+// Admin view of which source fields are masked in query results, and for whom
+export default function MaskingPolicies() {
+  const { toast } = useToast();
+  const [sourceId, setSourceId] = useState("");
+  const [collection, setCollection] = useState("");
+  const [field, setField] = useState("");
+  const [strategy, setStrategy] = useState("partial");
+  const [exemptRoles, setExemptRoles] = useState<string[]>(["admin"]);
+
+  const { data: policies = [] } = useQuery<MaskingPolicy[]>({
+    queryKey: ["/api/masking-policies"],
+  });
+
+  const { data: dataSources = [] } = useQuery<DataSource[]>({
+    queryKey: ["/api/data-sources"],
+  });
+
+  const createPolicy = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/masking-policies", {
+        sourceId: parseInt(sourceId),
+        collection: collection.trim(),
+        field: field.trim(),
+        strategy,
+        exemptRoles,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/masking-policies"] });
+      setField("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add masking policy", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deletePolicy = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/masking-policies/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/masking-policies"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not remove masking policy", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const toggleRole = (role: string, exempt: boolean) => {
+    setExemptRoles(roles => exempt ? [...roles, role] : roles.filter(candidate => candidate !== role));
+  };
+
+  const sourceName = (id: number) => dataSources.find(source => source.id === id)?.name ?? `#${id}`;
+
+  return (
+    <div className="space-y-4">
+      {policies.length === 0 ? (
+        <p className="text-xs text-gray-500">No fields are masked.</p>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {policies.map(policy => (
+            <div key={policy.id} className="flex items-center justify-between px-4 py-2">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">
+                    {sourceName(policy.sourceId)} / {policy.collection} / <code>{policy.field}</code>
+                  </span>
+                  <Badge variant="secondary">{STRATEGY_LABELS[policy.strategy] ?? policy.strategy}</Badge>
+                </div>
+                <p className="text-xs text-gray-500">
+                  {(policy.exemptRoles as string[]).length > 0
+                    ? `Shown unmasked to: ${(policy.exemptRoles as string[]).join(", ")}`
+                    : "Masked for everyone"}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                aria-label="Remove masking policy"
+                disabled={deletePolicy.isPending}
+                onClick={() => deletePolicy.mutate(policy.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <Select value={sourceId} onValueChange={setSourceId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Data source" />
+            </SelectTrigger>
+            <SelectContent>
+              {dataSources.map(source => (
+                <SelectItem key={source.id} value={String(source.id)}>{source.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            className="w-40"
+            placeholder="Collection"
+            value={collection}
+            onChange={(event) => setCollection(event.target.value)}
+          />
+          <Input
+            className="flex-1"
+            placeholder="Field, e.g. email or address.city"
+            value={field}
+            onChange={(event) => setField(event.target.value)}
+          />
+          <Select value={strategy} onValueChange={setStrategy}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MASKING_STRATEGIES.map(option => (
+                <SelectItem key={option} value={option}>{STRATEGY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <span className="text-xs text-gray-500">Exempt:</span>
+            {USER_ROLES.map(role => (
+              <div key={role} className="flex items-center gap-1">
+                <Checkbox
+                  id={`exempt-${role}`}
+                  checked={exemptRoles.includes(role)}
+                  onCheckedChange={(checked) => toggleRole(role, checked === true)}
+                />
+                <Label htmlFor={`exempt-${role}`} className="text-xs capitalize">{role}</Label>
+              </div>
+            ))}
+            <span className="text-xs text-gray-500">e.g. {STRATEGY_EXAMPLES[strategy]}</span>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!sourceId || !collection.trim() || !field.trim() || createPolicy.isPending}
+            onClick={() => createPolicy.mutate()}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Policy
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
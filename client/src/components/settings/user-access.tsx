@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Plus, X } from "lucide-react";
+import { USER_ROLES, type AccessGrant, type DataSource, type PublicUser } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+
+const ROLE_DESCRIPTIONS: Record<string, string> = {
+  viewer: "Reads and queries what they are granted",
+  editor: "Also changes data sources, mappings and queries",
+  admin: "Everything, including users and grants",
+};
+
+function grantLabel(grant: AccessGrant, dataSources: DataSource[]): string {
+  const source = dataSources.find(candidate => candidate.id === grant.sourceId)?.name ?? `#${grant.sourceId}`;
+  if (!grant.collection) return `${source} (all collections)`;
+  const columns = Array.isArray(grant.columns) ? ` [${grant.columns.join(", ")}]` : "";
+  return `${source} / ${grant.collection}${columns}`;
+}
+
+// A new grant for one user: a source, optionally narrowed to a collection and some of its columns
+function AddGrantForm({ userId, dataSources }: { userId: number; dataSources: DataSource[] }) {
+  const { toast } = useToast();
+  const [sourceId, setSourceId] = useState("");
+  const [collection, setCollection] = useState("");
+  const [columns, setColumns] = useState("");
+
+  const createGrant = useMutation({
+    mutationFn: async () => {
+      const columnList = columns.split(",").map(column => column.trim()).filter(Boolean);
+      await apiRequest("POST", "/api/access-grants", {
+        userId,
+        sourceId: parseInt(sourceId),
+        collection: collection.trim() || null,
+        columns: columnList.length > 0 ? columnList : null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/access-grants"] });
+      setCollection("");
+      setColumns("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add grant", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2 mt-2">
+      <Select value={sourceId} onValueChange={setSourceId}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Data source" />
+        </SelectTrigger>
+        <SelectContent>
+          {dataSources.map(source => (
+            <SelectItem key={source.id} value={String(source.id)}>{source.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        className="w-40"
+        placeholder="Collection (all)"
+        value={collection}
+        onChange={(event) => setCollection(event.target.value)}
+      />
+      <Input
+        className="flex-1"
+        placeholder="Columns, comma separated (all)"
+        value={columns}
+        disabled={!collection.trim()}
+        onChange={(event) => setColumns(event.target.value)}
+      />
+      <Button
+        variant="outline"
+        size="sm"
+        disabled={!sourceId || createGrant.isPending}
+        onClick={() => createGrant.mutate()}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Grant
+      </Button>
+    </div>
+  );
+}
+
+// Admin view of every user's role and what they may read
+export default function UserAccess() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: grants = [] } = useQuery<AccessGrant[]>({
+    queryKey: ["/api/access-grants"],
+  });
+
+  const { data: dataSources = [] } = useQuery<DataSource[]>({
+    queryKey: ["/api/data-sources"],
+  });
+
+  const updateRole = useMutation({
+    mutationFn: async ({ id, role }: { id: number; role: string }) => {
+      await apiRequest("PUT", `/api/users/${id}/role`, { role });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not change role", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const deleteGrant = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/access-grants/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/access-grants"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not remove grant", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      {users.map(user => {
+        const userGrants = grants.filter(grant => grant.userId === user.id);
+        return (
+          <div key={user.id} className="border rounded-lg p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="text-sm font-medium">
+                  {user.username}
+                  {user.id === currentUser?.id && <span className="text-gray-500"> (you)</span>}
+                </h4>
+                <p className="text-xs text-gray-500">{ROLE_DESCRIPTIONS[user.role]}</p>
+              </div>
+              <Select
+                value={user.role}
+                onValueChange={(role) => updateRole.mutate({ id: user.id, role })}
+              >
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role} className="capitalize">{role}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Admins read everything, so grants only matter for other roles */}
+            {user.role !== "admin" && (
+              <div className="mt-3">
+                <div className="flex flex-wrap gap-2">
+                  {userGrants.length === 0 ? (
+                    <span className="text-xs text-gray-500">No access to any data source</span>
+                  ) : (
+                    userGrants.map(grant => (
+                      <Badge key={grant.id} variant="secondary" className="flex items-center gap-1">
+                        {grantLabel(grant, dataSources)}
+                        <button
+                          type="button"
+                          aria-label="Remove grant"
+                          onClick={() => deleteGrant.mutate(grant.id)}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))
+                  )}
+                </div>
+                <AddGrantForm userId={user.id} dataSources={dataSources} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
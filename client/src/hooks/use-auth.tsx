@@ -0,0 +1,90 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useMutation, useQuery, type UseMutationResult } from "@tanstack/react-query";
+import { USER_ROLES, type PublicUser, type UserRole } from "@shared/schema";
+import { apiRequest, errorMessage, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextValue {
+  user: PublicUser | null;
+  isLoading: boolean;
+  // Whether the user's role is `role` or above (viewer < editor < admin)
+  hasRole: (role: UserRole) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  registerMutation: UseMutationResult<PublicUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // null when nobody is logged in
+  const { data: user = null, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const hasRole = (role: UserRole) =>
+    user !== null && USER_ROLES.indexOf(user.role as UserRole) >= USER_ROLES.indexOf(role);
+
+  const onLoggedIn = (loggedIn: PublicUser) => {
+    // Anything cached belongs to whoever was logged in before
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], loggedIn);
+  };
+
+  const loginMutation = useMutation<PublicUser, Error, Credentials>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return res.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: (error) => {
+      toast({ title: "Login failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const registerMutation = useMutation<PublicUser, Error, Credentials>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return res.json();
+    },
+    onSuccess: onLoggedIn,
+    onError: (error) => {
+      toast({ title: "Registration failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  const logoutMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+    onError: (error) => {
+      toast({ title: "Logout failed", description: errorMessage(error), variant: "destructive" });
+    },
+  });
+
+  return (
+    <AuthContext.Provider value={{ user, isLoading, hasRole, loginMutation, registerMutation, logoutMutation }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,51 @@
+// Client for /api/execute-query/stream: posts an execute request and hands every
+// newline-delimited JSON frame to `onEvent` as soon as it arrives.
+import type { QueryStreamEvent } from "@shared/schema";
+
+export interface ExecuteQueryRequest {
+  queryId?: number;
+  query?: string;
+  params?: Record<string, any>;
+  dataSources?: number[];
+  collections?: string[];
+  federationStrategy?: string;
+}
+
+export async function streamQueryResults(
+  request: ExecuteQueryRequest,
+  onEvent: (event: QueryStreamEvent) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch("/api/execute-query/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/x-ndjson" },
+    body: JSON.stringify(request),
+    credentials: "include",
+    signal,
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+
+    // Every complete line is one frame; keep a trailing partial line for the next chunk
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+
+    if (done) break;
+  }
+
+  if (buffered.trim()) onEvent(JSON.parse(buffered));
+}
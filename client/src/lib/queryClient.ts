@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Request errors arrive as "<status>: <json body>"; the body's error message, for showing to the user
+export function errorMessage(error: Error): string {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).error ?? body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -42,6 +52,14 @@ export const getQueryFn: <T>(options: {
   };
 
 export const queryClient = new QueryClient({
+  // A 401 means the session has ended; clearing the user sends the app back to the login page
+  queryCache: new QueryCache({
+    onError: (error) => {
+      if (error.message.startsWith("401:")) {
+        queryClient.setQueryData(["/api/user"], null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
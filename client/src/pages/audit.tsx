@@ -0,0 +1,261 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, RefreshCw } from "lucide-react";
+import type { AuditEvent, DataSource, PublicUser } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { errorMessage } from "@/lib/queryClient";
+
+const ENTITY_TYPES: Record<string, string> = {
+  data_source: "Data source",
+  schema_mapping: "Schema mapping",
+  query: "Query",
+  query_schedule: "Query schedule",
+  user: "User",
+  access_grant: "Access grant",
+  api_key: "API key",
+  masking_policy: "Masking policy",
+  settings: "Settings",
+};
+
+const ACTIONS = ["create", "update", "delete", "execute", "run", "revoke"];
+
+const STATUS_CLASSES: Record<string, string> = {
+  succeeded: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  denied: "bg-amber-100 text-amber-700",
+};
+
+// "all" in a filter select means the filter is not applied
+const ALL = "all";
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+// What an event changed or ran, shown when its row is expanded
+function EventDetails({ event, dataSources }: { event: AuditEvent; dataSources: DataSource[] }) {
+  const changes = (event.changes ?? {}) as Record<string, { before: unknown; after: unknown }>;
+  const sourceIds = (event.sourceIds ?? []) as number[];
+
+  return (
+    <div className="space-y-3 text-xs">
+      {event.error && <p className="text-red-600">{event.error}</p>}
+      {Object.keys(changes).length > 0 && (
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="pr-4 font-medium">Field</th>
+              <th className="pr-4 font-medium">Before</th>
+              <th className="font-medium">After</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(changes).map(([field, change]) => (
+              <tr key={field} className="align-top">
+                <td className="pr-4 font-mono">{field}</td>
+                <td className="pr-4"><pre className="whitespace-pre-wrap">{formatJson(change.before)}</pre></td>
+                <td><pre className="whitespace-pre-wrap">{formatJson(change.after)}</pre></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {event.queryText && (
+        <div>
+          <p className="text-gray-500 font-medium">Query</p>
+          <pre className="whitespace-pre-wrap font-mono bg-gray-100 rounded p-2">{event.queryText}</pre>
+        </div>
+      )}
+      {event.params !== null && Object.keys(event.params as object).length > 0 && (
+        <div>
+          <p className="text-gray-500 font-medium">Parameters</p>
+          <pre className="whitespace-pre-wrap font-mono bg-gray-100 rounded p-2">{formatJson(event.params)}</pre>
+        </div>
+      )}
+      {sourceIds.length > 0 && (
+        <p>
+          <span className="text-gray-500 font-medium">Sources read: </span>
+          {sourceIds.map(id => dataSources.find(source => source.id === id)?.name ?? `#${id}`).join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Who changed what and who ran which query, newest first; admins only
+export default function Audit() {
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [status, setStatus] = useState(ALL);
+  const [userId, setUserId] = useState(ALL);
+  const [since, setSince] = useState("");
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  const filter = new URLSearchParams();
+  if (entityType !== ALL) filter.set("entityType", entityType);
+  if (action !== ALL) filter.set("action", action);
+  if (status !== ALL) filter.set("status", status);
+  if (userId !== ALL) filter.set("userId", userId);
+  if (since) filter.set("since", new Date(since).toISOString());
+  filter.set("limit", "500");
+
+  const { data: auditEvents = [], error, isFetching, refetch } = useQuery<AuditEvent[]>({
+    queryKey: [`/api/audit?${filter.toString()}`],
+  });
+
+  const { data: users = [] } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: dataSources = [] } = useQuery<DataSource[]>({
+    queryKey: ["/api/data-sources"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Audit Log</CardTitle>
+            <CardDescription>Every change to data sources, mappings, queries and access, and every query run</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" disabled={isFetching} onClick={() => refetch()}>
+            <RefreshCw className="h-4 w-4 mr-1" />
+            Refresh
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap items-center gap-2 mb-4">
+          <Select value={entityType} onValueChange={setEntityType}>
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All entities</SelectItem>
+              {Object.entries(ENTITY_TYPES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All actions</SelectItem>
+              {ACTIONS.map(value => (
+                <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All outcomes</SelectItem>
+              {Object.keys(STATUS_CLASSES).map(value => (
+                <SelectItem key={value} value={value} className="capitalize">{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All users</SelectItem>
+              {users.map(user => (
+                <SelectItem key={user.id} value={String(user.id)}>{user.username}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="datetime-local"
+            className="w-56"
+            aria-label="Since"
+            value={since}
+            onChange={(event) => setSince(event.target.value)}
+          />
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{errorMessage(error as Error)}</p>
+        ) : auditEvents.length === 0 ? (
+          <p className="text-sm text-gray-500">No audit events match these filters.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Time</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {auditEvents.map(event => (
+                <Fragment key={event.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(expanded === event.id ? null : event.id)}
+                  >
+                    <TableCell>
+                      {expanded === event.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {event.createdAt ? new Date(event.createdAt).toLocaleString() : ""}
+                    </TableCell>
+                    <TableCell>
+                      {event.actor}
+                      {event.apiKeyId !== null && <Badge variant="outline" className="ml-2">API key</Badge>}
+                    </TableCell>
+                    <TableCell className="capitalize">{event.action}</TableCell>
+                    <TableCell>
+                      {ENTITY_TYPES[event.entityType] ?? event.entityType}
+                      {event.entityId !== null && <span className="text-gray-500"> #{event.entityId}</span>}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary" className={STATUS_CLASSES[event.status]}>{event.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{event.rowCount ?? ""}</TableCell>
+                  </TableRow>
+                  {expanded === event.id && (
+                    <TableRow>
+                      <TableCell />
+                      <TableCell colSpan={6}>
+                        <EventDetails event={event} dataSources={dataSources} />
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import StatusCard from "@/components/dashboard/status-card";
 import SourceCard from "@/components/data-sources/source-card";
 import MappingCard from "@/components/schema-mapping/mapping-card";
 import { useState, useEffect } from "react";
+import type { SourceHealthCheck } from "@shared/schema";
 import { Link } from "wouter";
 import { AlertCircle, Database, Server, Activity, CircleAlert } from "lucide-react";
 
@@ -19,6 +20,10 @@ interface DataSource {
   config: any;
   collections: any;
   status: string;
+  snapshotCollections: any;
+  maxRows: number | null;
+  lastError: string | null;
+  demoMode: boolean;
   createdAt: Date | null;
   updatedAt: Date | null;
 }
@@ -33,6 +38,7 @@ interface SchemaMapping {
   targetCollection: string;
   mappingRules: any;
   status: string;
+  bidirectional: boolean;
   createdAt: Date | null;
   updatedAt: Date | null;
 }
@@ -72,24 +78,33 @@ export default function Dashboard() {
     queryKey: ["/api/queries"],
   });
 
+  // Fetch settings (demo mode can be switched on for every source at once)
+  const { data: settings } = useQuery<{ demoMode: boolean }>({
+    queryKey: ["/api/settings"],
+  });
+
+  // Connectivity history from the health checker, which checks every source every few minutes
+  const { data: healthChecks = [] } = useQuery<SourceHealthCheck[]>({
+    queryKey: ["/api/health-checks?limit=2000"],
+    refetchInterval: 5 * 60 * 1000,
+  });
+
   // Determine system health from data sources
   useEffect(() => {
     if (dataSources.length > 0) {
       const firebaseSource = dataSources.find((source: DataSource) => source.type === 'firebase');
       const mongoSource = dataSources.find((source: DataSource) => source.type === 'mongodb');
+      const health = (source?: DataSource): 'connected' | 'disconnected' | 'sample' =>
+        !source ? 'disconnected' :
+        source.demoMode || settings?.demoMode ? 'sample' :
+        source.status === 'connected' ? 'connected' : 'disconnected';
       
       setSystemHealth({
-        firebase: firebaseSource ? 
-          (firebaseSource.status === 'connected' && !firebaseSource.collections?.length) ? 'sample' : 
-          firebaseSource.status === 'connected' ? 'connected' : 'sample' : 
-          'disconnected',
-        mongodb: mongoSource ? 
-          (mongoSource.status === 'connected' && !mongoSource.collections?.length) ? 'sample' : 
-          mongoSource.status === 'connected' ? 'connected' : 'sample' : 
-          'disconnected',
+        firebase: health(firebaseSource),
+        mongodb: health(mongoSource),
       });
     }
-  }, [dataSources]);
+  }, [dataSources, settings]);
 
   const isLoading = isLoadingDataSources || isLoadingMappings || isLoadingQueries;
 
@@ -117,8 +132,8 @@ export default function Dashboard() {
             <div>
               <h4 className="font-medium text-amber-800">Using Sample Data Mode</h4>
               <p className="text-sm text-amber-700 mt-1">
-                Some data sources are using sample data instead of real connections. 
-                The system is running in demonstration mode with limited functionality.
+                Some data sources are in demo mode and read built-in sample data instead of
+                their real connections. Turn demo mode off to query live data.
               </p>
               <Link href="/data-sources">
                 <Button variant="outline" size="sm" className="mt-3 border-amber-300 text-amber-700 hover:bg-amber-100">
@@ -200,7 +215,8 @@ export default function Dashboard() {
       
       {/* System Overview */}
       <SystemOverview 
-        dataSourcesCount={dataSources.length} 
+        dataSources={dataSources} 
+        healthChecks={healthChecks} 
         schemaMappingsCount={schemaMappings.length} 
         recentQueriesCount={queries.length} 
       />
@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Plus } from "lucide-react";
 import SourceCard from "@/components/data-sources/source-card";
 import AddSourceDialog from "@/components/data-sources/add-source-dialog";
+import { useAuth } from "@/hooks/use-auth";
 import type { DataSource } from "@shared/schema";
 
 export default function DataSources() {
+  const { hasRole } = useAuth();
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [editingSource, setEditingSource] = useState<DataSource | null>(null);
 
@@ -31,13 +33,15 @@ export default function DataSources() {
       <Card className="bg-white rounded-lg shadow-md p-6 mb-6">
         <div className="flex justify-between items-center mb-4">
           <h3 className="text-lg font-semibold text-gray-800">Data Sources</h3>
-          <Button 
-            onClick={handleAddSource}
-            className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
-          >
-            <Plus className="h-4 w-4 mr-1" />
-            Add Source
-          </Button>
+          {hasRole("editor") && (
+            <Button 
+              onClick={handleAddSource}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Source
+            </Button>
+          )}
         </div>
         
         {isLoading ? (
@@ -61,13 +65,15 @@ export default function DataSources() {
                   <p className="text-gray-500 mb-4 max-w-md text-center">
                     Connect to your first data source to start integrating and querying data across systems.
                   </p>
-                  <Button 
-                    onClick={handleAddSource}
-                    className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
-                  >
-                    <Plus className="h-4 w-4 mr-1" />
-                    Add Source
-                  </Button>
+                  {hasRole("editor") && (
+                    <Button 
+                      onClick={handleAddSource}
+                      className="bg-blue-600 hover:bg-blue-700 text-white font-medium"
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Source
+                    </Button>
+                  )}
                 </div>
               </div>
             ) : (
@@ -6,6 +6,7 @@ import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle }
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
 import { apiRequest } from "@/lib/queryClient";
+import type { ExecuteQueryRequest } from "@/lib/query-stream";
 import QueryForm from "@/components/query-builder/query-form";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { ExternalLink, AlertTriangle, ChevronRight, Code, Database, Check } from "lucide-react";
@@ -28,6 +29,7 @@ export default function QueryBuilder() {
   });
   const [queryError, setQueryError] = useState<string | null>(null);
   const [queryExecutionResults, setQueryExecutionResults] = useState<any>(null);
+  const [lastExecutionRequest, setLastExecutionRequest] = useState<ExecuteQueryRequest | null>(null);
   const [isEditing, setIsEditing] = useState<boolean>(true);
   const [selectedQueryId, setSelectedQueryId] = useState<number | null>(null);
 
@@ -91,12 +93,13 @@ export default function QueryBuilder() {
 
   // Execute query
   const executeQueryMutation = useMutation({
-    mutationFn: async (data: { queryId?: number; query?: any; params?: any }) => {
+    mutationFn: async (data: ExecuteQueryRequest) => {
       const response = await apiRequest('POST', '/api/execute-query', data);
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data, request) => {
       setQueryExecutionResults(data);
+      setLastExecutionRequest(request);
       toast({
         title: "Query Executed",
         description: `Retrieved ${data.results.length} results in ${data.executionTime}ms`,
@@ -142,7 +145,7 @@ export default function QueryBuilder() {
     }
   };
 
-  const handleFetchData = async (dataSource: string, collection: string) => {
+  const handleFetchData = async (dataSource: number, collection: string) => {
     // Build a simple SELECT * query for the given collection, limiting to 20 entries
     const simpleQuery = `SELECT * FROM ${collection} LIMIT 20`;
 
@@ -172,9 +175,10 @@ export default function QueryBuilder() {
 
   // Handle view results
   const handleViewResults = () => {
-    // Store the results in local storage for the results page
-    if (queryExecutionResults) {
-      localStorage.setItem('queryResults', JSON.stringify(queryExecutionResults));
+    // The results page runs the request again and streams the complete results in
+    if (lastExecutionRequest) {
+      localStorage.setItem('queryRequest', JSON.stringify(lastExecutionRequest));
+      localStorage.removeItem('queryResults');
       navigate('/results');
     }
   };
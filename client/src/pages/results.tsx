@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,8 +7,13 @@ import { Separator } from "@/components/ui/separator";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { ArrowLeft, Database, Code, DownloadIcon, CopyIcon, BarChart3Icon, TableIcon, FilterIcon } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ArrowLeft, Database, Code, DownloadIcon, CopyIcon, BarChart3Icon, TableIcon, FilterIcon, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { streamQueryResults } from "@/lib/query-stream";
+import type { MappingUse, QueryStreamEvent, ScanCount } from "@shared/schema";
+
+type SourceProgress = QueryStreamEvent & { type: "progress" };
 
 export default function Results() {
   const { toast } = useToast();
@@ -20,8 +25,73 @@ export default function Results() {
   const [showSourceInfo, setShowSourceInfo] = useState<boolean>(true);
   const [selectedColumns, setSelectedColumns] = useState<string[]>([]);
   const [availableColumns, setAvailableColumns] = useState<string[]>([]);
+  const [isStreaming, setIsStreaming] = useState<boolean>(false);
+  const [sourceProgress, setSourceProgress] = useState<Record<string, SourceProgress>>({});
+  const knownColumns = useRef<Set<string>>(new Set());
+
+  // Columns are discovered as rows arrive; new ones start out selected
+  const addColumns = (rows: Record<string, any>[]) => {
+    const added: string[] = [];
+    for (const row of rows) {
+      for (const column of Object.keys(row)) {
+        if (!knownColumns.current.has(column)) {
+          knownColumns.current.add(column);
+          added.push(column);
+        }
+      }
+    }
+    if (added.length > 0) {
+      setAvailableColumns(columns => [...columns, ...added]);
+      setSelectedColumns(columns => [...columns, ...added]);
+    }
+  };
+
+  const handleStreamEvent = (event: QueryStreamEvent) => {
+    switch (event.type) {
+      case "progress":
+        setSourceProgress(progress => ({ ...progress, [`${event.sourceId}:${event.alias}`]: event }));
+        break;
+      case "rows":
+        addColumns(event.rows);
+        setQueryResults((current: any) => ({ ...current, results: current.results.concat(event.rows) }));
+        break;
+      case "summary": {
+        const { type, rowCount, ...summary } = event;
+        setQueryResults((current: any) => ({ ...current, ...summary }));
+        break;
+      }
+      case "error":
+        toast({
+          title: "Query Execution Failed",
+          description: event.error,
+          variant: "destructive",
+        });
+        break;
+    }
+  };
 
   useEffect(() => {
+    // Stream the results of the request the query builder left in localStorage
+    const requestData = localStorage.getItem("queryRequest");
+    if (requestData) {
+      const controller = new AbortController();
+      setQueryResults({ results: [] });
+      setIsStreaming(true);
+
+      streamQueryResults(JSON.parse(requestData), handleStreamEvent, controller.signal)
+        .catch((error) => {
+          if (controller.signal.aborted) return;
+          toast({
+            title: "Query Execution Failed",
+            description: error.message || "An error occurred while executing the query",
+            variant: "destructive",
+          });
+        })
+        .finally(() => setIsStreaming(false));
+
+      return () => controller.abort();
+    }
+
     // Load results from localStorage
     const resultsData = localStorage.getItem("queryResults");
     if (resultsData) {
@@ -149,24 +219,67 @@ export default function Results() {
                 Results Overview
               </CardTitle>
               <CardDescription>
-                {`Retrieved ${queryResults.results.length} records in ${queryResults.executionTime}ms`}
+                {isStreaming
+                  ? `Streaming results: ${queryResults.results.length} records so far`
+                  : `Retrieved ${queryResults.results.length} records in ${queryResults.executionTime}ms`}
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {queryResults.sampleData && (
+                <Alert className="mb-4 border-amber-300 bg-amber-50">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Sample data</AlertTitle>
+                  <AlertDescription>
+                    {`These results include built-in sample data from sources in demo mode: ${(queryResults.scanned as ScanCount[] ?? [])
+                      .filter(scan => scan.sample)
+                      .map(scan => `${scan.alias} (source ${scan.sourceId})`)
+                      .join(", ")}. They are not live data.`}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {queryResults.truncated && (
+                <Alert className="mb-4">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Results are incomplete</AlertTitle>
+                  <AlertDescription>
+                    {`Reading stopped at the row budget for ${(queryResults.scanned as ScanCount[] ?? [])
+                      .filter(scan => scan.truncated)
+                      .map(scan => `${scan.alias} (source ${scan.sourceId}, ${scan.rows} rows)`)
+                      .join(", ")}. Add filters or a LIMIT, or raise the source's row budget.`}
+                  </AlertDescription>
+                </Alert>
+              )}
+              {(queryResults.mappings as MappingUse[] ?? []).some(mapping => mapping.errorCount > 0) && (
+                <Alert className="mb-4">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Some mapped fields are empty</AlertTitle>
+                  <AlertDescription>
+                    {(queryResults.mappings as MappingUse[])
+                      .filter(mapping => mapping.errorCount > 0)
+                      .map(mapping => `"${mapping.name}" failed ${mapping.errorCount} times on ${mapping.collection} (source ${mapping.sourceId})${
+                        mapping.errors.length > 0 ? `, e.g. ${mapping.errors[0].sourceField} → ${mapping.errors[0].targetField}: ${mapping.errors[0].error}` : ""}`)
+                      .join("; ")}. Those fields are null in the affected rows.
+                  </AlertDescription>
+                </Alert>
+              )}
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
                 <div>
                   <div className="text-sm text-muted-foreground mb-2">Result Details</div>
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <span className="text-sm">Execution Time:</span>
-                      <span className="text-sm font-medium">{queryResults.executionTime}ms</span>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <span className="text-sm">Last Updated:</span>
                       <span className="text-sm font-medium">
-                        {new Date(queryResults.lastUpdated).toLocaleString()}
+                        {queryResults.executionTime !== undefined ? `${queryResults.executionTime}ms` : "-"}
                       </span>
                     </div>
+                    {queryResults.lastUpdated && (
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm">Last Updated:</span>
+                        <span className="text-sm font-medium">
+                          {new Date(queryResults.lastUpdated).toLocaleString()}
+                        </span>
+                      </div>
+                    )}
                     {queryResults.nextUpdate && (
                       <div className="flex items-center justify-between">
                         <span className="text-sm">Next Update:</span>
@@ -175,12 +288,36 @@ export default function Results() {
                         </span>
                       </div>
                     )}
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm">Data:</span>
+                      <span className="text-sm font-medium">
+                        {queryResults.sampleData ? "Sample (demo mode)" : "Live"}
+                      </span>
+                    </div>
                     <div className="flex items-center justify-between">
                       <span className="text-sm">Cache Hit:</span>
                       <span className="text-sm font-medium">
                         {queryResults.cacheHit ? "Yes" : "No"}
                       </span>
                     </div>
+                    {Object.values(sourceProgress).map(progress => (
+                      <div key={`${progress.sourceId}:${progress.alias}`} className="flex items-center justify-between">
+                        <span className="text-sm">
+                          {progress.alias} (source {progress.sourceId}{progress.mode === "snapshot" ? ", snapshot" : ""}):
+                        </span>
+                        <span className="text-sm font-medium">
+                          {`${progress.rows} rows read${progress.done ? "" : "..."}`}
+                        </span>
+                      </div>
+                    ))}
+                    {(queryResults.mappings as MappingUse[] ?? []).map(mapping => (
+                      <div key={`${mapping.mappingId}:${mapping.sourceId}:${mapping.collection}`} className="flex items-center justify-between">
+                        <span className="text-sm">Mapped by "{mapping.name}":</span>
+                        <span className="text-sm font-medium">
+                          {`${mapping.rows} rows of ${mapping.collection} (source ${mapping.sourceId})`}
+                        </span>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
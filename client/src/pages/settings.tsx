@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -15,15 +15,22 @@ import {
 import { Input } from "@/components/ui/input";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import UserAccess from "@/components/settings/user-access";
+import ApiKeys from "@/components/settings/api-keys";
+import MaskingPolicies from "@/components/settings/masking-policies";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { apiRequest, errorMessage, queryClient } from "@/lib/queryClient";
+import type { AppSettings, CredentialVaultStatus } from "@shared/schema";
 
 const generalSettingsSchema = z.object({
   applicationName: z.string().min(1, "Application name is required"),
   enableNotifications: z.boolean().default(true),
   defaultFederationStrategy: z.string().min(1, "Default federation strategy is required"),
   dataRefreshInterval: z.string().min(1, "Data refresh interval is required"),
+  demoMode: z.boolean().default(false),
 });
 
 const firebaseSettingsSchema = z.object({
@@ -40,8 +47,17 @@ const mongodbSettingsSchema = z.object({
 
 export default function Settings() {
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const [activeTab, setActiveTab] = useState("general");
 
+  const { data: settings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const { data: vault } = useQuery<CredentialVaultStatus>({
+    queryKey: ["/api/credential-vault"],
+  });
+
   // General settings form
   const generalForm = useForm<z.infer<typeof generalSettingsSchema>>({
     resolver: zodResolver(generalSettingsSchema),
@@ -50,9 +66,23 @@ export default function Settings() {
       enableNotifications: true,
       defaultFederationStrategy: "virtual",
       dataRefreshInterval: "15",
+      demoMode: false,
     },
   });
 
+  // Show the stored settings once they have loaded
+  useEffect(() => {
+    if (settings) {
+      generalForm.reset({
+        applicationName: settings.applicationName,
+        enableNotifications: settings.enableNotifications,
+        defaultFederationStrategy: settings.defaultFederationStrategy,
+        dataRefreshInterval: String(settings.dataRefreshInterval),
+        demoMode: settings.demoMode,
+      });
+    }
+  }, [settings]);
+
   // Firebase settings form
   const firebaseForm = useForm<z.infer<typeof firebaseSettingsSchema>>({
     resolver: zodResolver(firebaseSettingsSchema),
@@ -74,12 +104,41 @@ export default function Settings() {
   });
 
   // Handle form submissions
-  const onGeneralSubmit = (values: z.infer<typeof generalSettingsSchema>) => {
-    toast({
-      title: "Settings Saved",
-      description: "General settings have been updated successfully.",
-    });
-    console.log(values);
+  const onGeneralSubmit = async (values: z.infer<typeof generalSettingsSchema>) => {
+    try {
+      await apiRequest("PUT", "/api/settings", {
+        ...values,
+        dataRefreshInterval: parseInt(values.dataRefreshInterval),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      // Switching demo mode reconnects every source
+      queryClient.invalidateQueries({ queryKey: ["/api/data-sources"] });
+      toast({
+        title: "Settings Saved",
+        description: "General settings have been updated successfully.",
+      });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save general settings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const onApiKeysToggle = async (apiKeysEnabled: boolean) => {
+    try {
+      await apiRequest("PUT", "/api/settings", { apiKeysEnabled });
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+    } catch (error) {
+      console.error("Error saving settings:", error);
+      toast({
+        title: "Error",
+        description: errorMessage(error as Error),
+        variant: "destructive",
+      });
+    }
   };
 
   const onFirebaseSubmit = (values: z.infer<typeof firebaseSettingsSchema>) => {
@@ -113,6 +172,7 @@ export default function Settings() {
           <TabsTrigger value="firebase">Firebase</TabsTrigger>
           <TabsTrigger value="mongodb">MongoDB</TabsTrigger>
           <TabsTrigger value="security">Security</TabsTrigger>
+          {hasRole("admin") && <TabsTrigger value="access">Users &amp; Access</TabsTrigger>}
         </TabsList>
         
         <TabsContent value="general">
@@ -195,6 +255,27 @@ export default function Settings() {
                 )}
               />
               
+              <FormField
+                control={generalForm.control}
+                name="demoMode"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                    <div className="space-y-0.5">
+                      <FormLabel>Demo Mode</FormLabel>
+                      <FormDescription>
+                        Every data source serves built-in sample data instead of connecting
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+              
               <Button type="submit">Save General Settings</Button>
             </form>
           </Form>
@@ -326,17 +407,34 @@ export default function Settings() {
                 <div className="flex items-center justify-between">
                   <div>
                     <h4 className="text-sm font-medium">Enable API Key Authentication</h4>
-                    <p className="text-xs text-gray-500">Require API keys for external access</p>
+                    <p className="text-xs text-gray-500">
+                      Accept API keys in an Authorization: Bearer header on the query routes
+                      {!hasRole("admin") && " (only admins can change this)"}
+                    </p>
                   </div>
-                  <Switch checked={true} />
+                  <Switch
+                    checked={settings?.apiKeysEnabled ?? false}
+                    disabled={!settings || !hasRole("admin")}
+                    onCheckedChange={onApiKeysToggle}
+                  />
                 </div>
                 
                 <div className="flex items-center justify-between">
                   <div>
                     <h4 className="text-sm font-medium">Data Encryption at Rest</h4>
-                    <p className="text-xs text-gray-500">Encrypt cached query results</p>
+                    <p className="text-xs text-gray-500">
+                      {vault?.enabled
+                        ? `Data source credentials are encrypted with master key ${vault.keyId}`
+                        : "Set CREDENTIAL_MASTER_KEY on the server to encrypt data source credentials"}
+                    </p>
+                    {vault && vault.unsealedSources + vault.staleKeySources > 0 && (
+                      <p className="text-xs text-amber-600">
+                        {`${vault.unsealedSources + vault.staleKeySources} data source(s) have credentials that are not encrypted with the current key. Run npm run vault:rotate.`}
+                      </p>
+                    )}
                   </div>
-                  <Switch />
+                  {/* The master key comes from the server environment, so this only reports it */}
+                  <Switch checked={vault?.enabled ?? false} disabled />
                 </div>
                 
                 <div className="flex items-center justify-between">
@@ -349,9 +447,39 @@ export default function Settings() {
               </div>
             </div>
             
+            <div className="border rounded-lg p-4">
+              <h3 className="font-medium mb-1">API Keys</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Keys let scripts read saved queries (read-only) or also run queries (execute) as you,
+                limited to the data you can access.
+              </p>
+              <ApiKeys />
+            </div>
+            
             <Button variant="outline" className="w-full">Reset Security Settings to Default</Button>
           </div>
         </TabsContent>
+        
+        {hasRole("admin") && (
+          <TabsContent value="access">
+            <div className="mb-4">
+              <h3 className="font-medium mb-1">Users &amp; Access</h3>
+              <p className="text-sm text-gray-500">
+                Set each user's role and grant non-admins access to data sources, collections or columns.
+              </p>
+            </div>
+            <UserAccess />
+            
+            <div className="border rounded-lg p-4 mt-6">
+              <h3 className="font-medium mb-1">Data Masking</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Mask personal data in query results, stored results and exports for every role that isn't exempt.
+                Queries still filter and join on the real values.
+              </p>
+              <MaskingPolicies />
+            </div>
+          </TabsContent>
+        )}
       </Tabs>
     </Card>
   );
@@ -0,0 +1,50 @@
+CREATE TABLE "data_sources" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"config" jsonb NOT NULL,
+	"collections" jsonb,
+	"status" text DEFAULT 'connected' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "queries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"query" text NOT NULL,
+	"data_sources" jsonb NOT NULL,
+	"collections" jsonb NOT NULL,
+	"federation_strategy" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "query_results" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query_id" integer NOT NULL,
+	"results" jsonb NOT NULL,
+	"execution_time" integer NOT NULL,
+	"last_updated" timestamp DEFAULT now(),
+	"next_update" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "schema_mappings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"source_id" integer NOT NULL,
+	"source_collection" text NOT NULL,
+	"target_id" integer NOT NULL,
+	"target_collection" text NOT NULL,
+	"mapping_rules" jsonb NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "app_settings" (
+	"id" integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	"application_name" text DEFAULT 'Unified Data Aggregation System' NOT NULL,
+	"enable_notifications" boolean DEFAULT true NOT NULL,
+	"default_federation_strategy" text DEFAULT 'virtual' NOT NULL,
+	"data_refresh_interval" integer DEFAULT 15 NOT NULL,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "query_results" ADD COLUMN "params_hash" text DEFAULT '' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "collection_snapshots" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"collection" text NOT NULL,
+	"rows" jsonb NOT NULL,
+	"row_count" integer NOT NULL,
+	"last_updated" timestamp DEFAULT now(),
+	CONSTRAINT "collection_snapshots_source_collection_unique" UNIQUE("source_id","collection")
+);
+--> statement-breakpoint
+ALTER TABLE "data_sources" ADD COLUMN "snapshot_collections" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query_id" integer NOT NULL,
+	"schedule_id" integer,
+	"trigger" text DEFAULT 'schedule' NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now(),
+	"finished_at" timestamp,
+	"duration_ms" integer,
+	"row_count" integer,
+	"error" text
+);
+--> statement-breakpoint
+CREATE TABLE "query_schedules" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"query_id" integer NOT NULL,
+	"cron" text,
+	"interval_minutes" integer,
+	"params" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"last_run_at" timestamp,
+	"next_run_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "query_schedules_query_id_unique" UNIQUE("query_id")
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "data_sources" ADD COLUMN "max_rows" integer;--> statement-breakpoint
+ALTER TABLE "query_results" ADD COLUMN "truncated" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "query_results" ADD COLUMN "scanned" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "app_settings" ADD COLUMN "demo_mode" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "data_sources" ADD COLUMN "last_error" text;--> statement-breakpoint
+ALTER TABLE "data_sources" ADD COLUMN "demo_mode" boolean DEFAULT false NOT NULL;
\ No newline at end of file
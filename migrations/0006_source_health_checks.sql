@@ -0,0 +1,10 @@
+CREATE TABLE "source_health_checks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"status" text NOT NULL,
+	"latency_ms" integer,
+	"error" text,
+	"checked_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "data_sources" ALTER COLUMN "status" SET DEFAULT 'disconnected';
\ No newline at end of file
@@ -0,0 +1,7 @@
+CREATE TABLE "user_sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "user_sessions_expire_idx" ON "user_sessions" USING btree ("expire");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "access_grants" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"source_id" integer NOT NULL,
+	"collection" text,
+	"columns" jsonb,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "role" text DEFAULT 'viewer' NOT NULL;--> statement-breakpoint
+-- Whoever registered first keeps full access, as the first user to register now does
+UPDATE "users" SET "role" = 'admin' WHERE "id" = (SELECT min("id") FROM "users");
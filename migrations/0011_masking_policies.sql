@@ -0,0 +1,10 @@
+CREATE TABLE "masking_policies" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"source_id" integer NOT NULL,
+	"collection" text NOT NULL,
+	"field" text NOT NULL,
+	"strategy" text NOT NULL,
+	"exempt_roles" jsonb DEFAULT '["admin"]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
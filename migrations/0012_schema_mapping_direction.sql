@@ -0,0 +1 @@
+ALTER TABLE "schema_mappings" ADD COLUMN "bidirectional" boolean DEFAULT false NOT NULL;
\ No newline at end of file
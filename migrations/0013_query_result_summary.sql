@@ -0,0 +1 @@
+ALTER TABLE "query_results" ADD COLUMN "summary" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
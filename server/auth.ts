@@ -0,0 +1,213 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { registerUserSchema, type PublicApiKey, type PublicUser, type User as StoredUser, type UserRole } from "@shared/schema";
+import { storage } from "./storage";
+import { accessControl } from "./services/access-control";
+import { apiKeyService, InvalidApiKeyError } from "./services/api-keys";
+import { auditLog } from "./services/audit-log";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+    interface Request {
+      // Set when the request authenticated with an API key instead of a session
+      apiKey?: PublicApiKey;
+    }
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Sessions last a week
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000;
+
+// Passwords are stored as "<scrypt hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+
+  const storedHash = Buffer.from(hash, "hex");
+  const suppliedHash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return storedHash.length === suppliedHash.length && timingSafeEqual(storedHash, suppliedHash);
+}
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  // Development only: sessions don't survive a restart
+  console.warn("SESSION_SECRET is not set; using a random secret for this run");
+  return randomBytes(32).toString("hex");
+}
+
+// A request with an `Authorization: Bearer <API key>` header runs as the key's user, without a
+// session, and only on the routes the key's scope allows
+async function authenticateApiKey(req: Request, res: Response, next: NextFunction) {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const { apiKey, user } = await apiKeyService.authenticate(header.slice("Bearer ".length).trim());
+    const path = req.baseUrl + req.path;
+    if (!apiKeyService.allows(apiKey.scope, req.method, path)) {
+      return res.status(403).json({ error: `This ${apiKey.scope} API key can't be used for ${req.method} ${path}` });
+    }
+
+    req.user = toPublicUser(user);
+    req.apiKey = apiKeyService.toPublic(apiKey);
+    next();
+  } catch (error) {
+    if (error instanceof InvalidApiKeyError) {
+      return res.status(401).json({ error: error.message });
+    }
+    next(error);
+  }
+}
+
+// Every /api route registered after this requires a logged-in user
+function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.isAuthenticated()) {
+    return next();
+  }
+  res.status(401).json({ error: "Authentication required" });
+}
+
+// Responds 403 unless the logged-in user has at least `role`; `action` completes "Only admins can ..."
+export function requireRole(role: UserRole, action: string) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.user && accessControl.hasRole(req.user, role)) {
+      return next();
+    }
+    const allowed = role === "admin" ? "admins" : `${role}s and admins`;
+    res.status(403).json({ error: `Only ${allowed} can ${action}` });
+  };
+}
+
+// Sessions, login and registration. Registers the public auth routes, then protects the rest
+// of /api with a session or an API key, so it must run before any other API route is registered.
+export function setupAuth(app: Express) {
+  if (process.env.NODE_ENV === "production") {
+    app.set("trust proxy", 1);
+  }
+
+  app.use(session({
+    secret: sessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username);
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      return done(null, toPublicUser(user));
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted user's session just ends
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      // The first user to register administers everything; everyone after starts as a viewer without grants
+      const firstUser = (await storage.getUsers()).length === 0;
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(password),
+        role: firstUser ? "admin" : "viewer",
+      });
+      await auditLog.record({ userId: user.id, actor: user.username, apiKeyId: null }, {
+        action: "create",
+        entityType: "user",
+        entityId: user.id,
+        status: "succeeded",
+        changes: auditLog.diff(undefined, user, toPublicUser),
+      });
+      req.login(toPublicUser(user), error => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: Express.User | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "Invalid username or password" });
+      }
+
+      // Logging in starts a new session, so a session id from before login can't be reused
+      req.login(user, loginError => {
+        if (loginError) return next(loginError);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout(error => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    res.json(req.user);
+  });
+
+  app.use("/api", authenticateApiKey);
+  app.use("/api", requireAuth);
+}
@@ -0,0 +1,15 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+import { Pool } from "pg";
+import * as schema from "@shared/schema";
+
+// Drizzle client for the application's own metadata database (not a federated data source)
+export function createDatabase(connectionString = process.env.DATABASE_URL) {
+  if (!connectionString) {
+    throw new Error("DATABASE_URL must be set to use database storage");
+  }
+
+  const pool = new Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
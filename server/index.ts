@@ -1,6 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { seedSampleData } from "./seed";
+import { queryFederationService } from "./services/query-federation";
+import { queryScheduler } from "./services/scheduler";
+import { healthChecker } from "./services/health-checker";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +42,16 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  // Memory storage starts empty on every run, so sample data can be seeded on startup
+  if (process.env.SEED_SAMPLE_DATA === "true" && await seedSampleData(storage)) {
+    log("seeded sample data");
+  }
+  // Connect stored sources in the background so a slow source doesn't delay startup;
+  // scheduled queries and health checks start running once the sources are loaded
+  queryFederationService.initialize()
+    .then(() => Promise.all([queryScheduler.start(), healthChecker.start()]))
+    .catch(error => console.error("Error starting background jobs:", error));
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
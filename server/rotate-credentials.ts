@@ -0,0 +1,37 @@
+import { pathToFileURL } from "url";
+import type { IStorage } from "./storage";
+import { credentialVault } from "./services/credential-vault";
+
+// Re-encrypt every data source's credentials with the current master key. To rotate, set
+// CREDENTIAL_MASTER_KEY to the new key and CREDENTIAL_MASTER_KEY_PREVIOUS to the old one, run
+// this, then drop the old key. Credentials still stored in plaintext are encrypted as well.
+// Returns how many sources were rewritten.
+export async function rotateCredentials(target: IStorage): Promise<number> {
+  if (!credentialVault.isEnabled()) {
+    throw new Error("CREDENTIAL_MASTER_KEY must be set to encrypt credentials");
+  }
+
+  // Open everything first so a missing old key fails before any source is rewritten
+  const sources = (await target.getDataSources()).filter(source => !credentialVault.isCurrent(source.type, source.config));
+  const opened = sources.map(source => ({ source, config: credentialVault.openConfig(source.type, source.config) }));
+
+  for (const { source, config } of opened) {
+    await target.updateDataSource(source.id, { config: credentialVault.sealConfig(source.type, config) });
+  }
+  return opened.length;
+}
+
+// `npm run vault:rotate` rotates the credentials in whichever storage STORAGE selects
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  (async () => {
+    try {
+      const { storage } = await import("./storage");
+      const rotated = await rotateCredentials(storage);
+      console.log(`Re-encrypted the credentials of ${rotated} data source(s)`);
+      process.exit(0);
+    } catch (error) {
+      console.error("Error rotating credentials:", error);
+      process.exit(1);
+    }
+  })();
+}
@@ -1,127 +1,304 @@
 import { Express, Request, Response, NextFunction } from "express";
 import { createServer, Server } from "http";
 import { storage } from "./storage";
+import { requireRole, setupAuth, toPublicUser } from "./auth";
 import { queryFederationService } from "./services/query-federation";
-import { z } from "zod";
+import { connectorRegistry } from "./services/connector-registry";
+import { materializedViews } from "./services/materialized-views";
+import { collectionSnapshots } from "./services/collection-snapshots";
+import { queryScheduler } from "./services/scheduler";
+import { healthChecker } from "./services/health-checker";
+import { testConnection } from "./services/connection-test";
+import { credentialVault } from "./services/credential-vault";
+import { accessControl, AccessDeniedError, sourceQueryColumns, type AccessContext } from "./services/access-control";
+import { apiKeyService } from "./services/api-keys";
+import { auditLog, type AuditEntry } from "./services/audit-log";
+import { dataMasking } from "./services/data-masking";
+import { mappingTransforms } from "./services/mapping-transforms";
+import { formatStreamEvent, streamContentType, streamFormat } from "./services/query-stream";
+import { DEFAULT_PAGE_SIZE } from "./services/query-pagination";
+import type { SourceQueryParams } from "./services/data-source-connector";
 import {
   dataSourceConfigSchema,
   mappingRuleSchema,
+  mappingPreviewRequestSchema,
+  mappingTranslateRequestSchema,
   schemaMappingRequestSchema,
   queryRequestSchema,
-  executeQueryRequestSchema
+  executeQueryRequestSchema,
+  snapshotCollectionsSchema,
+  maxRowsSchema,
+  queryScheduleRequestSchema,
+  jobRunFilterSchema,
+  healthCheckFilterSchema,
+  connectionTestRequestSchema,
+  updateSettingsSchema,
+  updateUserRoleSchema,
+  accessGrantRequestSchema,
+  createApiKeyRequestSchema,
+  auditFilterSchema,
+  maskingPolicyRequestSchema,
+  sourceQueryRequestSchema,
+  type DataSource,
+  type MappingRule,
+  type Query,
+  type QueryStreamEvent
 } from "../shared/schema";
 
+// 403 when the user's role or grants don't allow the request
+function errorStatus(error: unknown): number {
+  return error instanceof AccessDeniedError ? 403 : 400;
+}
+
+// Record what the request's user did in the audit log
+function audit(req: Request, entry: AuditEntry): Promise<void> {
+  return auditLog.record(auditLog.actorOf(req), entry);
+}
+
+// Record an action that failed, or that the user's role or grants didn't allow
+function auditFailure(req: Request, action: string, entityType: string, entityId: number | null, error: unknown): Promise<void> {
+  return audit(req, { action, entityType, entityId, status: auditLog.failureStatus(error), error: (error as Error).message });
+}
+
+// Data source changes are recorded without credentials
+function sourceChanges(before: DataSource | undefined, after: DataSource | undefined) {
+  return auditLog.diff(before, after, source => credentialVault.redactDataSource(source));
+}
+
+// Drop every query's stored materialized results, e.g. after a change to how they are computed, mapped or masked
+async function invalidateMaterializedResults(): Promise<void> {
+  for (const query of await storage.getQueries()) {
+    await materializedViews.invalidate(query.id);
+  }
+}
+
+// Saved queries, their schedules and job history are readable by users who can read every data source the query uses
+function canReadQuery(access: AccessContext, query: Query): boolean {
+  return (query.dataSources as number[]).every(sourceId => accessControl.canReadSource(access, sourceId));
+}
+
+// Reject reading or changing a saved query the user can't read every data source of
+async function assertQueryAccess(req: Request, sourceIds: number[]): Promise<void> {
+  const access = await accessControl.contextFor(req.user!);
+  for (const source of await storage.getDataSources()) {
+    if (sourceIds.includes(source.id)) {
+      accessControl.assertSource(access, source);
+    }
+  }
+}
+
+// The query an execute request names: a saved query by queryId, or an ad-hoc query from the body.
+// Sends the error response and returns undefined when there is no valid query.
+async function resolveExecuteRequest(body: any, res: Response): Promise<Query | undefined> {
+  if (body.queryId) {
+    // Execute existing query by ID
+    const query = await storage.getQuery(body.queryId);
+    if (!query) {
+      res.status(404).json({ error: "Query not found" });
+    }
+    return query;
+  }
+  
+  if (body.query) {
+    // Execute ad-hoc query
+    const validation = await queryFederationService.validateQuery(body.query);
+    if (!validation.isValid) {
+      res.status(400).json({ error: `Invalid query: ${validation.error}`, line: validation.line, column: validation.column });
+      return undefined;
+    }
+    
+    // Create a temporary query object
+    return {
+      id: -1,
+      name: "Ad-hoc Query",
+      query: body.query,
+      dataSources: body.dataSources || [],
+      collections: body.collections || [],
+      federationStrategy: body.federationStrategy || "virtual",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+  }
+  
+  res.status(400).json({ error: "Either queryId or query must be provided" });
+  return undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   const server = createServer(app);
 
-  // Data Sources
+  // Login and registration; every route registered below requires a logged-in user
+  setupAuth(app);
+
+  // Connectors: the data source types that can be added, with their config fields
+  app.get("/api/connectors", async (req: Request, res: Response) => {
+    res.json(connectorRegistry.list().map(({ type, displayName, description, fields }) => ({
+      type,
+      displayName,
+      description,
+      fields,
+    })));
+  });
+
+  // Data Sources; credentials in their configs are write-only and never sent back
+  // Only the sources the user has been granted are listed
   app.get("/api/data-sources", async (req: Request, res: Response) => {
-    const sources = await storage.getDataSources();
-    res.json(sources);
+    const access = await accessControl.contextFor(req.user!);
+    const sources = (await storage.getDataSources()).filter(source => accessControl.canReadSource(access, source.id));
+    res.json(sources.map(source => credentialVault.redactDataSource(source)));
   });
 
   app.get("/api/data-sources/:id", async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const source = await storage.getDataSource(id);
-    
-    if (!source) {
-      return res.status(404).json({ error: "Data source not found" });
+    try {
+      const id = parseInt(req.params.id);
+      const source = await storage.getDataSource(id);
+      
+      if (!source) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      accessControl.assertSource(await accessControl.contextFor(req.user!), source);
+      
+      res.json(credentialVault.redactDataSource(source));
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
-    
-    res.json(source);
   });
 
-  app.post("/api/data-sources", async (req: Request, res: Response) => {
+  app.post("/api/data-sources", requireRole("editor", "add data sources"), async (req: Request, res: Response) => {
     try {
       const body = req.body;
       
-      // Validate the config based on type
-      if (body.type === 'firebase') {
-        const configSchema = z.object({
-          projectId: z.string().min(1, "Project ID is required"),
-          apiKey: z.string().optional(),
-          authDomain: z.string().optional(),
-        });
-        
-        configSchema.parse(body.config);
-      } else if (body.type === 'mongodb') {
-        const configSchema = z.object({
-          uri: z.string().min(1, "MongoDB URI is required"),
-          database: z.string().min(1, "Database name is required"),
-        });
-        
-        configSchema.parse(body.config);
-      } else {
+      // Validate the config against the connector for this type
+      if (!connectorRegistry.get(body.type)) {
         return res.status(400).json({ error: "Invalid data source type" });
       }
+      const config = credentialVault.sealConfig(body.type, connectorRegistry.validateConfig(body.type, body.config));
       
       const newSource = await storage.createDataSource({
         name: body.name,
         type: body.type,
-        config: body.config,
-        status: body.status || "connected",
+        config,
+        // Connecting records the real status
+        status: "disconnected",
         collections: body.collections || [],
+        snapshotCollections: snapshotCollectionsSchema.parse(body.snapshotCollections ?? {}),
+        maxRows: maxRowsSchema.parse(body.maxRows ?? null),
+        demoMode: body.demoMode === true,
       });
       
-      // Add to query federation service
+      // Whoever adds a source can read all of it
+      if (!accessControl.hasRole(req.user!, "admin")) {
+        await storage.createAccessGrant({ userId: req.user!.id, sourceId: newSource.id, collection: null, columns: null });
+      }
+      
+      // Add to query federation service; connecting records the source's status
       await queryFederationService.addDataSource(newSource);
+      await audit(req, { action: "create", entityType: "data_source", entityId: newSource.id, status: "succeeded", changes: sourceChanges(undefined, newSource) });
       
-      res.status(201).json(newSource);
+      res.status(201).json(credentialVault.redactDataSource(await storage.getDataSource(newSource.id) ?? newSource));
     } catch (error) {
       console.error("Error creating data source:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "create", "data_source", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Try a configuration before saving it; an unreachable source is a 200 with ok: false
+  app.post("/api/data-sources/test", requireRole("editor", "test data source connections"), async (req: Request, res: Response) => {
+    try {
+      const { type, config, sourceId } = connectionTestRequestSchema.parse(req.body);
+      if (!connectorRegistry.get(type)) {
+        return res.status(400).json({ error: "Invalid data source type" });
+      }
+
+      let testConfig: Record<string, any> = config;
+      if (sourceId !== undefined) {
+        const source = await storage.getDataSource(sourceId);
+        if (!source) {
+          return res.status(404).json({ error: "Data source not found" });
+        }
+        accessControl.assertSource(await accessControl.contextFor(req.user!), source);
+        testConfig = credentialVault.openConfig(type, credentialVault.mergeSecrets(type, config, source.config));
+      }
+
+      const result = await testConnection(type, testConfig);
+      res.json(result);
+    } catch (error) {
+      console.error("Error testing data source connection:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Check a saved source now instead of waiting for the next health check
+  app.post("/api/data-sources/:id/health-check", requireRole("editor", "check data sources"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const source = await storage.getDataSource(id);
+      if (!source) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      accessControl.assertSource(await accessControl.contextFor(req.user!), source);
+
+      const healthCheck = await healthChecker.checkSource(source);
+      res.json(healthCheck);
+    } catch (error) {
+      console.error("Error checking data source health:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.put("/api/data-sources/:id", async (req: Request, res: Response) => {
+  app.put("/api/data-sources/:id", requireRole("editor", "change data sources"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const body = req.body;
       
-      // Validate the config based on type
-      if (body.type === 'firebase') {
-        const configSchema = z.object({
-          projectId: z.string().min(1, "Project ID is required"),
-          apiKey: z.string().optional(),
-          authDomain: z.string().optional(),
-        });
-        
-        configSchema.parse(body.config);
-      } else if (body.type === 'mongodb') {
-        const configSchema = z.object({
-          uri: z.string().min(1, "MongoDB URI is required"),
-          database: z.string().min(1, "Database name is required"),
-        });
-        
-        configSchema.parse(body.config);
+      const existingSource = await storage.getDataSource(id);
+      if (!existingSource) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      accessControl.assertSource(await accessControl.contextFor(req.user!), existingSource);
+      
+      // Validate the config against the connector for this type
+      const type = body.type ?? existingSource.type;
+      if (!connectorRegistry.get(type)) {
+        return res.status(400).json({ error: "Invalid data source type" });
       }
+      const config = body.config !== undefined
+        ? credentialVault.sealConfig(type, connectorRegistry.validateConfig(type, credentialVault.mergeSecrets(type, body.config, existingSource.config)))
+        : undefined;
       
       const updatedSource = await storage.updateDataSource(id, {
         name: body.name,
         type: body.type,
-        config: body.config,
-        status: body.status,
+        config,
         collections: body.collections,
+        snapshotCollections: body.snapshotCollections !== undefined ? snapshotCollectionsSchema.parse(body.snapshotCollections) : undefined,
+        maxRows: body.maxRows !== undefined ? maxRowsSchema.parse(body.maxRows) : undefined,
+        demoMode: body.demoMode !== undefined ? body.demoMode === true : undefined,
       });
       
       if (!updatedSource) {
         return res.status(404).json({ error: "Data source not found" });
       }
       
-      // Update in query federation service
+      // Update in query federation service; snapshots may have come from the old connection
       await queryFederationService.removeDataSource(id);
       await queryFederationService.addDataSource(updatedSource);
+      await collectionSnapshots.invalidate(id);
+      await audit(req, { action: "update", entityType: "data_source", entityId: id, status: "succeeded", changes: sourceChanges(existingSource, updatedSource) });
       
-      res.json(updatedSource);
+      res.json(credentialVault.redactDataSource(await storage.getDataSource(id) ?? updatedSource));
     } catch (error) {
       console.error("Error updating data source:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "update", "data_source", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.delete("/api/data-sources/:id", async (req: Request, res: Response) => {
+  app.delete("/api/data-sources/:id", requireRole("admin", "delete data sources"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const existingSource = await storage.getDataSource(id);
       const success = await storage.deleteDataSource(id);
       
       if (!success) {
@@ -130,32 +307,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Remove from query federation service
       await queryFederationService.removeDataSource(id);
+      await collectionSnapshots.invalidate(id);
+      await storage.deleteHealthChecks({ sourceId: id });
+      await storage.deleteAccessGrants({ sourceId: id });
+      await storage.deleteMaskingPolicies({ sourceId: id });
+      await audit(req, { action: "delete", entityType: "data_source", entityId: id, status: "succeeded", changes: sourceChanges(existingSource, undefined) });
       
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting data source:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "delete", "data_source", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
   // Schema Mappings
+  // A mapping is only listed when the user can read the fields it maps on both sides
   app.get("/api/schema-mappings", async (req: Request, res: Response) => {
-    const mappings = await storage.getSchemaMappings();
+    const access = await accessControl.contextFor(req.user!);
+    const mappings = (await storage.getSchemaMappings()).filter(mapping => accessControl.canReadMapping(access, mapping));
     res.json(mappings);
   });
 
   app.get("/api/schema-mappings/:id", async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const mapping = await storage.getSchemaMapping(id);
-    
-    if (!mapping) {
-      return res.status(404).json({ error: "Schema mapping not found" });
+    try {
+      const id = parseInt(req.params.id);
+      const mapping = await storage.getSchemaMapping(id);
+      
+      if (!mapping) {
+        return res.status(404).json({ error: "Schema mapping not found" });
+      }
+      await accessControl.assertMapping(await accessControl.contextFor(req.user!), mapping);
+      
+      res.json(mapping);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
-    
-    res.json(mapping);
   });
 
-  app.post("/api/schema-mappings", async (req: Request, res: Response) => {
+  app.post("/api/schema-mappings", requireRole("editor", "change schema mappings"), async (req: Request, res: Response) => {
     try {
       const body = req.body;
       
@@ -164,7 +354,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         for (const rule of body.mappingRules) {
           mappingRuleSchema.parse(rule);
         }
+        mappingTransforms.validateRules(body.mappingRules, body.bidirectional === true);
       }
+      await accessControl.assertMapping(await accessControl.contextFor(req.user!), body);
       
       const newMapping = await storage.createSchemaMapping({
         name: body.name,
@@ -173,20 +365,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         targetId: body.targetId,
         targetCollection: body.targetCollection,
         status: body.status || "active",
+        bidirectional: body.bidirectional === true,
         mappingRules: body.mappingRules || [],
       });
       
       // Add to query federation service
       await queryFederationService.addMapping(newMapping);
+      await invalidateMaterializedResults();
+      await audit(req, { action: "create", entityType: "schema_mapping", entityId: newMapping.id, status: "succeeded", changes: auditLog.diff(undefined, newMapping) });
       
       res.status(201).json(newMapping);
     } catch (error) {
       console.error("Error creating schema mapping:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "create", "schema_mapping", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.put("/api/schema-mappings/:id", async (req: Request, res: Response) => {
+  // Map a few documents of the source collection with unsaved rules, listing the ones a rule fails on
+  app.post("/api/schema-mappings/preview", requireRole("editor", "change schema mappings"), async (req: Request, res: Response) => {
+    try {
+      const { sourceId, sourceCollection, mappingRules, limit } = mappingPreviewRequestSchema.parse(req.body);
+      mappingTransforms.validateRules(mappingRules);
+
+      const source = await storage.getDataSource(sourceId);
+      if (!source) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      const fields = Array.from(new Set(mappingRules.flatMap(rule => mappingTransforms.inputFields(rule))));
+      accessControl.assertCollection(await accessControl.contextFor(req.user!), source, sourceCollection, fields);
+
+      await queryFederationService.addDataSource(source);
+      const service = queryFederationService.getSourceConnector(sourceId);
+      if (!service) {
+        return res.status(400).json({ error: "Could not connect to data source" });
+      }
+
+      const masks = await dataMasking.policiesFor(req.user!);
+      const documents = dataMasking.maskDocuments(sourceId, sourceCollection, await service.executeQuery(sourceCollection, { limit }), masks);
+      res.json({ documents, ...mappingTransforms.apply(documents, mappingRules) });
+    } catch (error) {
+      console.error("Error previewing schema mapping:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/schema-mappings/:id", requireRole("editor", "change schema mappings"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const body = req.body;
@@ -198,6 +422,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // The user must be able to read the mapping both as it is and as it will be
+      const existingMapping = await storage.getSchemaMapping(id);
+      if (!existingMapping) {
+        return res.status(404).json({ error: "Schema mapping not found" });
+      }
+      mappingTransforms.validateRules(
+        (body.mappingRules ?? existingMapping.mappingRules) as MappingRule[],
+        body.bidirectional ?? existingMapping.bidirectional,
+      );
+      const access = await accessControl.contextFor(req.user!);
+      await accessControl.assertMapping(access, existingMapping);
+      await accessControl.assertMapping(access, {
+        sourceId: body.sourceId ?? existingMapping.sourceId,
+        sourceCollection: body.sourceCollection ?? existingMapping.sourceCollection,
+        targetId: body.targetId ?? existingMapping.targetId,
+        targetCollection: body.targetCollection ?? existingMapping.targetCollection,
+        mappingRules: body.mappingRules ?? existingMapping.mappingRules,
+      });
+      
       const updatedMapping = await storage.updateSchemaMapping(id, {
         name: body.name,
         sourceId: body.sourceId,
@@ -205,6 +448,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         targetId: body.targetId,
         targetCollection: body.targetCollection,
         status: body.status,
+        bidirectional: body.bidirectional,
         mappingRules: body.mappingRules,
       });
       
@@ -215,17 +459,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Update in query federation service
       await queryFederationService.removeMapping(id);
       await queryFederationService.addMapping(updatedMapping);
+      await invalidateMaterializedResults();
+      await audit(req, { action: "update", entityType: "schema_mapping", entityId: id, status: "succeeded", changes: auditLog.diff(existingMapping, updatedMapping) });
       
       res.json(updatedMapping);
     } catch (error) {
       console.error("Error updating schema mapping:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "update", "schema_mapping", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.delete("/api/schema-mappings/:id", async (req: Request, res: Response) => {
+  // Translate rows, such as query results, from one side of a mapping's field names to the other's
+  app.post("/api/schema-mappings/:id/translate", async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const { rows, direction } = mappingTranslateRequestSchema.parse(req.body);
+      const mapping = await storage.getSchemaMapping(id);
+      if (!mapping) {
+        return res.status(404).json({ error: "Schema mapping not found" });
+      }
+      await accessControl.assertMapping(await accessControl.contextFor(req.user!), mapping);
+
+      res.json(mappingTransforms.apply(rows, mapping.mappingRules as MappingRule[], direction));
+    } catch (error) {
+      console.error("Error translating rows:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/schema-mappings/:id", requireRole("editor", "change schema mappings"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const mapping = await storage.getSchemaMapping(id);
+      if (mapping) {
+        await accessControl.assertMapping(await accessControl.contextFor(req.user!), mapping);
+      }
+      
       const success = await storage.deleteSchemaMapping(id);
       
       if (!success) {
@@ -234,39 +504,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Remove from query federation service
       await queryFederationService.removeMapping(id);
+      await invalidateMaterializedResults();
+      await audit(req, { action: "delete", entityType: "schema_mapping", entityId: id, status: "succeeded", changes: auditLog.diff(mapping, undefined) });
       
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting schema mapping:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "delete", "schema_mapping", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
   // Queries
+  // Saved queries are listed when the user can read all of their data sources; running one
+  // checks the collections and columns it reads as well
   app.get("/api/queries", async (req: Request, res: Response) => {
-    const queries = await storage.getQueries();
+    const access = await accessControl.contextFor(req.user!);
+    const queries = (await storage.getQueries()).filter(query => canReadQuery(access, query));
     res.json(queries);
   });
 
   app.get("/api/queries/:id", async (req: Request, res: Response) => {
-    const id = parseInt(req.params.id);
-    const query = await storage.getQuery(id);
-    
-    if (!query) {
-      return res.status(404).json({ error: "Query not found" });
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getQuery(id);
+      
+      if (!query) {
+        return res.status(404).json({ error: "Query not found" });
+      }
+      await assertQueryAccess(req, query.dataSources as number[]);
+      
+      res.json(query);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
-    
-    res.json(query);
   });
 
-  app.post("/api/queries", async (req: Request, res: Response) => {
+  app.post("/api/queries", requireRole("editor", "change saved queries"), async (req: Request, res: Response) => {
     try {
       const body = req.body;
       const validation = await queryFederationService.validateQuery(body.query);
       
       if (!validation.isValid) {
-        return res.status(400).json({ error: `Invalid query: ${validation.error}` });
+        return res.status(400).json({ error: `Invalid query: ${validation.error}`, line: validation.line, column: validation.column });
       }
+      await assertQueryAccess(req, body.dataSources || []);
       
       const newQuery = await storage.createQuery({
         name: body.name,
@@ -275,15 +557,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         collections: body.collections || [],
         federationStrategy: body.federationStrategy || "virtual",
       });
+      await audit(req, { action: "create", entityType: "query", entityId: newQuery.id, status: "succeeded", changes: auditLog.diff(undefined, newQuery) });
       
       res.status(201).json(newQuery);
     } catch (error) {
       console.error("Error creating query:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "create", "query", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.put("/api/queries/:id", async (req: Request, res: Response) => {
+  app.put("/api/queries/:id", requireRole("editor", "change saved queries"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const body = req.body;
@@ -291,10 +575,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (body.query) {
         const validation = await queryFederationService.validateQuery(body.query);
         if (!validation.isValid) {
-          return res.status(400).json({ error: `Invalid query: ${validation.error}` });
+          return res.status(400).json({ error: `Invalid query: ${validation.error}`, line: validation.line, column: validation.column });
         }
       }
       
+      const existingQuery = await storage.getQuery(id);
+      if (!existingQuery) {
+        return res.status(404).json({ error: "Query not found" });
+      }
+      // Both the sources the query reads now and the ones it is changed to read
+      await assertQueryAccess(req, [...existingQuery.dataSources as number[], ...(body.dataSources || [])]);
+      
       const updatedQuery = await storage.updateQuery(id, {
         name: body.name,
         query: body.query,
@@ -307,49 +598,534 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Query not found" });
       }
       
+      // Stored results may no longer match the query
+      await materializedViews.invalidate(id);
+      await audit(req, { action: "update", entityType: "query", entityId: id, status: "succeeded", changes: auditLog.diff(existingQuery, updatedQuery) });
+      
       res.json(updatedQuery);
     } catch (error) {
       console.error("Error updating query:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "update", "query", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
-  app.delete("/api/queries/:id", async (req: Request, res: Response) => {
+  app.delete("/api/queries/:id", requireRole("editor", "change saved queries"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      const existingQuery = await storage.getQuery(id);
+      if (existingQuery) {
+        await assertQueryAccess(req, existingQuery.dataSources as number[]);
+      }
       const success = await storage.deleteQuery(id);
       
       if (!success) {
         return res.status(404).json({ error: "Query not found" });
       }
       
+      await materializedViews.invalidate(id);
+      await storage.deleteQuerySchedule(id);
+      await audit(req, { action: "delete", entityType: "query", entityId: id, status: "succeeded", changes: auditLog.diff(existingQuery, undefined) });
+      
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting query:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await auditFailure(req, "delete", "query", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Query Schedules
+  app.get("/api/queries/:id/schedule", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getQuery(id);
+      const schedule = await storage.getQuerySchedule(id);
+      
+      if (!query || !schedule) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      await assertQueryAccess(req, query.dataSources as number[]);
+      
+      res.json(schedule);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/queries/:id/schedule", requireRole("editor", "schedule queries"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getQuery(id);
+      
+      if (!query) {
+        return res.status(404).json({ error: "Query not found" });
+      }
+      await assertQueryAccess(req, query.dataSources as number[]);
+      
+      const request = queryScheduleRequestSchema.parse(req.body);
+      const existingSchedule = await storage.getQuerySchedule(id);
+      const schedule = await queryScheduler.saveSchedule(id, request);
+      // Schedules are recorded under the query they run, as the routes address them
+      await audit(req, { action: existingSchedule ? "update" : "create", entityType: "query_schedule", entityId: id, status: "succeeded", changes: auditLog.diff(existingSchedule, schedule) });
+      
+      res.json(schedule);
+    } catch (error) {
+      console.error("Error saving query schedule:", error);
+      await auditFailure(req, "update", "query_schedule", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/queries/:id/schedule", requireRole("editor", "schedule queries"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getQuery(id);
+      if (query) {
+        await assertQueryAccess(req, query.dataSources as number[]);
+      }
+      const existingSchedule = await storage.getQuerySchedule(id);
+      const success = await storage.deleteQuerySchedule(id);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      await audit(req, { action: "delete", entityType: "query_schedule", entityId: id, status: "succeeded", changes: auditLog.diff(existingSchedule, undefined) });
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting query schedule:", error);
+      await auditFailure(req, "delete", "query_schedule", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Run a scheduled query now; responds once the run has finished
+  app.post("/api/queries/:id/schedule/run", requireRole("editor", "schedule queries"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const query = await storage.getQuery(id);
+      const schedule = await storage.getQuerySchedule(id);
+      
+      if (!query || !schedule) {
+        return res.status(404).json({ error: "Schedule not found" });
+      }
+      // The run itself reads as the scheduler, so the user must be able to run the query themselves
+      await assertQueryAccess(req, query.dataSources as number[]);
+      const access = await accessControl.contextFor(req.user!);
+      await queryFederationService.authorizeQuery(query, schedule.params as Record<string, any>, access);
+      
+      const jobRun = await queryScheduler.runNow(schedule, auditLog.actorOf(req));
+      
+      res.status(201).json(jobRun);
+    } catch (error) {
+      console.error("Error running scheduled query:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Job history, newest first; filter with ?queryId=, ?status= and ?limit=.
+  // Only runs of queries the user can read are listed.
+  app.get("/api/jobs", async (req: Request, res: Response) => {
+    try {
+      const filter = jobRunFilterSchema.parse(req.query);
+      const access = await accessControl.contextFor(req.user!);
+      let jobRuns = await storage.getJobRuns(filter);
+      if (access.grants !== null) {
+        const readable = new Set((await storage.getQueries()).filter(query => canReadQuery(access, query)).map(query => query.id));
+        jobRuns = jobRuns.filter(jobRun => readable.has(jobRun.queryId));
+      }
+      res.json(jobRuns);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const jobRun = await storage.getJobRun(id);
+      const access = await accessControl.contextFor(req.user!);
+      const query = jobRun && await storage.getQuery(jobRun.queryId);
+      
+      // Runs of deleted queries are only shown to admins
+      if (!jobRun || (!query && access.grants !== null)) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (query) {
+        await assertQueryAccess(req, query.dataSources as number[]);
+      }
+      
+      res.json(jobRun);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Whether credentials are encrypted at rest, and how many sources still need `npm run vault:rotate`
+  app.get("/api/credential-vault", async (req: Request, res: Response) => {
+    const sources = await storage.getDataSources();
+    res.json(credentialVault.status(sources));
+  });
+
+  // Connectivity history recorded by the health checker, newest first
+  app.get("/api/health-checks", async (req: Request, res: Response) => {
+    try {
+      const filter = healthCheckFilterSchema.parse(req.query);
+      const access = await accessControl.contextFor(req.user!);
+      const healthChecks = await storage.getHealthChecks(filter);
+      res.json(healthChecks.filter(check => accessControl.canReadSource(access, check.sourceId)));
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Audit log, newest first; filter with ?userId=, ?action=, ?entityType=, ?entityId=, ?status=,
+  // ?since=, ?until= and ?limit=
+  app.get("/api/audit", requireRole("admin", "view the audit log"), async (req: Request, res: Response) => {
+    try {
+      const filter = auditFilterSchema.parse(req.query);
+      const auditEvents = await storage.getAuditEvents(filter);
+      res.json(auditEvents);
+    } catch (error) {
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Users and their roles; admins only
+  app.get("/api/users", requireRole("admin", "manage users"), async (req: Request, res: Response) => {
+    const users = await storage.getUsers();
+    res.json(users.map(toPublicUser));
+  });
+
+  app.put("/api/users/:id/role", requireRole("admin", "manage users"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { role } = updateUserRoleSchema.parse(req.body);
+      
+      const user = await storage.getUser(id);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      // Someone has to be able to manage users afterwards
+      const admins = (await storage.getUsers()).filter(candidate => candidate.role === "admin");
+      if (role !== "admin" && admins.length === 1 && admins[0].id === id) {
+        return res.status(400).json({ error: "The last admin cannot be given another role" });
+      }
+      
+      const updatedUser = await storage.updateUser(id, { role });
+      await audit(req, { action: "update", entityType: "user", entityId: id, status: "succeeded", changes: auditLog.diff(user, updatedUser, toPublicUser) });
+      res.json(toPublicUser(updatedUser ?? user));
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      await auditFailure(req, "update", "user", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Access grants: which sources, collections and columns each non-admin user may read
+  app.get("/api/access-grants", requireRole("admin", "manage access grants"), async (req: Request, res: Response) => {
+    const userId = req.query.userId !== undefined ? parseInt(String(req.query.userId)) : undefined;
+    const grants = await storage.getAccessGrants({ userId });
+    res.json(grants);
+  });
+
+  app.post("/api/access-grants", requireRole("admin", "manage access grants"), async (req: Request, res: Response) => {
+    try {
+      const grant = accessGrantRequestSchema.parse(req.body);
+      
+      if (!(await storage.getUser(grant.userId))) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!(await storage.getDataSource(grant.sourceId))) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      
+      const newGrant = await storage.createAccessGrant(grant);
+      await audit(req, { action: "create", entityType: "access_grant", entityId: newGrant.id, status: "succeeded", changes: auditLog.diff(undefined, newGrant) });
+      res.status(201).json(newGrant);
+    } catch (error) {
+      console.error("Error creating access grant:", error);
+      await auditFailure(req, "create", "access_grant", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/access-grants/:id", requireRole("admin", "manage access grants"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const grant = await storage.getAccessGrant(id);
+      const success = await storage.deleteAccessGrant(id);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Access grant not found" });
+      }
+      await audit(req, { action: "delete", entityType: "access_grant", entityId: id, status: "succeeded", changes: auditLog.diff(grant, undefined) });
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting access grant:", error);
+      await auditFailure(req, "delete", "access_grant", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Masking policies: source fields shown hashed, partly starred out, removed or tokenized in query
+  // results to users whose role isn't exempt
+  app.get("/api/masking-policies", requireRole("admin", "manage masking policies"), async (req: Request, res: Response) => {
+    const sourceId = req.query.sourceId !== undefined ? parseInt(String(req.query.sourceId)) : undefined;
+    const policies = await storage.getMaskingPolicies({ sourceId });
+    res.json(policies);
+  });
+
+  app.post("/api/masking-policies", requireRole("admin", "manage masking policies"), async (req: Request, res: Response) => {
+    try {
+      const policy = maskingPolicyRequestSchema.parse(req.body);
+      
+      if (!(await storage.getDataSource(policy.sourceId))) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      
+      const newPolicy = await storage.createMaskingPolicy(policy);
+      await invalidateMaterializedResults();
+      await audit(req, { action: "create", entityType: "masking_policy", entityId: newPolicy.id, status: "succeeded", changes: auditLog.diff(undefined, newPolicy) });
+      res.status(201).json(newPolicy);
+    } catch (error) {
+      console.error("Error creating masking policy:", error);
+      await auditFailure(req, "create", "masking_policy", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.put("/api/masking-policies/:id", requireRole("admin", "manage masking policies"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const changes = maskingPolicyRequestSchema.partial().parse(req.body);
+      
+      const existingPolicy = await storage.getMaskingPolicy(id);
+      if (!existingPolicy) {
+        return res.status(404).json({ error: "Masking policy not found" });
+      }
+      if (changes.sourceId !== undefined && !(await storage.getDataSource(changes.sourceId))) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      
+      const updatedPolicy = await storage.updateMaskingPolicy(id, changes);
+      if (!updatedPolicy) {
+        return res.status(404).json({ error: "Masking policy not found" });
+      }
+      await invalidateMaterializedResults();
+      await audit(req, { action: "update", entityType: "masking_policy", entityId: id, status: "succeeded", changes: auditLog.diff(existingPolicy, updatedPolicy) });
+      
+      res.json(updatedPolicy);
+    } catch (error) {
+      console.error("Error updating masking policy:", error);
+      await auditFailure(req, "update", "masking_policy", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/masking-policies/:id", requireRole("admin", "manage masking policies"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const policy = await storage.getMaskingPolicy(id);
+      const success = await storage.deleteMaskingPolicy(id);
+      
+      if (!success) {
+        return res.status(404).json({ error: "Masking policy not found" });
+      }
+      await invalidateMaterializedResults();
+      await audit(req, { action: "delete", entityType: "masking_policy", entityId: id, status: "succeeded", changes: auditLog.diff(policy, undefined) });
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting masking policy:", error);
+      await auditFailure(req, "delete", "masking_policy", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // API keys; users manage their own. The key itself is only returned when it is created.
+  app.get("/api/api-keys", async (req: Request, res: Response) => {
+    const apiKeys = await storage.getApiKeys(req.user!.id);
+    res.json(apiKeys.map(apiKey => apiKeyService.toPublic(apiKey)));
+  });
+
+  app.post("/api/api-keys", async (req: Request, res: Response) => {
+    try {
+      const request = createApiKeyRequestSchema.parse(req.body);
+      const created = await apiKeyService.create(req.user!.id, request);
+      // The key itself never goes into the log
+      const { key: _key, ...publicKey } = created;
+      await audit(req, { action: "create", entityType: "api_key", entityId: created.id, status: "succeeded", changes: auditLog.diff(undefined, publicKey) });
+      res.status(201).json(created);
+    } catch (error) {
+      console.error("Error creating API key:", error);
+      await auditFailure(req, "create", "api_key", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Revoking keeps the key in the list, marked revoked; admins can revoke anyone's key
+  app.delete("/api/api-keys/:id", async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const apiKey = await storage.getApiKey(id);
+      
+      if (!apiKey || (apiKey.userId !== req.user!.id && !accessControl.hasRole(req.user!, "admin"))) {
+        return res.status(404).json({ error: "API key not found" });
+      }
+      
+      if (!apiKey.revokedAt) {
+        const revoked = await apiKeyService.revoke(id);
+        await audit(req, { action: "revoke", entityType: "api_key", entityId: id, status: "succeeded", changes: auditLog.diff(apiKey, revoked, key => apiKeyService.toPublic(key)) });
+      }
+      
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error revoking API key:", error);
+      await auditFailure(req, "revoke", "api_key", parseInt(req.params.id), error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Settings
+  app.get("/api/settings", async (req: Request, res: Response) => {
+    const settings = await storage.getSettings();
+    res.json(settings);
+  });
+
+  app.put("/api/settings", requireRole("admin", "change settings"), async (req: Request, res: Response) => {
+    try {
+      const changes = updateSettingsSchema.parse(req.body);
+      const previous = await storage.getSettings();
+      const settings = await storage.updateSettings(changes);
+
+      // Switching demo mode changes where every source reads from; stored copies came from the other side
+      if (settings.demoMode !== previous.demoMode) {
+        await queryFederationService.reconnectAll();
+        for (const source of await storage.getDataSources()) {
+          await collectionSnapshots.invalidate(source.id);
+        }
+        await invalidateMaterializedResults();
+      }
+
+      await audit(req, { action: "update", entityType: "settings", entityId: null, status: "succeeded", changes: auditLog.diff(previous, settings) });
+
+      res.json(settings);
+    } catch (error) {
+      console.error("Error updating settings:", error);
+      await auditFailure(req, "update", "settings", null, error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
   // Query Execution
   app.post("/api/execute-query", async (req: Request, res: Response) => {
+    const body = req.body;
+    let query: Query | undefined;
     try {
-      const body = req.body;
+      const { pageSize, cursor } = executeQueryRequestSchema.pick({ pageSize: true, cursor: true }).parse(body);
+      query = await resolveExecuteRequest(body, res);
+      if (!query) return;
+      const access = await accessControl.contextFor(req.user!);
+      
+      // Execute the query; materialized queries are stored and served by the federation service.
+      // With a page size or cursor only one page is returned, with a cursor for the next.
+      const result = pageSize !== undefined || cursor
+        ? await queryFederationService.executeQueryPage(query, body.params, pageSize ?? DEFAULT_PAGE_SIZE, cursor, access)
+        : await queryFederationService.executeQuery(query, body.params, { access });
+      // Every page is a run of the query
+      await auditLog.queryRun(auditLog.actorOf(req), query, body.params, { result });
       
+      res.json(result);
+    } catch (error) {
+      console.error("Error executing query:", error);
+      if (query) {
+        await auditLog.queryRun(auditLog.actorOf(req), query, body.params, { error });
+      }
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
+    }
+  });
+
+  // Same request as /api/execute-query, answered as newline-delimited JSON frames, or as
+  // Server-Sent Events with `Accept: text/event-stream` or `?format=sse`
+  app.post("/api/execute-query/stream", async (req: Request, res: Response) => {
+    const body = req.body;
+    const format = streamFormat(req.headers.accept, req.query.format);
+    
+    // Stop reading from the sources when the client goes away
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+    
+    // The summary frame carries what the audit log records about the run
+    let summary: QueryStreamEvent | undefined;
+    const emit = async (event: QueryStreamEvent) => {
+      if (event.type === "summary") summary = event;
+      if (res.destroyed) return;
+      if (!res.headersSent) {
+        res.status(200);
+        res.setHeader("Content-Type", streamContentType(format));
+        res.setHeader("Cache-Control", "no-cache");
+        res.setHeader("X-Accel-Buffering", "no");
+      }
+      if (!res.write(formatStreamEvent(event, format))) {
+        await new Promise<void>(resolve => {
+          const done = () => {
+            res.off("drain", done);
+            res.off("close", done);
+            resolve();
+          };
+          res.on("drain", done);
+          res.on("close", done);
+        });
+      }
+    };
+    
+    let query: Query | undefined;
+    try {
+      query = await resolveExecuteRequest(body, res);
+      if (!query) return;
+      
+      const access = await accessControl.contextFor(req.user!);
+      await queryFederationService.streamQuery(query, body.params, emit, controller.signal, access);
+      await auditLog.queryRun(auditLog.actorOf(req), query, body.params,
+        summary ? { result: summary } : { error: new Error("Stream was cancelled by the client") });
+      res.end();
+    } catch (error) {
+      console.error("Error streaming query:", error);
+      if (query) {
+        await auditLog.queryRun(auditLog.actorOf(req), query, body.params, { error });
+      }
+      // Before the first frame the failure can still be reported as a normal error response
+      if (!res.headersSent) {
+        return res.status(errorStatus(error)).json({ error: (error as Error).message });
+      }
+      await emit({ type: "error", error: (error as Error).message });
+      res.end();
+    }
+  });
+
+  // Show how a query would run: plan tree, per-source pushdown and estimated row counts
+  app.post("/api/explain-query", async (req: Request, res: Response) => {
+    try {
+      const body = req.body;
+
       let query;
       if (body.queryId) {
-        // Execute existing query by ID
         query = await storage.getQuery(body.queryId);
         if (!query) {
           return res.status(404).json({ error: "Query not found" });
         }
       } else if (body.query) {
-        // Execute ad-hoc query
         const validation = await queryFederationService.validateQuery(body.query);
         if (!validation.isValid) {
-          return res.status(400).json({ error: `Invalid query: ${validation.error}` });
+          return res.status(400).json({ error: `Invalid query: ${validation.error}`, line: validation.line, column: validation.column });
         }
-        
-        // Create a temporary query object
+
         query = {
           id: -1,
           name: "Ad-hoc Query",
@@ -363,30 +1139,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       } else {
         return res.status(400).json({ error: "Either queryId or query must be provided" });
       }
-      
-      // Execute the query
-      const result = await queryFederationService.executeQuery(query, body.params);
-      
-      // Check if we need to store the result
-      const existingResult = await storage.getQueryResult(query.id);
-      if (existingResult) {
-        await storage.updateQueryResult(existingResult.id, {
-          results: JSON.stringify(result.results),
-          lastUpdated: new Date(),
-        });
-      } else if (query.id !== -1) {
-        // Only store results for saved queries
-        await storage.createQueryResult({
-          queryId: query.id,
-          results: JSON.stringify(result.results),
-          lastUpdated: new Date(),
-        });
-      }
-      
-      res.json(result);
+
+      const access = await accessControl.contextFor(req.user!);
+      const explanation = await queryFederationService.explainQuery(query, body.params, access);
+      res.json(explanation);
     } catch (error) {
-      console.error("Error executing query:", error);
-      res.status(400).json({ error: (error as Error).message });
+      console.error("Error explaining query:", error);
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
@@ -399,22 +1158,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!source) {
         return res.status(404).json({ error: "Data source not found" });
       }
+      const access = await accessControl.contextFor(req.user!);
+      accessControl.assertSource(access, source);
       
       // Connect to the data source if needed
       await queryFederationService.addDataSource(source);
       
       // Get the service
-      const service = queryFederationService["sourceServices"].get(sourceId);
+      const service = queryFederationService.getSourceConnector(sourceId);
       if (!service) {
         return res.status(400).json({ error: "Could not connect to data source" });
       }
       
-      // Get collections
-      const collections = await service.getCollections();
-      res.json(collections);
+      // Get the collections the user may read
+      const collections = await service.listCollections();
+      res.json(accessControl.filterCollections(access, sourceId, collections));
     } catch (error) {
       console.error("Error getting collections:", error);
-      res.status(400).json({ error: (error as Error).message });
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
@@ -423,16 +1184,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const sourceId = parseInt(req.params.id);
       const collectionName = req.params.collection;
       
+      const source = await storage.getDataSource(sourceId);
+      if (!source) {
+        return res.status(404).json({ error: "Data source not found" });
+      }
+      const access = await accessControl.contextFor(req.user!);
+      accessControl.assertCollection(access, source, collectionName, []);
+      
       const schema = await queryFederationService.getSourceCollectionSchema(sourceId, collectionName);
       
       if (!schema) {
         return res.status(404).json({ error: "Collection or schema not found" });
       }
       
-      res.json(schema);
+      // Only the fields the user may read
+      res.json(accessControl.filterSchema(access, sourceId, schema));
     } catch (error) {
       console.error("Error getting collection schema:", error);
-      res.status(400).json({ error: (error as Error).message });
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
@@ -441,28 +1210,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const sourceId = parseInt(req.params.id);
       const collectionName = req.params.collection;
-      const queryParams = req.body;
+      // Parsed so the connector reads exactly the columns the grant check sees
+      const queryParams: SourceQueryParams = sourceQueryRequestSchema.parse(req.body ?? {});
       
       const source = await storage.getDataSource(sourceId);
       if (!source) {
         return res.status(404).json({ error: "Data source not found" });
       }
+      accessControl.assertCollection(await accessControl.contextFor(req.user!), source, collectionName, sourceQueryColumns(queryParams));
       
       // Connect to the data source if needed
       await queryFederationService.addDataSource(source);
       
       // Get the service
-      const service = queryFederationService["sourceServices"].get(sourceId);
+      const service = queryFederationService.getSourceConnector(sourceId);
       if (!service) {
         return res.status(400).json({ error: "Could not connect to data source" });
       }
       
       // Execute the query
-      const results = await service.executeQuery(collectionName, queryParams);
+      const masks = await dataMasking.policiesFor(req.user!);
+      const results = dataMasking.maskDocuments(sourceId, collectionName, await service.executeQuery(collectionName, queryParams), masks);
+      await audit(req, { action: "execute", entityType: "data_source", entityId: sourceId, status: "succeeded", params: { collection: collectionName, ...queryParams }, sourceIds: [sourceId], rowCount: results.length });
       res.json(results);
     } catch (error) {
       console.error("Error executing collection query:", error);
-      res.status(400).json({ error: (error as Error).message });
+      await audit(req, {
+        action: "execute",
+        entityType: "data_source",
+        entityId: parseInt(req.params.id),
+        status: auditLog.failureStatus(error),
+        params: { collection: req.params.collection, ...req.body },
+        sourceIds: [parseInt(req.params.id)],
+        error: (error as Error).message,
+      });
+      res.status(errorStatus(error)).json({ error: (error as Error).message });
     }
   });
 
@@ -0,0 +1,137 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AccessGrant, PublicUser } from "@shared/schema";
+import type { DataSourceConnector } from "./data-source-connector";
+import { parseSql } from "./sql-parser";
+import { queryPlanner, type PlannerSource } from "./query-planner";
+import { AccessDeniedError, accessControl, type AccessContext } from "./access-control";
+
+function source(sourceId: number, collections: Record<string, string[]>): PlannerSource {
+  const service = {
+    listCollections: async () => Object.keys(collections),
+    getSchema: async (name: string) => ({ name, fields: (collections[name] ?? []).map(field => ({ name: field, type: 'string' })) }),
+    getCapabilities: () => ({ operators: ['=='], or: false, not: false, negationInOr: false, projection: true, sort: false, limit: false, aggregation: false }),
+    estimateRowCount: async () => 0,
+  } as unknown as DataSourceConnector;
+  return { sourceId, name: `source ${sourceId}`, type: 'test', service };
+}
+
+const viewer: PublicUser = { id: 2, username: "viewer", role: "viewer" };
+const admin: PublicUser = { id: 1, username: "admin", role: "admin" };
+
+let nextGrantId = 1;
+function grant(sourceId: number, collection: string | null, columns: string[] | null): AccessGrant {
+  return { id: nextGrantId++, userId: viewer.id, sourceId, collection, columns, createdAt: null };
+}
+
+const restricted = (...grants: AccessGrant[]): AccessContext => ({ user: viewer, grants });
+const unrestricted: AccessContext = { user: admin, grants: null };
+
+const users = source(1, { users: ['id', 'email', 'name', 'address'], sessions: ['id'] });
+const orders = source(2, { orders: ['id', 'userId', 'total'] });
+const usersRef = { id: 1, name: "source 1" };
+
+const denied = (message: RegExp) => (error: unknown) => error instanceof AccessDeniedError && message.test(error.message);
+
+describe("accessControl.grantedColumns", () => {
+  it("merges the columns of every grant on a collection", () => {
+    const context = restricted(grant(1, "users", ["id"]), grant(1, "users", ["name", "id"]));
+
+    assert.deepEqual(accessControl.grantedColumns(context, 1, "users"), ["id", "name"]);
+  });
+
+  it("grants every column when a grant lists none, or covers the whole source", () => {
+    assert.equal(accessControl.grantedColumns(restricted(grant(1, "users", ["id"]), grant(1, "users", null)), 1, "users"), null);
+    assert.equal(accessControl.grantedColumns(restricted(grant(1, null, null)), 1, "users"), null);
+    assert.equal(accessControl.grantedColumns(unrestricted, 1, "users"), null);
+  });
+});
+
+describe("accessControl.assertCollection", () => {
+  it("requires a grant on the source and collection", () => {
+    const context = restricted(grant(1, "users", null));
+
+    accessControl.assertCollection(context, usersRef, "users");
+    assert.throws(() => accessControl.assertCollection(context, usersRef, "sessions"), denied(/collection 'sessions' in data source 'source 1'/));
+    assert.throws(() => accessControl.assertSource(context, { id: 2, name: "source 2" }), denied(/data source 'source 2'/));
+    assert.equal(accessControl.canReadCollection(restricted(grant(1, null, null)), 1, "sessions"), true);
+  });
+
+  it("checks columns, counting nested fields of a granted object as granted", () => {
+    const context = restricted(grant(1, "users", ["name", "address"]));
+
+    accessControl.assertCollection(context, usersRef, "users", ["name", "address.city"]);
+    assert.throws(() => accessControl.assertCollection(context, usersRef, "users", ["name", "email", "id"]), denied(/columns email, id of collection 'users'/));
+    // A field that merely starts with a granted name isn't nested in it
+    assert.throws(() => accessControl.assertCollection(context, usersRef, "users", ["addressLine"]), denied(/column addressLine/));
+  });
+
+  it("rejects * when only some columns are granted", () => {
+    const context = restricted(grant(1, "users", ["name"]));
+
+    assert.throws(() => accessControl.assertCollection(context, usersRef, "users"), denied(/only read columns name .* instead of \*/));
+    accessControl.assertCollection(restricted(grant(1, "users", null)), usersRef, "users", ["*"]);
+  });
+});
+
+describe("accessControl.authorizePlan", () => {
+  it("checks every column a scan fetches, filters on or joins on", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT u.name, o.total FROM users u JOIN orders o ON o.userId = u.id WHERE u.email = 'a@b.c'"), [users, orders]);
+    const orderGrant = grant(2, "orders", null);
+
+    accessControl.authorizePlan(restricted(grant(1, "users", ["id", "name", "email"]), orderGrant), plan);
+    assert.throws(() => accessControl.authorizePlan(restricted(grant(1, "users", ["id", "name"]), orderGrant), plan), denied(/column email/));
+    assert.throws(() => accessControl.authorizePlan(restricted(grant(1, "users", null)), plan), denied(/data source 'source 2'/));
+  });
+
+  it("rejects SELECT * over partly granted collections and lets admins read anything", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT * FROM users"), [users]);
+
+    assert.throws(() => accessControl.authorizePlan(restricted(grant(1, "users", ["name"])), plan), denied(/instead of \*/));
+    accessControl.authorizePlan(unrestricted, plan);
+  });
+
+  it("accepts nested fields of a granted object", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT address.city FROM users"), [users]);
+
+    accessControl.authorizePlan(restricted(grant(1, "users", ["address"])), plan);
+  });
+});
+
+describe("accessControl.filterSchema", () => {
+  const schema = { name: "users", fields: ["id", "email", "address", "address.city", "addressLine"].map(name => ({ name, type: "string" })) };
+
+  it("keeps the granted fields and the fields nested in them", () => {
+    const filtered = accessControl.filterSchema(restricted(grant(1, "users", ["id", "address"])), 1, schema);
+
+    assert.deepEqual(filtered.fields.map(field => field.name), ["id", "address", "address.city"]);
+  });
+
+  it("leaves the schema alone when every column is readable", () => {
+    assert.equal(accessControl.filterSchema(unrestricted, 1, schema), schema);
+    assert.equal(accessControl.filterSchema(restricted(grant(1, null, null)), 1, schema), schema);
+  });
+});
+
+describe("accessControl.assertMapping", () => {
+  const mapping = {
+    sourceId: 3,
+    sourceCollection: "people",
+    targetId: 1,
+    targetCollection: "users",
+    mappingRules: [{ sourceField: "mail", targetField: "email", type: "transform", transform: "LOWER(CONCAT(mail, given))" }],
+  };
+
+  it("requires grants on the fields a mapping reads in both collections", async () => {
+    await accessControl.assertMapping(restricted(grant(3, "people", ["mail", "given"]), grant(1, "users", ["email"])), mapping);
+
+    await assert.rejects(accessControl.assertMapping(restricted(grant(3, "people", ["mail"]), grant(1, "users", ["email"])), mapping), denied(/column given of collection 'people'/));
+    await assert.rejects(accessControl.assertMapping(restricted(grant(3, "people", null)), mapping), denied(/collection 'users'/));
+    assert.equal(accessControl.canReadMapping(restricted(grant(3, "people", null), grant(1, "users", ["name"])), mapping), false);
+  });
+
+  it("lets admins read any mapping", async () => {
+    await accessControl.assertMapping(unrestricted, mapping);
+    assert.equal(accessControl.canReadMapping(unrestricted, mapping), true);
+  });
+});
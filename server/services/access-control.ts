@@ -0,0 +1,160 @@
+import { USER_ROLES, type AccessGrant, type MappingRule, type PublicUser, type SchemaMapping, type UserRole } from "@shared/schema";
+import { storage } from "../storage";
+import { filterFields } from "./source-filter";
+import { mappingTransforms } from "./mapping-transforms";
+import type { QueryPlan } from "./query-planner";
+import type { CollectionSchema, SourceQueryParams } from "./data-source-connector";
+
+// Roles decide what a user may change; grants decide which data sources, collections and
+// columns a non-admin user may read. Reads are checked on the routes and, for federated
+// queries, against the query plan before anything is fetched.
+
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+// The user a request runs as, with their grants loaded; null grants means unrestricted (admins)
+export interface AccessContext {
+  user: PublicUser;
+  grants: AccessGrant[] | null;
+}
+
+// A data source as error messages name it
+interface SourceRef {
+  id: number;
+  name: string;
+}
+
+type MappingRef = Pick<SchemaMapping, 'sourceId' | 'sourceCollection' | 'targetId' | 'targetCollection'> & { mappingRules?: unknown };
+
+// The columns a source query reads: the ones it fetches, filters on and sorts by
+export function sourceQueryColumns(queryParams: SourceQueryParams): string[] {
+  return Array.from(new Set([
+    ...(queryParams.selectedColumns ?? ['*']),
+    ...(queryParams.filters ?? []).flatMap(filterFields),
+    ...Object.keys(queryParams.orderBy ?? {}),
+  ]));
+}
+
+// A schema mapping reads the fields its rules name in both of its collections, including the
+// other source fields a transform combines
+function mappingReads(mapping: MappingRef): { sourceId: number; collection: string; columns: string[] }[] {
+  const rules = (mapping.mappingRules ?? []) as MappingRule[];
+  return [
+    { sourceId: mapping.sourceId, collection: mapping.sourceCollection, columns: rules.flatMap(rule => mappingTransforms.inputFields(rule)) },
+    { sourceId: mapping.targetId, collection: mapping.targetCollection, columns: rules.map(rule => rule.targetField) },
+  ];
+}
+
+// A column is covered by a grant for it or for the object it is nested in (address covers address.city)
+function columnCovered(column: string, granted: string[]): boolean {
+  return granted.some(name => column === name || column.startsWith(`${name}.`));
+}
+
+class AccessControlService {
+  hasRole(user: PublicUser, role: UserRole): boolean {
+    return USER_ROLES.indexOf(user.role as UserRole) >= USER_ROLES.indexOf(role);
+  }
+
+  async contextFor(user: PublicUser): Promise<AccessContext> {
+    if (this.hasRole(user, 'admin')) {
+      return { user, grants: null };
+    }
+    return { user, grants: await storage.getAccessGrants({ userId: user.id }) };
+  }
+
+  canReadSource(context: AccessContext, sourceId: number): boolean {
+    return context.grants === null || context.grants.some(grant => grant.sourceId === sourceId);
+  }
+
+  canReadCollection(context: AccessContext, sourceId: number, collection: string): boolean {
+    return context.grants === null || context.grants.some(grant =>
+      grant.sourceId === sourceId && (grant.collection === null || grant.collection === collection));
+  }
+
+  // The columns of a collection the user may read; null when every column is readable
+  grantedColumns(context: AccessContext, sourceId: number, collection: string): string[] | null {
+    if (context.grants === null) return null;
+
+    const grants = context.grants.filter(grant =>
+      grant.sourceId === sourceId && (grant.collection === null || grant.collection === collection));
+    if (grants.length === 0 || grants.some(grant => grant.columns === null)) return null;
+    return Array.from(new Set(grants.flatMap(grant => grant.columns as string[])));
+  }
+
+  assertSource(context: AccessContext, source: SourceRef): void {
+    if (!this.canReadSource(context, source.id)) {
+      throw new AccessDeniedError(`You do not have access to data source '${source.name}'`);
+    }
+  }
+
+  // Why reading `columns` of a collection is not allowed, or null when it is.
+  // ['*'] (the default) means every column.
+  private collectionDenial(context: AccessContext, source: SourceRef, collection: string, columns: string[] = ['*']): string | null {
+    if (!this.canReadCollection(context, source.id, collection)) {
+      return `You do not have access to collection '${collection}' in data source '${source.name}'`;
+    }
+
+    const granted = this.grantedColumns(context, source.id, collection);
+    if (granted === null) return null;
+
+    const described = `collection '${collection}' in data source '${source.name}'`;
+    if (columns.includes('*')) {
+      return `You may only read columns ${granted.join(', ')} of ${described}; select them by name instead of *`;
+    }
+    const denied = columns.filter(column => !columnCovered(column, granted));
+    if (denied.length > 0) {
+      return `You do not have access to column${denied.length > 1 ? 's' : ''} ${denied.join(', ')} of ${described}`;
+    }
+    return null;
+  }
+
+  assertCollection(context: AccessContext, source: SourceRef, collection: string, columns?: string[]): void {
+    const denial = this.collectionDenial(context, source, collection, columns);
+    if (denial) {
+      throw new AccessDeniedError(denial);
+    }
+  }
+
+  // Reject a query plan that reads a source, collection or column the user has no grant for
+  authorizePlan(context: AccessContext, plan: QueryPlan): void {
+    if (context.grants === null) return;
+
+    for (const table of plan.tables) {
+      for (const scan of table.scans) {
+        const source = { id: scan.source.sourceId, name: scan.source.name };
+        this.assertCollection(context, source, scan.collection, sourceQueryColumns(scan.queryParams));
+      }
+    }
+  }
+
+  canReadMapping(context: AccessContext, mapping: MappingRef): boolean {
+    return mappingReads(mapping).every(({ sourceId, collection, columns }) =>
+      this.collectionDenial(context, { id: sourceId, name: '' }, collection, columns) === null);
+  }
+
+  async assertMapping(context: AccessContext, mapping: MappingRef): Promise<void> {
+    if (context.grants === null) return;
+
+    for (const { sourceId, collection, columns } of mappingReads(mapping)) {
+      const source = await storage.getDataSource(sourceId);
+      this.assertCollection(context, { id: sourceId, name: source?.name ?? `#${sourceId}` }, collection, columns);
+    }
+  }
+
+  filterCollections(context: AccessContext, sourceId: number, collections: string[]): string[] {
+    return collections.filter(collection => this.canReadCollection(context, sourceId, collection));
+  }
+
+  // A collection schema without the fields the user may not read
+  filterSchema(context: AccessContext, sourceId: number, schema: CollectionSchema): CollectionSchema {
+    const granted = this.grantedColumns(context, sourceId, schema.name);
+    if (granted === null) return schema;
+    return { ...schema, fields: schema.fields.filter(field => columnCovered(field.name, granted)) };
+  }
+}
+
+export const accessControl = new AccessControlService();
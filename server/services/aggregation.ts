@@ -0,0 +1,229 @@
+import type { Expression, OrderByItem, SelectItem, SelectStatement } from "./sql-parser";
+import { collectColumns, formatExpression } from "./sql-parser";
+import { AGGREGATE_FUNCTIONS, QueryEvaluationError, compareValues, evaluateExpression, outputColumnName, type Row } from "./sql-evaluator";
+
+// GROUP BY, HAVING and aggregate functions (COUNT, SUM, AVG, MIN, MAX, COUNT(DISTINCT ...)).
+// Aggregation turns each group into a single "group row" keyed by the SQL text of every
+// group expression and aggregate call; the select list, HAVING and ORDER BY are then
+// rewritten to read those keys, so the regular projection and sorting code can run on top.
+
+export interface AggregateCall {
+  key: string;
+  name: string;
+  argument?: Expression;
+  distinct: boolean;
+}
+
+export interface AggregationPlan {
+  groupBy: { key: string; expression: Expression }[];
+  aggregates: AggregateCall[];
+  columns: SelectItem[];
+  having?: Expression;
+  orderBy: OrderByItem[];
+}
+
+function containsAggregate(expression: Expression | undefined): boolean {
+  if (!expression) return false;
+  if (expression.type === 'function' && AGGREGATE_FUNCTIONS.has(expression.name)) return true;
+
+  switch (expression.type) {
+    case 'comparison':
+    case 'arithmetic':
+    case 'logical':
+      return containsAggregate(expression.left) || containsAggregate(expression.right);
+    case 'not':
+    case 'negate':
+    case 'isNull':
+      return containsAggregate(expression.operand);
+    case 'like':
+      return containsAggregate(expression.operand) || containsAggregate(expression.pattern);
+    case 'in':
+      return containsAggregate(expression.operand) || expression.values.some(containsAggregate);
+    case 'between':
+      return containsAggregate(expression.operand) || containsAggregate(expression.low) || containsAggregate(expression.high);
+    case 'function':
+      return expression.args.some(containsAggregate);
+    default:
+      return false;
+  }
+}
+
+export function isAggregateQuery(statement: SelectStatement): boolean {
+  return statement.groupBy.length > 0
+    || statement.having !== undefined
+    || statement.columns.some(item => containsAggregate(item.expression))
+    || statement.orderBy.some(item => containsAggregate(item.expression));
+}
+
+// Column references match when the names agree and the qualifiers do not contradict each other
+function sameExpression(a: Expression, b: Expression): boolean {
+  if (a.type === 'column' && b.type === 'column') {
+    return a.name === b.name && (!a.table || !b.table || a.table === b.table);
+  }
+  return formatExpression(a) === formatExpression(b);
+}
+
+export function planAggregation(statement: SelectStatement): AggregationPlan {
+  const groupBy = statement.groupBy.map(expression => ({ key: formatExpression(expression), expression }));
+  const aggregates: AggregateCall[] = [];
+
+  const registerAggregate = (expression: Extract<Expression, { type: 'function' }>): string => {
+    const key = formatExpression(expression);
+    if (!aggregates.some(aggregate => aggregate.key === key)) {
+      if (expression.args.length !== 1) {
+        throw new QueryEvaluationError(`${expression.name} expects exactly one argument`);
+      }
+      const [argument] = expression.args;
+      if (argument.type === 'star' && expression.name !== 'COUNT') {
+        throw new QueryEvaluationError(`${expression.name}(*) is not supported; only COUNT(*) is`);
+      }
+      if (containsAggregate(argument)) {
+        throw new QueryEvaluationError(`Aggregate functions cannot be nested: ${key}`);
+      }
+      aggregates.push({
+        key,
+        name: expression.name,
+        argument: argument.type === 'star' ? undefined : argument,
+        distinct: expression.distinct,
+      });
+    }
+    return key;
+  };
+
+  // Replace group expressions and aggregate calls with references to the group row
+  const rewrite = (expression: Expression): Expression => {
+    const group = groupBy.find(entry => sameExpression(entry.expression, expression));
+    if (group) return { type: 'column', name: group.key };
+
+    switch (expression.type) {
+      case 'function':
+        if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+          return { type: 'column', name: registerAggregate(expression) };
+        }
+        return { ...expression, args: expression.args.map(rewrite) };
+      case 'comparison':
+      case 'arithmetic':
+      case 'logical':
+        return { ...expression, left: rewrite(expression.left), right: rewrite(expression.right) };
+      case 'not':
+      case 'negate':
+      case 'isNull':
+        return { ...expression, operand: rewrite(expression.operand) };
+      case 'like':
+        return { ...expression, operand: rewrite(expression.operand), pattern: rewrite(expression.pattern) };
+      case 'in':
+        return { ...expression, operand: rewrite(expression.operand), values: expression.values.map(rewrite) };
+      case 'between':
+        return { ...expression, operand: rewrite(expression.operand), low: rewrite(expression.low), high: rewrite(expression.high) };
+      default:
+        return expression;
+    }
+  };
+
+  const groupKeys = new Set(groupBy.map(entry => entry.key));
+  const aggregateKeys = () => new Set(aggregates.map(aggregate => aggregate.key));
+  const selectAliases = new Set(statement.columns.map(item => item.alias).filter(Boolean) as string[]);
+
+  // After rewriting, any column that is not a group key or aggregate was used outside GROUP BY
+  const checkGrouped = (expression: Expression | undefined, allowAliases: boolean) => {
+    const known = aggregateKeys();
+    for (const column of collectColumns(expression)) {
+      if (column.table === undefined && (groupKeys.has(column.name) || known.has(column.name))) continue;
+      if (allowAliases && column.table === undefined && selectAliases.has(column.name)) continue;
+      const name = column.table ? `${column.table}.${column.name}` : column.name;
+      throw new QueryEvaluationError(`Column '${name}' must appear in the GROUP BY clause or be used in an aggregate function`);
+    }
+  };
+
+  const columns = statement.columns.map(item => {
+    if (item.expression.type === 'star') {
+      throw new QueryEvaluationError(`SELECT ${formatExpression(item.expression)} cannot be combined with GROUP BY or aggregate functions`);
+    }
+    const expression = rewrite(item.expression);
+    checkGrouped(expression, false);
+    return { expression, alias: outputColumnName(item) };
+  });
+
+  const having = statement.having ? rewrite(statement.having) : undefined;
+  checkGrouped(having, true);
+
+  const orderBy = statement.orderBy.map(item => {
+    const expression = rewrite(item.expression);
+    checkGrouped(expression, true);
+    return { expression, direction: item.direction };
+  });
+
+  return { groupBy, aggregates, columns, having, orderBy };
+}
+
+function isNullish(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+// Compute one aggregate over the rows of a group
+export function computeAggregate(aggregate: AggregateCall, rows: Row[], params: Record<string, any>): any {
+  if (aggregate.name === 'COUNT' && !aggregate.argument) {
+    return rows.length;
+  }
+
+  let values = rows
+    .map(row => evaluateExpression(aggregate.argument!, row, params))
+    .filter(value => !isNullish(value));
+
+  if (aggregate.distinct) {
+    const seen = new Set<string>();
+    values = values.filter(value => {
+      const key = value instanceof Date ? value.toISOString() : JSON.stringify(value);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  }
+
+  switch (aggregate.name) {
+    case 'COUNT':
+      return values.length;
+    case 'SUM':
+      return values.length === 0 ? null : values.reduce((sum, value) => sum + Number(value), 0);
+    case 'AVG':
+      return values.length === 0 ? null : values.reduce((sum, value) => sum + Number(value), 0) / values.length;
+    case 'MIN':
+      return values.length === 0 ? null : values.reduce((min, value) => compareValues(value, min) < 0 ? value : min);
+    case 'MAX':
+      return values.length === 0 ? null : values.reduce((max, value) => compareValues(value, max) > 0 ? value : max);
+  }
+
+  throw new QueryEvaluationError(`Unknown aggregate function ${aggregate.name}`);
+}
+
+// Group rows and compute every aggregate, producing one group row per group
+export function aggregateRows(rows: Row[], plan: AggregationPlan, params: Record<string, any> = {}): Row[] {
+  const groups = new Map<string, { keys: any[]; rows: Row[] }>();
+
+  for (const row of rows) {
+    const keys = plan.groupBy.map(entry => evaluateExpression(entry.expression, row, params));
+    const hash = JSON.stringify(keys.map(value => value instanceof Date ? value.toISOString() : value ?? null));
+    const group = groups.get(hash);
+    if (group) {
+      group.rows.push(row);
+    } else {
+      groups.set(hash, { keys, rows: [row] });
+    }
+  }
+
+  // Without GROUP BY the whole input is one group, even when it is empty
+  if (plan.groupBy.length === 0 && groups.size === 0) {
+    groups.set('[]', { keys: [], rows: [] });
+  }
+
+  return Array.from(groups.values()).map(group => {
+    const groupRow: Row = {};
+    plan.groupBy.forEach((entry, index) => {
+      groupRow[entry.key] = group.keys[index];
+    });
+    for (const aggregate of plan.aggregates) {
+      groupRow[aggregate.key] = computeAggregate(aggregate, group.rows, params);
+    }
+    return groupRow;
+  });
+}
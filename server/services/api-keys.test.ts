@@ -0,0 +1,75 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { storage } from "../storage";
+import { apiKeyService, InvalidApiKeyError } from "./api-keys";
+
+const invalid = (message: RegExp) => (error: unknown) => error instanceof InvalidApiKeyError && message.test(error.message);
+
+describe("apiKeyService", () => {
+  let userId: number;
+
+  before(async () => {
+    userId = (await storage.createUser({ username: "scripts", password: "unused", role: "viewer" })).id;
+    await storage.updateSettings({ apiKeysEnabled: true });
+  });
+
+  it("stores only a hash of the key and its visible prefix", async () => {
+    const created = await apiKeyService.create(userId, { name: "nightly", scope: "read", expiresInDays: null });
+
+    assert.match(created.key, /^uda_[A-Za-z0-9_-]{43}$/);
+    const stored = (await storage.getApiKey(created.id))!;
+    assert.equal(stored.keyHash, createHash("sha256").update(created.key).digest("hex"));
+    assert.equal(stored.prefix, created.key.slice(0, 12));
+    assert.ok(!JSON.stringify(stored).includes(created.key));
+    assert.ok(!("keyHash" in apiKeyService.toPublic(stored)));
+  });
+
+  it("authenticates a key as the user who created it", async () => {
+    const { key } = await apiKeyService.create(userId, { name: "report", scope: "execute", expiresInDays: 30 });
+
+    const { apiKey, user } = await apiKeyService.authenticate(key);
+    assert.equal(user.id, userId);
+    assert.equal(apiKey.scope, "execute");
+    assert.ok((await storage.getApiKey(apiKey.id))!.lastUsedAt);
+  });
+
+  it("rejects unknown, revoked and expired keys", async () => {
+    const { key, id } = await apiKeyService.create(userId, { name: "old", scope: "read", expiresInDays: null });
+
+    await assert.rejects(apiKeyService.authenticate(`${key}x`), invalid(/^Invalid API key$/));
+    await assert.rejects(apiKeyService.authenticate("not-a-key"), invalid(/^Invalid API key$/));
+
+    await apiKeyService.revoke(id);
+    await assert.rejects(apiKeyService.authenticate(key), invalid(/has been revoked/));
+
+    const expiring = await apiKeyService.create(userId, { name: "expired", scope: "read", expiresInDays: 1 });
+    await storage.updateApiKey(expiring.id, { expiresAt: new Date(Date.now() - 1000) });
+    await assert.rejects(apiKeyService.authenticate(expiring.key), invalid(/has expired/));
+  });
+
+  it("rejects every key while API keys are disabled", async () => {
+    const { key } = await apiKeyService.create(userId, { name: "paused", scope: "read", expiresInDays: null });
+
+    await storage.updateSettings({ apiKeysEnabled: false });
+    try {
+      await assert.rejects(apiKeyService.authenticate(key), invalid(/disabled/));
+    } finally {
+      await storage.updateSettings({ apiKeysEnabled: true });
+    }
+  });
+
+  it("limits read keys to reading queries and execute keys to also running them", () => {
+    assert.equal(apiKeyService.allows("read", "GET", "/api/queries"), true);
+    assert.equal(apiKeyService.allows("read", "GET", "/api/queries/3/schedule"), true);
+    assert.equal(apiKeyService.allows("read", "POST", "/api/queries"), false);
+    assert.equal(apiKeyService.allows("read", "DELETE", "/api/queries/3"), false);
+    assert.equal(apiKeyService.allows("read", "POST", "/api/execute-query"), false);
+
+    assert.equal(apiKeyService.allows("execute", "POST", "/api/execute-query/stream"), true);
+    assert.equal(apiKeyService.allows("execute", "GET", "/api/queries/3"), true);
+    assert.equal(apiKeyService.allows("execute", "PUT", "/api/queries/3"), false);
+    assert.equal(apiKeyService.allows("execute", "GET", "/api/data-sources"), false);
+    assert.equal(apiKeyService.allows("admin", "GET", "/api/queries"), false);
+  });
+});
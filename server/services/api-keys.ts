@@ -0,0 +1,102 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey, ApiKeyScope, CreatedApiKey, PublicApiKey, User } from "@shared/schema";
+import { storage } from "../storage";
+
+// API keys let scripts call the query routes with an `Authorization: Bearer <key>` header
+// instead of a browser session. A key acts as the user who created it, so that user's role
+// and grants still apply, and its scope limits which routes it can call.
+
+const KEY_PREFIX = "uda_";
+
+// How much of a key is kept in the clear so users can tell their keys apart
+const VISIBLE_LENGTH = KEY_PREFIX.length + 8;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The routes each scope can call; an "execute" key can also call the "read" routes
+const SCOPE_ROUTES: Record<ApiKeyScope, { method: string; path: RegExp }[]> = {
+  read: [
+    { method: "GET", path: /^\/api\/queries(\/\d+)?$/ },
+    { method: "GET", path: /^\/api\/queries\/\d+\/schedule$/ },
+  ],
+  execute: [
+    { method: "POST", path: /^\/api\/execute-query(\/stream)?$/ },
+  ],
+};
+
+const SCOPE_INCLUDES: Record<ApiKeyScope, ApiKeyScope[]> = {
+  read: ["read"],
+  execute: ["read", "execute"],
+};
+
+export class InvalidApiKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+// Keys are 32 random bytes, so unlike passwords they can't be guessed and a plain SHA-256 is enough
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+class ApiKeyService {
+  toPublic(apiKey: ApiKey): PublicApiKey {
+    const { keyHash: _keyHash, ...publicKey } = apiKey;
+    return publicKey;
+  }
+
+  async create(userId: number, request: { name: string; scope: ApiKeyScope; expiresInDays: number | null }): Promise<CreatedApiKey> {
+    const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+    const apiKey = await storage.createApiKey({
+      userId,
+      name: request.name,
+      prefix: key.slice(0, VISIBLE_LENGTH),
+      keyHash: hashKey(key),
+      scope: request.scope,
+      expiresAt: request.expiresInDays !== null ? new Date(Date.now() + request.expiresInDays * DAY_MS) : null,
+    });
+    return { ...this.toPublic(apiKey), key };
+  }
+
+  // The key and the user it acts as; throws InvalidApiKeyError when the key can't be used
+  async authenticate(key: string): Promise<{ apiKey: ApiKey; user: User }> {
+    const settings = await storage.getSettings();
+    if (!settings.apiKeysEnabled) {
+      throw new InvalidApiKeyError("API key authentication is disabled");
+    }
+
+    const apiKey = key.startsWith(KEY_PREFIX) ? await storage.getApiKeyByHash(hashKey(key)) : undefined;
+    if (!apiKey) {
+      throw new InvalidApiKeyError("Invalid API key");
+    }
+    if (apiKey.revokedAt) {
+      throw new InvalidApiKeyError("API key has been revoked");
+    }
+    if (apiKey.expiresAt && apiKey.expiresAt.getTime() <= Date.now()) {
+      throw new InvalidApiKeyError("API key has expired");
+    }
+
+    const user = await storage.getUser(apiKey.userId);
+    if (!user) {
+      throw new InvalidApiKeyError("Invalid API key");
+    }
+
+    await storage.updateApiKey(apiKey.id, { lastUsedAt: new Date() });
+    return { apiKey, user };
+  }
+
+  // Whether a key with `scope` may call `method` on `path`
+  allows(scope: string, method: string, path: string): boolean {
+    const scopes = SCOPE_INCLUDES[scope as ApiKeyScope] ?? [];
+    return scopes.some(included =>
+      SCOPE_ROUTES[included].some(route => route.method === method && route.path.test(path)));
+  }
+
+  async revoke(id: number): Promise<ApiKey | undefined> {
+    return storage.updateApiKey(id, { revokedAt: new Date() });
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
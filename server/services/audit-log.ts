@@ -0,0 +1,85 @@
+import type { Request } from "express";
+import type { InsertAuditEvent, Query } from "@shared/schema";
+import { storage } from "../storage";
+import { AccessDeniedError } from "./access-control";
+
+// An append-only record of who changed which metadata and who ran which query, for compliance
+// reviews. Recording never fails the action being recorded: a write error is logged and dropped.
+
+// Who an event is attributed to
+export interface AuditActor {
+  userId: number | null;
+  actor: string;
+  apiKeyId: number | null;
+}
+
+// Scheduled runs have no user behind them
+export const SCHEDULER_ACTOR: AuditActor = { userId: null, actor: "scheduler", apiKeyId: null };
+
+export type AuditEntry = Omit<InsertAuditEvent, keyof AuditActor>;
+
+// Bookkeeping fields that change on every write and say nothing about the change itself
+const IGNORED_FIELDS = ["createdAt", "updatedAt"];
+
+class AuditLog {
+  actorOf(req: Request): AuditActor {
+    return {
+      userId: req.user?.id ?? null,
+      actor: req.user?.username ?? "anonymous",
+      apiKeyId: req.apiKey?.id ?? null,
+    };
+  }
+
+  // The top-level fields that differ between two versions of an entity, as { field: { before, after } }.
+  // Fields are compared on the raw values and shown through `redact`, so a changed secret is
+  // recorded as changed without its value; fields `redact` drops are left out.
+  diff<T extends Record<string, any>>(before: T | null | undefined, after: T | null | undefined, redact: (entity: T) => Record<string, any> = entity => entity): Record<string, { before: unknown; after: unknown }> {
+    const shownBefore: Record<string, any> = before ? redact(before) : {};
+    const shownAfter: Record<string, any> = after ? redact(after) : {};
+    const fields = Array.from(new Set([...Object.keys(shownBefore), ...Object.keys(shownAfter)]));
+
+    const changes: Record<string, { before: unknown; after: unknown }> = {};
+    for (const field of fields.filter(field => !IGNORED_FIELDS.includes(field))) {
+      if (JSON.stringify(before?.[field]) !== JSON.stringify(after?.[field])) {
+        changes[field] = { before: shownBefore[field] ?? null, after: shownAfter[field] ?? null };
+      }
+    }
+    return changes;
+  }
+
+  failureStatus(error: unknown): "denied" | "failed" {
+    return error instanceof AccessDeniedError ? "denied" : "failed";
+  }
+
+  async record(actor: AuditActor, entry: AuditEntry): Promise<void> {
+    try {
+      await storage.createAuditEvent({ ...actor, ...entry });
+    } catch (error) {
+      console.error(`Error recording audit event ${entry.action} ${entry.entityType}:`, error);
+    }
+  }
+
+  // A query execution with the sources it read and how many rows it returned, or why it failed
+  async queryRun(actor: AuditActor, query: Query, params: Record<string, any> | undefined, outcome: { result?: any; error?: unknown }, action = "execute"): Promise<void> {
+    const { result, error } = outcome;
+    const scanned: { sourceId: number }[] | undefined = result?.scanned;
+    const sourceIds = scanned && scanned.length > 0
+      ? Array.from(new Set(scanned.map(scan => scan.sourceId)))
+      : (query.dataSources as number[]);
+    const rowCount = Array.isArray(result?.results) ? result.results.length : result?.rowCount;
+
+    await this.record(actor, {
+      action,
+      entityType: "query",
+      entityId: query.id > 0 ? query.id : null,
+      status: error === undefined ? "succeeded" : this.failureStatus(error),
+      queryText: query.query,
+      params: params ?? {},
+      sourceIds,
+      rowCount: typeof rowCount === "number" ? rowCount : null,
+      error: error === undefined ? null : (error as Error).message,
+    });
+  }
+}
+
+export const auditLog = new AuditLog();
@@ -0,0 +1,96 @@
+import type { DataSourceConnector, SourceQueryParams } from "./data-source-connector";
+import { matchesSourceFilter } from "./source-filter";
+import { compareValues } from "./sql-evaluator";
+import { storage } from "../storage";
+
+export interface SnapshotRead {
+  rows: Record<string, any>[];
+  lastUpdated: Date;
+  nextUpdate: Date;
+  stale: boolean;
+}
+
+// Run a source query over snapshot rows the way the source would have run it
+export function applySourceQuery(rows: Record<string, any>[], query: SourceQueryParams): Record<string, any>[] {
+  let results = rows;
+
+  if (query.filters && query.filters.length > 0) {
+    results = results.filter(row => query.filters!.every(filter => matchesSourceFilter(row, filter)));
+  }
+
+  if (query.orderBy && Object.keys(query.orderBy).length > 0) {
+    const orderBy = Object.entries(query.orderBy);
+    results = [...results].sort((a, b) => {
+      for (const [field, direction] of orderBy) {
+        const comparison = compareValues(a[field], b[field]);
+        if (comparison !== 0) return direction === 'desc' ? -comparison : comparison;
+      }
+      return 0;
+    });
+  }
+
+  if (typeof query.limit === 'number') {
+    results = results.slice(0, query.limit);
+  }
+
+  if (query.selectedColumns && query.selectedColumns.length > 0 && !query.selectedColumns.includes('*')) {
+    const columns = query.selectedColumns;
+    results = results.map(row => {
+      const projected: Record<string, any> = {};
+      for (const column of columns) {
+        if (row[column] !== undefined) projected[column] = row[column];
+      }
+      return projected;
+    });
+  }
+
+  return results;
+}
+
+// Whole-collection copies of slowly changing collections for hybrid queries. A snapshot
+// older than its refresh interval is still served while a fresh copy is taken in the background.
+class CollectionSnapshotService {
+  private refreshes: Map<string, Promise<{ rows: Record<string, any>[]; lastUpdated: Date }>> = new Map();
+
+  async read(sourceId: number, service: DataSourceConnector, collection: string, refreshInterval: number): Promise<SnapshotRead> {
+    const stored = await storage.getCollectionSnapshot(sourceId, collection);
+    const snapshot = stored
+      ? { rows: stored.rows as Record<string, any>[], lastUpdated: new Date(stored.lastUpdated ?? 0) }
+      : await this.refresh(sourceId, service, collection);
+
+    const nextUpdate = new Date(snapshot.lastUpdated.getTime() + refreshInterval * 60 * 1000);
+    const stale = nextUpdate.getTime() <= Date.now();
+
+    if (stale) {
+      this.refresh(sourceId, service, collection).catch(error => {
+        console.error(`Error refreshing snapshot of ${collection} from source ${sourceId}:`, error);
+      });
+    }
+
+    return { rows: snapshot.rows, lastUpdated: snapshot.lastUpdated, nextUpdate, stale };
+  }
+
+  // Drop a source's snapshots, e.g. after its connection details changed
+  async invalidate(sourceId: number): Promise<void> {
+    await storage.deleteCollectionSnapshots(sourceId);
+  }
+
+  // Copy the collection from the source; concurrent refreshes of one collection share a fetch
+  private refresh(sourceId: number, service: DataSourceConnector, collection: string): Promise<{ rows: Record<string, any>[]; lastUpdated: Date }> {
+    const key = `${sourceId}:${collection}`;
+    const inFlight = this.refreshes.get(key);
+    if (inFlight) return inFlight;
+
+    const refresh = (async () => {
+      const rows = await service.executeQuery(collection, {});
+      const saved = await storage.saveCollectionSnapshot({ sourceId, collection, rows, rowCount: rows.length });
+      console.log(`Saved snapshot of ${collection} from source ${sourceId} (${rows.length} rows)`);
+      return { rows, lastUpdated: new Date(saved.lastUpdated ?? Date.now()) };
+    })().finally(() => this.refreshes.delete(key));
+
+    this.refreshes.set(key, refresh);
+    return refresh;
+  }
+}
+
+export const collectionSnapshots = new CollectionSnapshotService();
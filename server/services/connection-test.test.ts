@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DataSource } from "@shared/schema";
+import { classifyConnectionError, testConnection } from "./connection-test";
+import { MongoDBService } from "./mongodb";
+import { FirebaseService } from "./firebase";
+
+describe("testConnection", () => {
+  const saved = { ...process.env };
+
+  beforeEach(() => {
+    // Server defaults a source must never fall back to
+    process.env.MONGODB_URI = "mongodb://127.0.0.1:27017";
+    process.env.FIREBASE_PROJECT_ID = "server-project";
+  });
+
+  afterEach(() => {
+    for (const name of ["MONGODB_URI", "FIREBASE_PROJECT_ID"]) {
+      if (saved[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = saved[name];
+      }
+    }
+  });
+
+  it("tests the submitted URI, not the server's MONGODB_URI", async () => {
+    const result = await testConnection("mongodb", { uri: "not-a-mongodb-uri", database: "app" });
+
+    assert.equal(result.ok, false);
+    assert.match(result.error ?? "", /scheme/i);
+    assert.deepEqual(result.collections, []);
+  });
+
+  it("reports a config without a URI or project ID as a config error", async () => {
+    const mongo = await testConnection("mongodb", { database: "app" });
+    assert.equal(mongo.ok, false);
+    assert.equal(mongo.errorKind, "config");
+    assert.match(mongo.error ?? "", /Invalid MongoDB configuration: uri/);
+
+    const firebase = await testConnection("firebase", {});
+    assert.equal(firebase.ok, false);
+    assert.equal(firebase.errorKind, "config");
+    assert.match(firebase.error ?? "", /projectId/);
+  });
+
+  it("doesn't connect a saved source without its own URI or project ID to the server's", async () => {
+    const source = (type: string, config: Record<string, any>): DataSource => ({
+      id: 0, name: "test", type, config, collections: [], status: "disconnected", lastError: null,
+      demoMode: false, snapshotCollections: {}, maxRows: null, createdAt: null, updatedAt: null,
+    });
+
+    await assert.rejects(new MongoDBService().connect(source("mongodb", { database: "app" })), /MongoDB URI is required/);
+    await assert.rejects(new FirebaseService().connect(source("firebase", {})), /Firebase project ID is required/);
+  });
+
+  it("rejects unknown source types", async () => {
+    await assert.rejects(testConnection("nosuchdb", {}), /Unsupported data source type 'nosuchdb'/);
+  });
+});
+
+describe("classifyConnectionError", () => {
+  it("sorts driver errors by what the user has to fix", () => {
+    assert.equal(classifyConnectionError({ code: 18, message: "Authentication failed." }), "auth");
+    assert.equal(classifyConnectionError({ code: "ECONNREFUSED", message: "connect ECONNREFUSED" }), "network");
+    assert.equal(classifyConnectionError(new Error("Connection test timed out")), "timeout");
+    assert.equal(classifyConnectionError(new Error("Invalid scheme")), "config");
+    assert.equal(classifyConnectionError(new Error("something else")), "unknown");
+  });
+});
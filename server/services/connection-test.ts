@@ -0,0 +1,98 @@
+import type { ConnectionTestResult, DataSource } from "@shared/schema";
+import { connectorRegistry } from "./connector-registry";
+
+type ConnectionErrorKind = NonNullable<ConnectionTestResult["errorKind"]>;
+
+// Longest a connection test waits for the source to connect and list its collections
+const TEST_TIMEOUT = 15 * 1000;
+
+// Reject with `message` when the promise hasn't settled within `ms`
+export function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timeout: NodeJS.Timeout | undefined;
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeout = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeoutPromise]).finally(() => clearTimeout(timeout));
+}
+
+// Error codes drivers use for rejected credentials: MongoDB, PostgreSQL and Firestore
+const AUTH_CODES = ['18', 'AuthenticationFailed', '28P01', '28000', 'permission-denied', 'unauthenticated'];
+const NETWORK_CODES = ['ENOTFOUND', 'ECONNREFUSED', 'ECONNRESET', 'EHOSTUNREACH', 'ENETUNREACH', 'unavailable'];
+
+// Sort a connection error into what the user has to fix
+export function classifyConnectionError(error: unknown): ConnectionErrorKind {
+  const err = error as { code?: unknown; codeName?: unknown; message?: unknown } | null;
+  const codes = [err?.code, err?.codeName].filter(code => code !== undefined).map(String);
+  const message = String(err?.message ?? error).toLowerCase();
+
+  if (codes.some(code => AUTH_CODES.includes(code)) || /auth|password|permission|credential|unauthori[sz]ed/.test(message)) {
+    return 'auth';
+  }
+  if (codes.includes('deadline-exceeded') || /timeout|timed out/.test(message)) {
+    return 'timeout';
+  }
+  if (codes.some(code => NETWORK_CODES.includes(code)) || /enotfound|econnrefused|getaddrinfo|unreachable|network|offline/.test(message)) {
+    return 'network';
+  }
+  if (/required|invalid/.test(message)) {
+    return 'config';
+  }
+  return 'unknown';
+}
+
+// A failed test that never reached the source
+function failedTest(error: unknown, errorKind: ConnectionErrorKind, latencyMs = 0): ConnectionTestResult {
+  return {
+    ok: false,
+    latencyMs,
+    serverVersion: null,
+    collections: [],
+    error: (error as Error).message ?? String(error),
+    errorKind,
+  };
+}
+
+// Connect to a source configuration that hasn't been saved, report what it can reach and
+// disconnect again. Throws only when the type is unknown; an invalid config or an unreachable
+// source is a result with ok: false.
+export async function testConnection(type: string, config: unknown): Promise<ConnectionTestResult> {
+  const service = connectorRegistry.create(type);
+  let parsedConfig: Record<string, any>;
+  try {
+    parsedConfig = connectorRegistry.validateConfig(type, config);
+  } catch (error) {
+    return failedTest(error, 'config');
+  }
+  const dataSource: DataSource = {
+    id: 0,
+    name: "Connection test",
+    type,
+    config: parsedConfig,
+    collections: [],
+    status: "disconnected",
+    lastError: null,
+    demoMode: false,
+    snapshotCollections: {},
+    maxRows: null,
+    createdAt: null,
+    updatedAt: null,
+  };
+
+  const startTime = Date.now();
+  try {
+    await withTimeout(service.connect(dataSource), TEST_TIMEOUT, "Connection test timed out");
+    const collections = await service.listCollections();
+    const latencyMs = Date.now() - startTime;
+
+    // The version is informational; not being allowed to read it doesn't fail the test
+    const serverVersion = service.getServerVersion
+      ? await service.getServerVersion().catch(() => null)
+      : null;
+
+    return { ok: true, latencyMs, serverVersion, collections, error: null, errorKind: null };
+  } catch (error) {
+    return failedTest(error, classifyConnectionError(error), Date.now() - startTime);
+  } finally {
+    await service.disconnect().catch(error => console.error("Error closing test connection:", error));
+  }
+}
@@ -0,0 +1,53 @@
+import type { ConnectorDefinition, DataSourceConnector } from "./data-source-connector";
+import { firebaseConnector } from "./firebase";
+import { mongoDBConnector } from "./mongodb";
+import { postgresConnector } from "./postgres";
+
+// Known data source types. A new type only needs a ConnectorDefinition registered here.
+class ConnectorRegistry {
+  private definitions: Map<string, ConnectorDefinition> = new Map();
+
+  register(definition: ConnectorDefinition): void {
+    if (this.definitions.has(definition.type)) {
+      throw new Error(`A connector for '${definition.type}' is already registered`);
+    }
+    this.definitions.set(definition.type, definition);
+  }
+
+  get(type: string): ConnectorDefinition | undefined {
+    return this.definitions.get(type);
+  }
+
+  list(): ConnectorDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  create(type: string): DataSourceConnector {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unsupported data source type '${type}'`);
+    }
+    return definition.create();
+  }
+
+  // Validate a source config against its connector's schema and return the parsed config
+  validateConfig(type: string, config: unknown): Record<string, any> {
+    const definition = this.definitions.get(type);
+    if (!definition) {
+      throw new Error(`Unsupported data source type '${type}'`);
+    }
+
+    const result = definition.configSchema.safeParse(config ?? {});
+    if (!result.success) {
+      const issues = result.error.issues.map(issue => issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message);
+      throw new Error(`Invalid ${definition.displayName} configuration: ${issues.join('; ')}`);
+    }
+    return result.data;
+  }
+}
+
+export const connectorRegistry = new ConnectorRegistry();
+
+connectorRegistry.register(firebaseConnector);
+connectorRegistry.register(mongoDBConnector);
+connectorRegistry.register(postgresConnector);
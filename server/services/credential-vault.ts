@@ -0,0 +1,174 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { REDACTED_SECRET, type CredentialVaultStatus, type DataSource } from "@shared/schema";
+import { connectorRegistry } from "./connector-registry";
+
+// Encryption for the secret fields of data source configs (connection strings, API keys).
+// Secrets are sealed with AES-256-GCM under a master key from CREDENTIAL_MASTER_KEY before
+// they are stored, opened only when a connector connects, and redacted in API responses.
+//
+// A sealed value is "vault:v1:<key id>:<iv>:<auth tag>:<ciphertext>" (base64url parts). The
+// key id names the master key it was sealed with, so during a rotation values sealed with
+// a key listed in CREDENTIAL_MASTER_KEY_PREVIOUS can still be opened.
+
+const PREFIX = "vault:v1:";
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function masterKey(secret: string): MasterKey {
+  // Any long random string works as a master key, e.g. `openssl rand -base64 32`
+  const key = createHash("sha256").update(secret).digest();
+  return { id: createHash("sha256").update(key).digest("hex").slice(0, 8), key };
+}
+
+class CredentialVault {
+  private current(): MasterKey | null {
+    const secret = process.env.CREDENTIAL_MASTER_KEY;
+    return secret ? masterKey(secret) : null;
+  }
+
+  private keys(): MasterKey[] {
+    const previous = (process.env.CREDENTIAL_MASTER_KEY_PREVIOUS ?? "")
+      .split(",")
+      .map(secret => secret.trim())
+      .filter(Boolean)
+      .map(masterKey);
+    const current = this.current();
+    return current ? [current, ...previous] : previous;
+  }
+
+  isEnabled(): boolean {
+    return this.current() !== null;
+  }
+
+  isSealed(value: unknown): value is string {
+    return typeof value === "string" && value.startsWith(PREFIX);
+  }
+
+  seal(value: unknown): string {
+    const current = this.current();
+    if (!current) {
+      throw new Error("CREDENTIAL_MASTER_KEY is not set");
+    }
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", current.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(value), "utf8"), cipher.final()]);
+    const parts = [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString("base64url"));
+    return `${PREFIX}${current.id}:${parts.join(":")}`;
+  }
+
+  open(sealed: string): unknown {
+    const [keyId, iv, tag, ciphertext] = sealed.slice(PREFIX.length).split(":");
+    const key = this.keys().find(candidate => candidate.id === keyId);
+    if (!key) {
+      throw new Error(`Credentials were encrypted with master key ${keyId}, which is not configured`);
+    }
+
+    try {
+      const decipher = createDecipheriv("aes-256-gcm", key.key, Buffer.from(iv, "base64url"));
+      decipher.setAuthTag(Buffer.from(tag, "base64url"));
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64url")), decipher.final()]);
+      return JSON.parse(plaintext.toString("utf8"));
+    } catch {
+      throw new Error("Stored credentials could not be decrypted");
+    }
+  }
+
+  private secretFields(type: string): string[] {
+    return connectorRegistry.get(type)?.secretFields ?? [];
+  }
+
+  // Seal the secret fields of a config before it is stored; plaintext is kept when no master key is set
+  sealConfig(type: string, config: Record<string, any>): Record<string, any> {
+    if (!this.isEnabled()) return config;
+
+    const sealed = { ...config };
+    for (const field of this.secretFields(type)) {
+      const value = sealed[field];
+      if (value !== undefined && value !== null && !this.isSealed(value)) {
+        sealed[field] = this.seal(value);
+      }
+    }
+    return sealed;
+  }
+
+  // The config a connector connects with
+  openConfig(type: string, config: unknown): Record<string, any> {
+    const opened: Record<string, any> = { ...(config as Record<string, any> ?? {}) };
+    for (const field of this.secretFields(type)) {
+      if (this.isSealed(opened[field])) {
+        opened[field] = this.open(opened[field]);
+      }
+    }
+    return opened;
+  }
+
+  // Secrets are write-only: a field left out of an update, or sent back redacted, keeps its
+  // stored value, and null clears it
+  mergeSecrets(type: string, config: Record<string, any>, existing: unknown): Record<string, any> {
+    const stored = (existing ?? {}) as Record<string, any>;
+    const merged = { ...config };
+    for (const field of this.secretFields(type)) {
+      if (merged[field] === undefined || merged[field] === REDACTED_SECRET) {
+        if (stored[field] !== undefined) {
+          merged[field] = stored[field];
+        } else {
+          delete merged[field];
+        }
+      } else if (merged[field] === null) {
+        delete merged[field];
+      }
+    }
+    return merged;
+  }
+
+  redactConfig(type: string, config: unknown): Record<string, any> {
+    const redacted: Record<string, any> = { ...(config as Record<string, any> ?? {}) };
+    for (const field of this.secretFields(type)) {
+      if (redacted[field] !== undefined && redacted[field] !== null) {
+        redacted[field] = REDACTED_SECRET;
+      }
+    }
+    return redacted;
+  }
+
+  // A data source as API responses show it
+  redactDataSource(source: DataSource): DataSource {
+    return { ...source, config: this.redactConfig(source.type, source.config) };
+  }
+
+  private secrets(type: string, config: unknown): unknown[] {
+    const values = (config ?? {}) as Record<string, any>;
+    return this.secretFields(type).map(field => values[field]).filter(value => value !== undefined && value !== null);
+  }
+
+  // Whether every secret in a config is sealed with the current master key
+  isCurrent(type: string, config: unknown): boolean {
+    const current = this.current();
+    return this.secrets(type, config).every(value =>
+      this.isSealed(value) && current !== null && value.startsWith(`${PREFIX}${current.id}:`)
+    );
+  }
+
+  status(sources: DataSource[]): CredentialVaultStatus {
+    const current = this.current();
+    let unsealedSources = 0;
+    let staleKeySources = 0;
+
+    for (const source of sources) {
+      const secrets = this.secrets(source.type, source.config);
+      if (secrets.some(value => !this.isSealed(value))) {
+        unsealedSources++;
+      } else if (current && !this.isCurrent(source.type, source.config)) {
+        staleKeySources++;
+      }
+    }
+
+    return { enabled: current !== null, keyId: current?.id ?? null, unsealedSources, staleKeySources };
+  }
+}
+
+export const credentialVault = new CredentialVault();
@@ -0,0 +1,87 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { CronParseError, nextCronRun, parseCron } from "./cron";
+
+// Dates are built in local time, which is what cron expressions are evaluated in
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+describe("parseCron", () => {
+  it("expands wildcards, ranges, lists and steps", () => {
+    const cron = parseCron("*/15 9-17 1,15 * mon-fri");
+
+    assert.deepEqual([...cron.minutes], [0, 15, 30, 45]);
+    assert.deepEqual([...cron.hours], [9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    assert.deepEqual([...cron.daysOfMonth], [1, 15]);
+    assert.equal(cron.months.size, 12);
+    assert.deepEqual([...cron.daysOfWeek], [1, 2, 3, 4, 5]);
+    assert.equal(cron.daysOfMonthRestricted, true);
+    assert.equal(cron.daysOfWeekRestricted, true);
+  });
+
+  it("starts a stepped single value at that value and reads month names", () => {
+    const cron = parseCron("5/20 0 * JAN,jul *");
+
+    assert.deepEqual([...cron.minutes], [5, 25, 45]);
+    assert.deepEqual([...cron.months], [1, 7]);
+    assert.equal(cron.daysOfMonthRestricted, false);
+  });
+
+  it("treats 7 as Sunday", () => {
+    assert.deepEqual([...parseCron("0 0 * * 7").daysOfWeek], [0]);
+    assert.deepEqual([...parseCron("0 0 * * 5-7").daysOfWeek].sort(), [0, 5, 6]);
+  });
+
+  it("rejects malformed expressions", () => {
+    const invalid = [
+      ["* * * *", /must have 5 fields, got 4/],
+      ["60 * * * *", /minute value 60 is outside 0-59/],
+      ["* * 0 * *", /day of month value 0 is outside 1-31/],
+      ["*/0 * * * *", /Invalid step "0"/],
+      ["5-1 * * * *", /Invalid minute range "5-1"/],
+      ["* * * foo *", /Invalid month value "foo"/],
+      ["1/2/3 * * * *", /Invalid minute field/],
+    ] as const;
+
+    for (const [expression, message] of invalid) {
+      assert.throws(() => parseCron(expression), (error: unknown) => {
+        assert.ok(error instanceof CronParseError, expression);
+        assert.match(error.message, message);
+        return true;
+      });
+    }
+  });
+});
+
+describe("nextCronRun", () => {
+  it("returns the next matching minute strictly after the given time", () => {
+    assert.deepEqual(nextCronRun("*/15 * * * *", at(2024, 3, 10, 8, 7)), at(2024, 3, 10, 8, 15));
+    assert.deepEqual(nextCronRun("*/15 * * * *", at(2024, 3, 10, 8, 15)), at(2024, 3, 10, 8, 30));
+    assert.deepEqual(nextCronRun("* * * * *", new Date(at(2024, 3, 10, 8, 7).getTime() + 30 * 1000)), at(2024, 3, 10, 8, 8));
+  });
+
+  it("rolls over hours, days, months and years", () => {
+    assert.deepEqual(nextCronRun("30 2 * * *", at(2024, 3, 10, 3, 0)), at(2024, 3, 11, 2, 30));
+    assert.deepEqual(nextCronRun("0 0 1 * *", at(2024, 1, 31, 12, 0)), at(2024, 2, 1, 0, 0));
+    assert.deepEqual(nextCronRun("0 12 25 12 *", at(2024, 12, 26)), at(2025, 12, 25, 12, 0));
+  });
+
+  it("skips months without the requested day", () => {
+    assert.deepEqual(nextCronRun("0 0 31 * *", at(2024, 4, 1)), at(2024, 5, 31));
+    assert.deepEqual(nextCronRun("0 0 29 2 *", at(2024, 3, 1)), at(2028, 2, 29));
+  });
+
+  it("runs on a day matching either day field when both are restricted", () => {
+    // 2024-06-07 and 2024-06-14 are Fridays
+    assert.deepEqual(nextCronRun("0 9 15 * fri", at(2024, 6, 3)), at(2024, 6, 7, 9, 0));
+    assert.deepEqual(nextCronRun("0 9 15 * fri", at(2024, 6, 14, 10, 0)), at(2024, 6, 15, 9, 0));
+  });
+
+  it("runs only on matching weekdays when the day of month is unrestricted", () => {
+    // 2024-06-08 is a Saturday
+    assert.deepEqual(nextCronRun("0 9 * * mon-fri", at(2024, 6, 8)), at(2024, 6, 10, 9, 0));
+  });
+
+  it("gives up on expressions that never match", () => {
+    assert.throws(() => nextCronRun("0 0 30 2 *", at(2024, 1, 1)), /never matches/);
+  });
+});
@@ -0,0 +1,161 @@
+// Five-field cron expressions (minute hour day-of-month month day-of-week) for query
+// schedules. Fields accept `*`, numbers, ranges, lists and steps (`*/15`, `1-5`, `0,30`);
+// months and weekdays also accept three-letter names. Times are in server local time.
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were restricted; when both are, a day matching either one runs
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+// Give up looking for a matching minute after this many years (e.g. "0 0 30 2 *")
+const SEARCH_YEARS = 5;
+
+function parseValue(value: string, field: FieldSpec): number {
+  const index = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (index >= 0) return index + (field.name === 'month' ? 1 : 0);
+
+  if (!/^\d+$/.test(value)) {
+    throw new CronParseError(`Invalid ${field.name} value "${value}"`);
+  }
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw new CronParseError(`${field.name} value ${number} is outside ${field.min}-${field.max}`);
+  }
+  return number;
+}
+
+function parseField(text: string, field: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0 || range === '') {
+      throw new CronParseError(`Invalid ${field.name} field "${text}"`);
+    }
+
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new CronParseError(`Invalid step "${stepText}" in ${field.name} field`);
+    }
+
+    let low: number;
+    let high: number;
+    if (range === '*') {
+      low = field.min;
+      high = field.max;
+    } else if (range.includes('-')) {
+      const [lowText, highText] = range.split('-');
+      low = parseValue(lowText, field);
+      high = parseValue(highText, field);
+      if (low > high) {
+        throw new CronParseError(`Invalid ${field.name} range "${range}"`);
+      }
+    } else {
+      low = parseValue(range, field);
+      // "5/15" means every 15 starting at 5
+      high = stepText === undefined ? low : field.max;
+    }
+
+    for (let value = low; value <= high; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function parseCron(expression: string): CronExpression {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(`Cron expression must have 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getDay());
+
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+// The first minute strictly after `after` that the expression matches
+export function nextCronRun(expression: string | CronExpression, after: Date = new Date()): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(date.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (date < limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+      continue;
+    }
+    return date;
+  }
+
+  throw new CronParseError("Cron expression never matches a date");
+}
@@ -0,0 +1,135 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MaskingPolicy, SchemaMapping } from "@shared/schema";
+import type { DataSourceConnector } from "./data-source-connector";
+import { parseSql } from "./sql-parser";
+import { queryPlanner, type PlannerSource } from "./query-planner";
+import { dataMasking, maskValue } from "./data-masking";
+
+function source(sourceId: number, collections: Record<string, string[]>): PlannerSource {
+  const service = {
+    listCollections: async () => Object.keys(collections),
+    getSchema: async (name: string) => ({ name, fields: (collections[name] ?? []).map(field => ({ name: field, type: 'string' })) }),
+    getCapabilities: () => ({ operators: ['=='], or: false, not: false, negationInOr: false, projection: true, sort: false, limit: false, aggregation: false }),
+    estimateRowCount: async () => 0,
+  } as unknown as DataSourceConnector;
+  return { sourceId, name: `source ${sourceId}`, type: 'test', service };
+}
+
+let nextPolicyId = 1;
+function policy(sourceId: number, collection: string, field: string, strategy: string, exemptRoles = ["admin"]): MaskingPolicy {
+  return { id: nextPolicyId++, sourceId, collection, field, strategy, exemptRoles, createdAt: null, updatedAt: null };
+}
+
+const users = source(1, { users: ['id', 'email', 'name', 'address'] });
+const orders = source(2, { orders: ['id', 'userId', 'total'] });
+
+describe("maskValue", () => {
+  before(() => {
+    process.env.MASKING_KEY = "test-key";
+  });
+
+  it("masks by strategy and leaves NULL alone", () => {
+    assert.equal(maskValue("ada@example.com", "partial"), "a***@example.com");
+    assert.equal(maskValue("4111111111111111", "partial"), "************1111");
+    assert.equal(maskValue({ a: 1 }, "partial"), null);
+    assert.equal(maskValue("secret", "null"), null);
+    assert.equal(maskValue(null, "hash"), null);
+  });
+
+  it("hashes and tokenizes deterministically", () => {
+    assert.equal(maskValue("ada", "hash"), maskValue("ada", "hash"));
+    assert.notEqual(maskValue("ada", "hash"), maskValue("bob", "hash"));
+    assert.match(String(maskValue("ada", "tokenize")), /^tok_[0-9a-f]{16}$/);
+  });
+});
+
+describe("dataMasking.maskResults", () => {
+  before(() => {
+    process.env.MASKING_KEY = "test-key";
+  });
+
+  it("masks output columns by the source field they are read from, whatever they are called", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT email AS contact, UPPER(name) AS shout, id FROM users"), [users]);
+    const policies = [policy(1, "users", "email", "null"), policy(1, "users", "name", "partial")];
+
+    const [row] = dataMasking.maskResults(plan, [{ contact: "ada@example.com", shout: "ADA LOVELACE", id: 1, __source: "1" }], policies);
+
+    assert.deepEqual(row, { contact: null, shout: "********LACE", id: 1, __source: "1" });
+  });
+
+  it("follows columns through joins and SELECT *", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT * FROM users u JOIN orders o ON o.userId = u.id"), [users, orders]);
+    const policies = [policy(2, "orders", "total", "null")];
+
+    const [row] = dataMasking.maskResults(plan, [{ "u.id": 1, "u.email": "a@b.c", "o.id": 10, "o.total": 99 }], policies);
+
+    assert.deepEqual(row, { "u.id": 1, "u.email": "a@b.c", "o.id": 10, "o.total": null });
+  });
+
+  it("doesn't mask counts of a masked field", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT COUNT(email) AS n, MAX(email) AS latest FROM users"), [users]);
+
+    const [row] = dataMasking.maskResults(plan, [{ n: 3, latest: "z@example.com" }], [policy(1, "users", "email", "null")]);
+
+    assert.deepEqual(row, { n: 3, latest: null });
+  });
+
+  it("masks nested fields inside an object column and whole objects under a masked parent", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT address, address.city AS city FROM users"), [users]);
+    const policies = [policy(1, "users", "address.street", "null")];
+
+    const [row] = dataMasking.maskResults(plan, [{ address: { street: "1 Main St", city: "Paris" }, city: "Paris" }], policies);
+    assert.deepEqual(row, { address: { street: null, city: "Paris" }, city: "Paris" });
+
+    const [parent] = dataMasking.maskResults(plan, [{ address: { city: "Paris" }, city: "Paris" }], [policy(1, "users", "address", "null")]);
+    assert.deepEqual(parent, { address: null, city: null });
+
+    const [nested] = dataMasking.maskResults(plan, [{ address: { city: "Paris" }, city: "Paris" }], [policy(1, "users", "address.city", "hash")]);
+    assert.notEqual(nested.city, "Paris");
+    assert.equal(nested.city, nested.address.city);
+  });
+
+  it("uses the strictest strategy when several policies cover a value", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT CONCAT(name, email) AS label FROM users"), [users]);
+    const policies = [policy(1, "users", "name", "partial"), policy(1, "users", "email", "null")];
+
+    assert.deepEqual(dataMasking.maskResults(plan, [{ label: "Ada a@b.c" }], policies), [{ label: null }]);
+  });
+
+  it("masks columns a mapping computes from a masked field of the mapped collection", async () => {
+    const legacy = source(3, { people: ['mail', 'given'] });
+    const mapping = {
+      id: 1,
+      name: "people as users",
+      sourceId: 3,
+      sourceCollection: "people",
+      targetId: 1,
+      targetCollection: "users",
+      bidirectional: false,
+      mappingRules: [{ sourceField: "mail", targetField: "email", type: "transform", transform: "LOWER(value)" }],
+    } as unknown as SchemaMapping;
+    const plan = await queryPlanner.plan(parseSql("SELECT email FROM users"), [users, legacy], {}, [mapping]);
+
+    const rows = dataMasking.maskResults(plan, [{ email: "ada@example.com" }], [policy(3, "people", "mail", "null")]);
+
+    assert.deepEqual(rows, [{ email: null }]);
+  });
+
+  it("leaves results alone when no policy covers the query's collections", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT email FROM users"), [users]);
+    const rows = [{ email: "ada@example.com" }];
+
+    assert.equal(dataMasking.maskResults(plan, rows, [policy(2, "orders", "total", "null")]), rows);
+  });
+});
+
+describe("dataMasking.variant", () => {
+  it("identifies a set of policies regardless of order", () => {
+    const a = policy(1, "users", "email", "null");
+    const b = policy(1, "users", "name", "hash");
+
+    assert.equal(dataMasking.variant([b, a]), dataMasking.variant([a, b]));
+    assert.equal(dataMasking.variant([]), "");
+  });
+});
@@ -0,0 +1,231 @@
+import { createHmac, randomBytes } from "crypto";
+import type { MaskingPolicy, MaskingStrategy, PublicUser } from "@shared/schema";
+import { storage } from "../storage";
+import { collectColumns, type Expression } from "./sql-parser";
+import { outputColumnName } from "./sql-evaluator";
+import { mappingTransforms } from "./mapping-transforms";
+import type { QueryPlan } from "./query-planner";
+
+// Masking policies hide source fields in query results from users whose role isn't exempt.
+// Queries run on the raw values, so filters and joins behave the same for everyone; a result
+// column is masked when its value is read from a masked field.
+
+type Row = Record<string, any>;
+
+// A source field a result column is read from
+interface FieldRef {
+  sourceId: number;
+  collection: string;
+  field: string;
+}
+
+// How to mask a value: whole when `path` is empty, else the nested field at `path`
+interface MaskRule {
+  path: string[];
+  strategy: MaskingStrategy;
+}
+
+// When several policies cover the same value, the one that reveals least wins
+const STRICTNESS: MaskingStrategy[] = ["partial", "tokenize", "hash", "null"];
+
+let generatedKey: Buffer | undefined;
+
+// Hashes and tokens are keyed so masked values can't be reversed by hashing guesses
+function maskingKey(): string | Buffer {
+  if (process.env.MASKING_KEY) {
+    return process.env.MASKING_KEY;
+  }
+  if (!generatedKey) {
+    console.warn("MASKING_KEY is not set; masked hashes and tokens will change when the server restarts");
+    generatedKey = randomBytes(32);
+  }
+  return generatedKey;
+}
+
+function digest(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return createHmac("sha256", maskingKey()).update(text).digest("hex");
+}
+
+// Keep enough to recognise a value: the first letter and domain of an email, else the last 4 characters
+function partialMask(text: string): string {
+  const email = /^([^@])[^@]*(@.+)$/.exec(text);
+  if (email) return `${email[1]}***${email[2]}`;
+  if (text.length <= 4) return "*".repeat(text.length);
+  return "*".repeat(text.length - 4) + text.slice(-4);
+}
+
+export function maskValue(value: unknown, strategy: MaskingStrategy): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (strategy) {
+    case "null":
+      return null;
+    case "hash":
+      return digest(value);
+    case "tokenize":
+      return `tok_${digest(value).slice(0, 16)}`;
+    case "partial":
+      // Objects and arrays have no partial form
+      return typeof value === "string" || typeof value === "number" ? partialMask(String(value)) : null;
+  }
+}
+
+// Mask the nested field at `path` inside a value, copying the objects on the way
+function maskPath(value: unknown, path: string[], strategy: MaskingStrategy): unknown {
+  if (path.length === 0) return maskValue(value, strategy);
+  if (Array.isArray(value)) return value.map(item => maskPath(item, path, strategy));
+  if (value === null || typeof value !== "object") return value;
+
+  const [key, ...rest] = path;
+  if (!(key in value)) return value;
+  return { ...value, [key]: maskPath((value as Row)[key], rest, strategy) };
+}
+
+function applyRules(value: unknown, rules: MaskRule[]): unknown {
+  const whole = rules.filter(rule => rule.path.length === 0);
+  if (whole.length > 0) {
+    const strategy = whole.reduce((strictest, rule) =>
+      STRICTNESS.indexOf(rule.strategy) > STRICTNESS.indexOf(strictest) ? rule.strategy : strictest, whole[0].strategy);
+    return maskValue(value, strategy);
+  }
+  return rules.reduce((masked, rule) => maskPath(masked, rule.path, rule.strategy), value);
+}
+
+// The rules for a value read from `ref`: a policy on the field or an object containing it masks the
+// whole value; a policy on a field nested inside it masks just that part
+function rulesFor(ref: FieldRef, policies: MaskingPolicy[]): MaskRule[] {
+  return policies
+    .filter(policy => policy.sourceId === ref.sourceId && policy.collection === ref.collection)
+    .flatMap(policy => {
+      const strategy = policy.strategy as MaskingStrategy;
+      if (ref.field === policy.field || ref.field.startsWith(`${policy.field}.`)) {
+        return [{ path: [], strategy }];
+      }
+      if (policy.field.startsWith(`${ref.field}.`)) {
+        return [{ path: policy.field.slice(ref.field.length + 1).split("."), strategy }];
+      }
+      return [];
+    });
+}
+
+// The columns whose values an output expression reveals; counting rows reveals none of them
+function revealedColumns(expression: Expression): { table?: string; name: string }[] {
+  if (expression.type === "function" && expression.name.toUpperCase() === "COUNT") return [];
+  return collectColumns(expression);
+}
+
+// Source fields behind each output column of a plan's result
+class ResultLineage {
+  private named: Map<string, FieldRef[]> = new Map();
+  private hasStar: boolean;
+
+  constructor(private plan: QueryPlan) {
+    this.hasStar = plan.statement.columns.some(item => item.expression.type === "star");
+
+    for (const item of plan.statement.columns) {
+      if (item.expression.type === "star") continue;
+
+      const refs = revealedColumns(item.expression).flatMap(column => {
+        const alias = plan.resolveAlias(column);
+        // Without joins, a qualifier that isn't the table's names a nested field (address.city)
+        if (!alias && column.table && !plan.joined) {
+          return this.tableRefs(plan.tables[0].alias, `${column.table}.${column.name}`);
+        }
+        // A column that can't be attributed to one table may come from any of them
+        const aliases = alias ? [alias] : plan.tables.map(table => table.alias);
+        return aliases.flatMap(tableAlias => this.tableRefs(tableAlias, column.name));
+      });
+
+      this.add(outputColumnName(item), refs);
+      // Same-named columns from different tables are output with their qualifier
+      if (!item.alias && item.expression.type === "column" && item.expression.table) {
+        this.add(`${item.expression.table}.${item.expression.name}`, refs);
+      }
+    }
+  }
+
+  refs(key: string): FieldRef[] {
+    const named = this.named.get(key);
+    if (named) return named;
+    if (!this.hasStar) return [];
+
+    // SELECT * outputs source fields as they are, qualified by table alias when tables are joined
+    if (!this.plan.joined) {
+      return this.tableRefs(this.plan.tables[0].alias, key);
+    }
+    const dot = key.indexOf(".");
+    return dot > 0 ? this.tableRefs(key.slice(0, dot), key.slice(dot + 1)) : [];
+  }
+
+  private add(key: string, refs: FieldRef[]) {
+    this.named.set(key, [...(this.named.get(key) ?? []), ...refs]);
+  }
+
+  // A mapped scan's column is read from the fields its mapping makes it from
+  private tableRefs(alias: string, field: string): FieldRef[] {
+    return this.plan.tables
+      .filter(table => table.alias === alias)
+      .flatMap(table => table.scans.flatMap(scan => {
+        const fields = scan.mapping ? mappingTransforms.inputsFor(scan.mapping.rules, scan.mapping.direction, [field]) : [field];
+        return fields.map(input => ({ sourceId: scan.source.sourceId, collection: scan.collection, field: input }));
+      }));
+  }
+}
+
+// Mask each row's columns with the rules `rulesOf` gives for them, working them out once per column
+function maskRows(rows: Row[], rulesOf: (key: string) => MaskRule[]): Row[] {
+  const rulesByKey: Map<string, MaskRule[]> = new Map();
+
+  return rows.map(row => {
+    let masked: Row | null = null;
+    for (const [key, value] of Object.entries(row)) {
+      if (key.startsWith("__")) continue;
+
+      let rules = rulesByKey.get(key);
+      if (!rules) {
+        rules = rulesOf(key);
+        rulesByKey.set(key, rules);
+      }
+      if (rules.length > 0) {
+        masked = masked ?? { ...row };
+        masked[key] = applyRules(value, rules);
+      }
+    }
+    return masked ?? row;
+  });
+}
+
+class DataMaskingService {
+  // The policies that apply to a user; every policy when there is no user (the scheduler)
+  async policiesFor(user?: PublicUser): Promise<MaskingPolicy[]> {
+    const policies = await storage.getMaskingPolicies();
+    if (!user) return policies;
+    return policies.filter(policy => !(policy.exemptRoles as string[]).includes(user.role));
+  }
+
+  // Identifies results masked by a set of policies, so stored results are kept apart per set; "" for none
+  variant(policies: MaskingPolicy[]): string {
+    return policies.map(policy => policy.id).sort((a, b) => a - b).join(",");
+  }
+
+  // Mask the result rows of a query plan
+  maskResults(plan: QueryPlan, rows: Row[], policies: MaskingPolicy[]): Row[] {
+    const scans = plan.tables.flatMap(table => table.scans);
+    const relevant = policies.filter(policy =>
+      scans.some(scan => scan.source.sourceId === policy.sourceId && scan.collection === policy.collection));
+    if (relevant.length === 0 || rows.length === 0) return rows;
+
+    const lineage = new ResultLineage(plan);
+    return maskRows(rows, key => lineage.refs(key).flatMap(ref => rulesFor(ref, relevant)));
+  }
+
+  // Mask documents as one collection of a source returns them
+  maskDocuments(sourceId: number, collection: string, rows: Row[], policies: MaskingPolicy[]): Row[] {
+    const relevant = policies.filter(policy => policy.sourceId === sourceId && policy.collection === collection);
+    if (relevant.length === 0) return rows;
+    return maskRows(rows, field => rulesFor({ sourceId, collection, field }, relevant));
+  }
+}
+
+export const dataMasking = new DataMaskingService();
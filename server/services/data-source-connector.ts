@@ -0,0 +1,96 @@
+import type { DataSource } from "@shared/schema";
+import type { z } from "zod";
+import type { SourceFilter } from "./source-filter";
+
+// Contract every data source type implements, and the metadata a connector registers with.
+
+// What a data source can evaluate itself
+export interface SourceCapabilities {
+  operators: string[];
+  or: boolean;
+  not: boolean;
+  // Most != / not-in conditions per query; unlimited when omitted
+  maxNegations?: number;
+  negationInOr: boolean;
+  projection: boolean;
+  sort: boolean;
+  limit: boolean;
+  aggregation: boolean;
+}
+
+// What the federation layer asks a source to read from one collection
+export interface SourceQueryParams {
+  filters?: SourceFilter[];
+  selectedColumns?: string[];
+  orderBy?: Record<string, 'asc' | 'desc'>;
+  limit?: number;
+}
+
+// GROUP BY columns and aggregate calls for sources that aggregate natively.
+// Keys name the fields of the returned rows.
+export interface SourceAggregation {
+  filters?: SourceFilter[];
+  groupBy: { key: string; field: string }[];
+  aggregates: { key: string; name: string; field?: string; distinct: boolean }[];
+}
+
+// One page of a source query, with the cursor that continues after it (null after the last page)
+export interface SourcePage {
+  rows: Record<string, any>[];
+  cursor: string | null;
+}
+
+export interface CollectionSchema {
+  name: string;
+  fields: {
+    name: string;
+    type: string;
+  }[];
+}
+
+export interface DataSourceConnector {
+  // Throws with the reason when the source can't be reached. With dataSource.demoMode set, the
+  // connector serves its built-in sample data instead and never opens a connection.
+  connect(dataSource: DataSource): Promise<boolean>;
+  disconnect(): Promise<boolean>;
+  // Whether reads return built-in sample data (demo mode) rather than the source's own
+  usesSampleData(): boolean;
+  // Optional: one round trip to the source, throwing when it is no longer reachable
+  ping?(): Promise<void>;
+  // Optional: the version the server reports, for connection tests; null when unknown
+  getServerVersion?(): Promise<string | null>;
+  listCollections(): Promise<string[]>;
+  getSchema(collectionName: string): Promise<CollectionSchema | null>;
+  executeQuery(collectionName: string, query: SourceQueryParams): Promise<Record<string, any>[]>;
+  // Optional: read the same rows as executeQuery in pages of about batchSize, so a large result
+  // never has to be held at once. Sources without it are read with executeQuery as one page.
+  streamQuery?(collectionName: string, query: SourceQueryParams, batchSize: number): AsyncIterable<Record<string, any>[]>;
+  // Optional: read about pageSize rows of a query (ignoring its limit), continuing from a cursor
+  // returned with an earlier page of the same query. Sources without it are paged by offset.
+  executePage?(collectionName: string, query: SourceQueryParams, pageSize: number, cursor: string | null): Promise<SourcePage>;
+  getCapabilities(): SourceCapabilities;
+  estimateRowCount(collectionName: string): Promise<number>;
+  // Only required when getCapabilities().aggregation is true; null means "aggregate in memory instead"
+  executeAggregation?(collectionName: string, aggregation: SourceAggregation): Promise<Record<string, any>[] | null>;
+}
+
+// Describes one config input so clients can render the connection form
+export interface ConnectorField {
+  name: string;
+  label: string;
+  type: 'text' | 'password' | 'number';
+  required: boolean;
+  placeholder?: string;
+  description?: string;
+}
+
+export interface ConnectorDefinition {
+  type: string;
+  displayName: string;
+  description: string;
+  configSchema: z.ZodTypeAny;
+  fields: ConnectorField[];
+  // Config keys holding credentials: encrypted at rest and never returned by the API
+  secretFields: string[];
+  create(): DataSourceConnector;
+}
@@ -0,0 +1,33 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import { fileStorage } from "./file-storage";
+
+const PREFIX = `test_expiry_${process.pid}_`;
+
+describe("fileStorage.deleteFilesOlderThan", () => {
+  afterEach(async () => {
+    for (const file of await fileStorage.listStoredFiles()) {
+      if (file.startsWith(PREFIX)) await fileStorage.deleteFile(file);
+    }
+  });
+
+  it("deletes only files with the prefix that were written before the cutoff", async () => {
+    const old = await fileStorage.storeData(`${PREFIX}old`, [1]);
+    await fileStorage.storeData(`${PREFIX}new`, [2]);
+    const other = await fileStorage.storeData(`other_${PREFIX}old`, [3]);
+    const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    fs.utimesSync(old, anHourAgo, anHourAgo);
+    fs.utimesSync(other, anHourAgo, anHourAgo);
+
+    try {
+      assert.equal(await fileStorage.deleteFilesOlderThan(PREFIX, 30 * 60 * 1000), 1);
+
+      assert.equal(await fileStorage.loadData(`${PREFIX}old`), null);
+      assert.deepEqual(await fileStorage.loadData(`${PREFIX}new`), [2]);
+      assert.deepEqual(await fileStorage.loadData(`other_${PREFIX}old`), [3]);
+    } finally {
+      await fileStorage.deleteFile(`other_${PREFIX}old`);
+    }
+  });
+});
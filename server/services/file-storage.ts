@@ -3,6 +3,9 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { parseSql } from './sql-parser';
+import { isAggregateQuery, planAggregation, aggregateRows } from './aggregation';
+import { matchesPredicate, projectRow, sortRows, distinctRows } from './sql-evaluator';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -73,6 +76,28 @@ export class FileStorageService {
     }
   }
   
+  // Delete the stored files whose names start with `prefix` and that were last written more
+  // than `maxAge` milliseconds ago; returns how many were removed
+  async deleteFilesOlderThan(prefix: string, maxAge: number): Promise<number> {
+    const cutoff = Date.now() - maxAge;
+    let removed = 0;
+
+    for (const file of (await this.listStoredFiles()).filter(file => file.startsWith(prefix))) {
+      const filePath = path.join(this.tempDir, `${file}.json`);
+      try {
+        const { mtimeMs } = await fs.promises.stat(filePath);
+        if (mtimeMs < cutoff) {
+          await fs.promises.unlink(filePath);
+          removed++;
+        }
+      } catch (error) {
+        // Another request may have removed it first
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      }
+    }
+    return removed;
+  }
+  
   // Method to find and retrieve stored data based on collection name prefix
   async getLatestDataForCollection(collectionName: string): Promise<any | null> {
     try {
@@ -103,58 +128,40 @@ export class FileStorageService {
   }
   
   // Method to execute SQL-like queries against stored data
-  async executeQueryOnStoredData(sqlQuery: string): Promise<any[]> {
+  async executeQueryOnStoredData(sqlQuery: string, params: Record<string, any> = {}): Promise<any[]> {
     try {
-      // Very simple SQL parser (for demonstration)
-      const selectMatch = sqlQuery.match(/SELECT\s+(.+?)\s+FROM\s+(.+?)(?:\s+WHERE|\s+LIMIT|$)/i);
-      if (!selectMatch) return [];
-      
-      const columnsStr = selectMatch[1].trim();
-      const collectionName = selectMatch[2].trim();
-      
+      const statement = parseSql(sqlQuery);
+
       // Get the data
-      const data = await this.getLatestDataForCollection(collectionName);
-      if (!data) return [];
-      
-      let selectedColumns: string[] = [];
-      if (columnsStr === '*') {
-        selectedColumns = Object.keys(data[0] || {});
-      } else {
-        selectedColumns = columnsStr.split(',').map(col => col.trim());
-      }
-      
-      // Apply projection
-      let results = data.map((item: any) => {
-        const result: any = {};
-        for (const column of selectedColumns) {
-          if (item[column] !== undefined) {
-            result[column] = item[column];
-          }
-        }
-        return result;
-      });
-      
+      const data = await this.getLatestDataForCollection(statement.from.name);
+      if (!data || !Array.isArray(data)) return [];
+
       // Handle WHERE clause
-      const whereMatch = sqlQuery.match(/WHERE\s+(.+?)(?:\s+LIMIT|$)/i);
-      if (whereMatch) {
-        // This is a very simplified filter parser - would need more work for real use
-        const whereCondition = whereMatch[1].trim();
-        // For now, just implement simple equality checks
-        const conditionMatch = whereCondition.match(/(.+?)\s*=\s*['"](.+?)['"]/);
-        if (conditionMatch) {
-          const field = conditionMatch[1].trim();
-          const value = conditionMatch[2].trim();
-          results = results.filter((item: any) => item[field] === value);
-        }
+      let filtered = data.filter((item: any) => matchesPredicate(statement.where, item, params));
+
+      // Handle GROUP BY, aggregates and HAVING
+      const plan = isAggregateQuery(statement) ? planAggregation(statement) : null;
+      if (plan) {
+        filtered = aggregateRows(filtered, plan, params).filter(row => matchesPredicate(plan.having, row, params));
       }
-      
-      // Handle LIMIT clause
-      const limitMatch = sqlQuery.match(/LIMIT\s+(\d+)/i);
-      if (limitMatch) {
-        const limit = parseInt(limitMatch[1], 10);
-        results = results.slice(0, limit);
+
+      // Apply projection and ORDER BY
+      let entries = filtered.map((item: any) => ({ source: item, output: projectRow(plan ? plan.columns : statement.columns, item, params) }));
+      entries = sortRows(entries, plan ? plan.orderBy : statement.orderBy, params);
+
+      let results = entries.map(entry => entry.output);
+      if (statement.distinct) {
+        results = distinctRows(results);
       }
-      
+
+      // Handle LIMIT and OFFSET clauses
+      const offset = statement.offset || 0;
+      if (statement.limit !== undefined) {
+        results = results.slice(offset, offset + statement.limit);
+      } else if (offset > 0) {
+        results = results.slice(offset);
+      }
+
       return results;
     } catch (error) {
       console.error(`Error executing query on stored data:`, error);
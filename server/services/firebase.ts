@@ -1,9 +1,11 @@
 import type { DataSource } from "@shared/schema";
-import { initializeApp, getApps, getApp, FirebaseApp, FirebaseOptions } from 'firebase/app';
+import { initializeApp, deleteApp, getApps, FirebaseApp, FirebaseOptions } from 'firebase/app';
 import { 
   getFirestore, 
   collection, 
   getDocs, 
+  getDoc,
+  doc,
   query, 
   where, 
   DocumentData, 
@@ -11,9 +13,20 @@ import {
   Firestore,
   limit,
   orderBy,
-  WhereFilterOp
+  startAfter,
+  Query,
+  QueryDocumentSnapshot,
+  and,
+  or,
+  getCountFromServer,
+  WhereFilterOp,
+  QueryFilterConstraint
 } from 'firebase/firestore';
 import { fileStorage } from "./file-storage";
+import { countNegations, isFilterCondition, matchesSourceFilter, pushDownNegation, type SourceFilter } from "./source-filter";
+import type { ConnectorDefinition, DataSourceConnector, SourceCapabilities, SourcePage } from "./data-source-connector";
+import { pageByOffset } from "./query-pagination";
+import { z } from "zod";
 
 interface FirebaseCollection {
   name: string;
@@ -27,20 +40,19 @@ interface FirebaseDocument {
   [key: string]: any;
 }
 
-export class FirebaseService {
+// Firebase app names must be unique while the apps exist
+let appCount = 0;
+
+export class FirebaseService implements DataSourceConnector {
   private dataSource: DataSource | null = null;
   private collections: Map<string, FirebaseCollection> = new Map();
   private data: Map<string, FirebaseDocument[]> = new Map();
   private isConnected: boolean = false;
-  private firebaseApp: any = null;
+  private demoMode: boolean = false;
+  private firebaseApp: FirebaseApp | null = null;
   private firestore: Firestore | null = null;
   private cachedCollections: string[] = [];
 
-  constructor() {
-    // Set up sample schema and data as fallback
-    this.setupSampleData();
-  }
-
   private setupSampleData() {
     // Users collection
     const usersCollection: FirebaseCollection = {
@@ -332,58 +344,47 @@ export class FirebaseService {
   }
 
   async connect(dataSource: DataSource): Promise<boolean> {
-    try {
-      this.dataSource = dataSource;
-      
-      // Get Firebase config from environment variables or data source
-      const firebaseConfig = {
-        apiKey: process.env.FIREBASE_API_KEY || dataSource.config?.apiKey,
-        authDomain: process.env.FIREBASE_AUTH_DOMAIN || dataSource.config?.authDomain,
-        projectId: process.env.FIREBASE_PROJECT_ID || dataSource.config?.projectId,
-        storageBucket: process.env.FIREBASE_STORAGE_BUCKET || dataSource.config?.storageBucket,
-      };
-
-      // Check if we have the required configuration
-      if (!firebaseConfig.projectId) {
-        console.warn("Missing Firebase project ID. Using sample data.");
-        this.isConnected = true; // Use sample data as fallback
-        return true;
-      }
+    this.dataSource = dataSource;
 
-      // Initialize Firebase app with a unique name to avoid conflicts
-      try {
-        // Try to get an existing app or create a new one with a unique name
-        const appName = `app-${dataSource.id || Date.now()}`;
-        try {
-          this.firebaseApp = getApp(appName);
-        } catch (e) {
-          this.firebaseApp = initializeApp(firebaseConfig, appName);
-        }
-        
-        this.firestore = getFirestore(this.firebaseApp);
-        this.isConnected = true;
-        
-        // Cache collections
-        try {
-          await this.cacheCollections();
-        } catch (error) {
-          console.warn("Failed to cache collections, will use sample data:", error);
-        }
-        
-        console.log(`Connected to Firebase with project ID: ${firebaseConfig.projectId}`);
-        return true;
-      } catch (error) {
-        console.error("Firebase initialization error:", error);
-        console.log("Using sample data as fallback");
-        this.isConnected = true; // Use sample data as fallback
-        return true;
-      }
-    } catch (error) {
-      console.error("Failed to connect to Firebase:", error);
-      console.log("Using sample data as fallback");
-      this.isConnected = true; // Use sample data as fallback
+    // Demo mode serves the built-in sample data and never talks to Firestore
+    if (dataSource.demoMode) {
+      this.setupSampleData();
+      this.demoMode = true;
+      this.isConnected = true;
+      console.log(`Firebase source ${dataSource.name} is in demo mode, using sample data`);
       return true;
     }
+
+    // Only the data source's own config; the server's environment is never borrowed
+    const config: Record<string, any> = dataSource.config ?? {};
+    const firebaseConfig = {
+      apiKey: config.apiKey,
+      authDomain: config.authDomain,
+      projectId: config.projectId,
+      storageBucket: config.storageBucket,
+    };
+
+    if (!firebaseConfig.projectId) {
+      throw new Error("Firebase project ID is required");
+    }
+
+    // Each connection gets its own app from the current config; an app left by an earlier
+    // connection would keep that connection's config
+    await this.closeApp();
+    this.firebaseApp = initializeApp(firebaseConfig, `source-${dataSource.id}-${++appCount}`);
+    this.firestore = getFirestore(this.firebaseApp);
+
+    // Reading the collections is the first request to Firestore, so it fails when Firestore can't be reached
+    try {
+      await this.cacheCollections();
+    } catch (error) {
+      await this.closeApp();
+      throw error;
+    }
+    this.isConnected = true;
+
+    console.log(`Connected to Firebase with project ID: ${firebaseConfig.projectId}`);
+    return true;
   }
   
   private async cacheCollections() {
@@ -397,6 +398,8 @@ export class FirebaseService {
       const collectionsToCheck = [...new Set([...commonCollections, ...configCollections])];
       
       this.cachedCollections = [];
+      let failures = 0;
+      let lastError: unknown = null;
       
       for (const collName of collectionsToCheck) {
         const collRef = collection(this.firestore, collName);
@@ -415,13 +418,21 @@ export class FirebaseService {
             }
           }
         } catch (e) {
-          // Collection might not exist, skip it
+          // Collection might not be readable, skip it
+          failures++;
+          lastError = e;
         }
       }
+
+      // No collection could be read at all: the project is unreachable or the credentials are wrong
+      if (failures === collectionsToCheck.length) {
+        throw lastError;
+      }
       
       console.log(`Cached ${this.cachedCollections.length} Firebase collections: ${this.cachedCollections.join(', ')}`);
     } catch (error) {
       console.error("Error caching collections:", error);
+      throw error;
     }
   }
   
@@ -447,56 +458,77 @@ export class FirebaseService {
     return fields;
   }
 
-  async disconnect(): Promise<boolean> {
-    this.dataSource = null;
+  // Delete the app so its Firestore connections and settings don't outlive the connection
+  private async closeApp(): Promise<void> {
+    const app = this.firebaseApp;
     this.firebaseApp = null;
     this.firestore = null;
+    if (app) {
+      await deleteApp(app);
+    }
+  }
+
+  async disconnect(): Promise<boolean> {
+    await this.closeApp();
+    this.dataSource = null;
     this.isConnected = false;
+    this.demoMode = false;
+    this.collections.clear();
+    this.data.clear();
+    this.cachedCollections = [];
     return true;
   }
 
-  async getCollections(): Promise<string[]> {
+  usesSampleData(): boolean {
+    return this.demoMode;
+  }
+
+  // Firestore has no ping; reading one document is the cheapest round trip
+  async ping(): Promise<void> {
+    if (this.demoMode) return;
+    if (!this.firestore) {
+      throw new Error("Not connected to Firebase");
+    }
+    const collectionName = this.cachedCollections[0] ?? 'users';
+    await getDocs(query(collection(this.firestore, collectionName), limit(1)));
+  }
+
+  async listCollections(): Promise<string[]> {
     if (!this.isConnected) {
       throw new Error("Not connected to Firebase");
     }
     
-    if (this.firestore && this.cachedCollections.length > 0) {
-      return this.cachedCollections;
+    if (this.demoMode) {
+      return Array.from(this.collections.keys());
     }
     
-    return Array.from(this.collections.keys());
+    return this.cachedCollections;
   }
 
-  async getCollectionSchema(collectionName: string): Promise<FirebaseCollection | null> {
+  async getSchema(collectionName: string): Promise<FirebaseCollection | null> {
     if (!this.isConnected) {
       throw new Error("Not connected to Firebase");
     }
     
-    // If we have a real Firestore instance and the collection is in our cached list
-    if (this.firestore && this.cachedCollections.includes(collectionName)) {
-      // If we've already cached the schema, return it
-      if (this.collections.has(collectionName)) {
-        return this.collections.get(collectionName) || null;
-      }
-      
-      // Otherwise, try to get sample data to infer schema
-      try {
-        const collRef = collection(this.firestore, collectionName);
-        const snapshot = await getDocs(query(collRef, limit(1)));
-        
-        if (!snapshot.empty && snapshot.docs.length > 0) {
-          const fields = this.extractFieldsFromDocument(snapshot.docs[0].data());
-          const schema: FirebaseCollection = { name: collectionName, fields };
-          this.collections.set(collectionName, schema);
-          return schema;
-        }
-      } catch (error) {
-        console.error(`Error getting schema for collection ${collectionName}:`, error);
-      }
+    // Sample schemas, or ones already read from Firestore
+    if (this.collections.has(collectionName)) {
+      return this.collections.get(collectionName) || null;
+    }
+    if (this.demoMode || !this.firestore) {
+      return null;
     }
     
-    // Fall back to sample data
-    return this.collections.get(collectionName) || null;
+    // Otherwise, infer the schema from the first document
+    const collRef = collection(this.firestore, collectionName);
+    const snapshot = await getDocs(query(collRef, limit(1)));
+    if (snapshot.empty) {
+      return null;
+    }
+
+    const fields = this.extractFieldsFromDocument(snapshot.docs[0].data());
+    const schema: FirebaseCollection = { name: collectionName, fields };
+    this.collections.set(collectionName, schema);
+    return schema;
   }
 
   async executeQuery(collectionName: string, queryParams: any): Promise<FirebaseDocument[]> {
@@ -506,75 +538,45 @@ export class FirebaseService {
     
     console.log(`Executing Firebase query on collection: ${collectionName}`, queryParams);
     
-    // Real query execution with Firestore
-    if (this.firestore && this.cachedCollections.includes(collectionName)) {
-      try {
-        const collRef = collection(this.firestore, collectionName);
-        let queryRef = query(collRef);
-        
-        // Apply filters from queryParams
-        if (queryParams && typeof queryParams === 'object') {
-          // Handle simple filters
-          if (queryParams.filters && Array.isArray(queryParams.filters)) {
-            for (const filter of queryParams.filters) {
-              if (filter.field && filter.operator && filter.value !== undefined) {
-                // Convert operator string to Firebase operator
-                const op = this.getFirebaseOperator(filter.operator);
-                queryRef = query(queryRef, where(filter.field, op, filter.value));
-              }
-            }
-          }
-          
-          // Handle sorting
-          if (queryParams.orderBy && typeof queryParams.orderBy === 'object') {
-            for (const field in queryParams.orderBy) {
-              const direction = queryParams.orderBy[field] === 'desc' ? 'desc' : 'asc';
-              queryRef = query(queryRef, orderBy(field, direction));
-            }
-          }
-          
-          // Handle limit
-          if (queryParams.limit && typeof queryParams.limit === 'number') {
-            queryRef = query(queryRef, limit(queryParams.limit));
-          }
-        }
-        
-        const snapshot = await getDocs(queryRef);
-        
-        // Convert to array of documents with IDs
-        const results = snapshot.docs.map(doc => ({
-          id: doc.id,
-          ...doc.data()
-        }));
-        
-        // Apply projection (selected columns) if provided
-        let finalResults = results;
-        if (queryParams && queryParams.columns && Array.isArray(queryParams.columns) && queryParams.columns.length > 0) {
-          finalResults = results.map(item => {
-            const projectedItem: any = {};
-            for (const column of queryParams.columns) {
-              if (item[column] !== undefined) {
-                projectedItem[column] = item[column];
-              }
-            }
-            return projectedItem;
-          });
-        }
-        
-        // Store results in temp file
-        const timestamp = Date.now();
-        const fileName = `firebase_${collectionName}_${timestamp}`;
-        await fileStorage.storeData(fileName, finalResults);
-        
-        return finalResults;
-      } catch (error) {
-        console.error(`Error executing query on collection ${collectionName}:`, error);
-        // Fall back to sample data on error
-        console.log("Falling back to sample data due to error");
+    if (this.demoMode) {
+      return this.querySampleData(collectionName, queryParams);
+    }
+
+    let { queryRef, localFilters } = this.buildFirestoreQuery(collectionName, queryParams);
+    
+    // Handle limit (only safe when no rows are filtered out afterwards)
+    if (queryParams && queryParams.limit && typeof queryParams.limit === 'number' && localFilters.length === 0) {
+      queryRef = query(queryRef, limit(queryParams.limit));
+    }
+    
+    const snapshot = await getDocs(queryRef);
+    
+    // Convert to array of documents with IDs
+    let results: FirebaseDocument[] = snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
+
+    if (localFilters.length > 0) {
+      results = results.filter(item => localFilters.every(filter => matchesSourceFilter(item, filter)));
+      if (queryParams.limit && typeof queryParams.limit === 'number') {
+        results = results.slice(0, queryParams.limit);
       }
     }
     
-    // Fall back to sample data
+    // Apply projection (selected columns) if provided
+    const finalResults = this.projectColumns(results, queryParams);
+    
+    // Store results in temp file
+    const timestamp = Date.now();
+    const fileName = `firebase_${collectionName}_${timestamp}`;
+    await fileStorage.storeData(fileName, finalResults);
+    
+    return finalResults;
+  }
+
+  // The query run against the built-in sample data (demo mode)
+  private async querySampleData(collectionName: string, queryParams: any): Promise<FirebaseDocument[]> {
     console.log("Using sample data for query execution");
     if (this.data.has(collectionName)) {
       let result = [...(this.data.get(collectionName) || [])];
@@ -590,33 +592,7 @@ export class FirebaseService {
       // Apply simple filtering if queryParams is provided
       if (queryParams && typeof queryParams === 'object') {
         if (queryParams.filters && Array.isArray(queryParams.filters)) {
-          result = result.filter(item => {
-            return queryParams.filters.every((filter: any) => {
-              if (!filter.field || !filter.operator || filter.value === undefined) {
-                return true;
-              }
-              
-              const itemValue = item[filter.field];
-              
-              switch (filter.operator) {
-                case '==': return itemValue === filter.value;
-                case '!=': return itemValue !== filter.value;
-                case '>': return itemValue > filter.value;
-                case '>=': return itemValue >= filter.value;
-                case '<': return itemValue < filter.value;
-                case '<=': return itemValue <= filter.value;
-                case 'like': 
-                case 'contains':
-                case 'array-contains':
-                  if (typeof itemValue === 'string' && typeof filter.value === 'string') {
-                    const pattern = filter.value.replace(/%/g, '.*');
-                    return new RegExp(pattern).test(itemValue);
-                  }
-                  return false;
-                default: return true;
-              }
-            });
-          });
+          result = result.filter(item => queryParams.filters.every((filter: SourceFilter) => matchesSourceFilter(item, filter)));
         }
         
         // Apply sorting
@@ -664,15 +640,146 @@ export class FirebaseService {
     return [];
   }
   
+  // Read the query's documents a page at a time, continuing each page after the last document
+  // of the previous one. Sample data (demo mode) arrives as a single page.
+  async *streamQuery(collectionName: string, queryParams: any, batchSize: number): AsyncGenerator<FirebaseDocument[]> {
+    if (!this.isConnected) {
+      throw new Error("Not connected to Firebase");
+    }
+
+    if (this.demoMode) {
+      yield await this.querySampleData(collectionName, queryParams);
+      return;
+    }
+
+    console.log(`Streaming Firebase query on collection: ${collectionName}`, queryParams);
+
+    const { queryRef, localFilters } = this.buildFirestoreQuery(collectionName, queryParams);
+    const maxRows = queryParams && typeof queryParams.limit === 'number' ? queryParams.limit : undefined;
+    let lastDocument: QueryDocumentSnapshot | undefined;
+    let sent = 0;
+
+    while (maxRows === undefined || sent < maxRows) {
+      // Without local filters every fetched document is returned, so never fetch past the limit
+      const pageSize = maxRows !== undefined && localFilters.length === 0 ? Math.min(batchSize, maxRows - sent) : batchSize;
+      const page = await getDocs(lastDocument
+        ? query(queryRef, startAfter(lastDocument), limit(pageSize))
+        : query(queryRef, limit(pageSize)));
+      if (page.empty) break;
+      lastDocument = page.docs[page.docs.length - 1];
+
+      let results: FirebaseDocument[] = page.docs.map(doc => ({
+        id: doc.id,
+        ...doc.data()
+      }));
+      if (localFilters.length > 0) {
+        results = results.filter(item => localFilters.every(filter => matchesSourceFilter(item, filter)));
+      }
+      if (maxRows !== undefined) {
+        results = results.slice(0, maxRows - sent);
+      }
+
+      if (results.length > 0) {
+        sent += results.length;
+        yield this.projectColumns(results, queryParams);
+      }
+      if (page.size < pageSize) break;
+    }
+  }
+
+  // One page of the query. The cursor is the id of the page's last document; the next page
+  // re-reads that document's snapshot and starts after it. Documents failing filters Firestore
+  // can't run are dropped after the fetch, so a page may hold fewer than pageSize rows.
+  async executePage(collectionName: string, queryParams: any, pageSize: number, cursor: string | null): Promise<SourcePage> {
+    if (!this.isConnected) {
+      throw new Error("Not connected to Firebase");
+    }
+
+    // Sample data is paged by offset
+    if (this.demoMode) {
+      const rows = await this.querySampleData(collectionName, { ...queryParams, limit: undefined });
+      return pageByOffset(rows, pageSize, cursor);
+    }
+
+    const { queryRef, localFilters } = this.buildFirestoreQuery(collectionName, queryParams);
+    let pageRef = query(queryRef, limit(pageSize));
+    if (cursor) {
+      const lastDocument = await getDoc(doc(this.firestore!, collectionName, cursor));
+      if (!lastDocument.exists()) {
+        throw new Error(`Cursor document ${cursor} no longer exists in ${collectionName}`);
+      }
+      pageRef = query(queryRef, startAfter(lastDocument), limit(pageSize));
+    }
+
+    const page = await getDocs(pageRef);
+    let results: FirebaseDocument[] = page.docs.map(doc => ({
+      id: doc.id,
+      ...doc.data()
+    }));
+    if (localFilters.length > 0) {
+      results = results.filter(item => localFilters.every(filter => matchesSourceFilter(item, filter)));
+    }
+
+    return {
+      rows: this.projectColumns(results, queryParams),
+      cursor: page.size === pageSize ? page.docs[page.docs.length - 1].id : null,
+    };
+  }
+
+  // Collection query with the filters and sort Firestore can run; the filters it can't
+  // are returned to be applied to the fetched documents
+  private buildFirestoreQuery(collectionName: string, queryParams: any): { queryRef: Query<DocumentData>; localFilters: SourceFilter[] } {
+    const collRef = collection(this.firestore!, collectionName);
+    let queryRef = query(collRef);
+    let localFilters: SourceFilter[] = [];
+    
+    // Apply filters from queryParams
+    if (queryParams && typeof queryParams === 'object') {
+      // Filters Firestore cannot express are applied after the fetch
+      if (queryParams.filters && Array.isArray(queryParams.filters)) {
+        const { constraints, local } = this.buildFirestoreFilters(queryParams.filters);
+        localFilters = local;
+        if (constraints.length > 0) {
+          queryRef = query(queryRef, and(...constraints));
+        }
+      }
+      
+      // Handle sorting
+      if (queryParams.orderBy && typeof queryParams.orderBy === 'object') {
+        for (const field in queryParams.orderBy) {
+          const direction = queryParams.orderBy[field] === 'desc' ? 'desc' : 'asc';
+          queryRef = query(queryRef, orderBy(field, direction));
+        }
+      }
+    }
+
+    return { queryRef, localFilters };
+  }
+
+  private projectColumns(results: FirebaseDocument[], queryParams: any): FirebaseDocument[] {
+    if (!queryParams || !Array.isArray(queryParams.columns) || queryParams.columns.length === 0) {
+      return results;
+    }
+    return results.map(item => {
+      const projectedItem: any = {};
+      for (const column of queryParams.columns) {
+        if (item[column] !== undefined) {
+          projectedItem[column] = item[column];
+        }
+      }
+      return projectedItem;
+    });
+  }
+  
   async fetchAllData(collectionName: string): Promise<FirebaseDocument[]> {
     if (!this.isConnected) {
       throw new Error("Not connected to Firebase");
     }
     
-    // Check if we have a real connection
-    if (this.firestore && this.cachedCollections.includes(collectionName)) {
+    // Outside demo mode, read Firestore
+    if (!this.demoMode) {
       try {
-        const collRef = collection(this.firestore, collectionName);
+        const collRef = collection(this.firestore!, collectionName);
         const snapshot = await getDocs(query(collRef));
         
         // Convert to array of documents with IDs
@@ -693,7 +800,7 @@ export class FirebaseService {
       }
     }
     
-    // Fall back to sample data
+    // Demo mode: sample data
     if (this.data.has(collectionName)) {
       const results = this.data.get(collectionName) || [];
       
@@ -713,10 +820,10 @@ export class FirebaseService {
       throw new Error("Not connected to Firebase");
     }
     
-    // Check if we have a real connection
-    if (this.firestore && this.cachedCollections.includes(collectionName)) {
+    // Outside demo mode, read Firestore
+    if (!this.demoMode) {
       try {
-        const collRef = collection(this.firestore, collectionName);
+        const collRef = collection(this.firestore!, collectionName);
         const snapshot = await getDocs(query(collRef));
         
         // Convert to array of documents with IDs and apply projection
@@ -745,7 +852,7 @@ export class FirebaseService {
       }
     }
     
-    // Fall back to sample data
+    // Demo mode: sample data
     if (this.data.has(collectionName)) {
       const sourceData = this.data.get(collectionName) || [];
       
@@ -771,7 +878,46 @@ export class FirebaseService {
     return [];
   }
   
-  private getFirebaseOperator(operator: string): WhereFilterOp {
+  // Split source filters into Firestore constraints and filters to evaluate in memory. Firestore has no
+  // NOT, so negations are pushed down to the conditions, and it allows only one != or not-in per query.
+  private buildFirestoreFilters(filters: SourceFilter[]): { constraints: QueryFilterConstraint[]; local: SourceFilter[] } {
+    const constraints: QueryFilterConstraint[] = [];
+    const local: SourceFilter[] = [];
+    let negations = 0;
+
+    const toConstraint = (filter: SourceFilter): QueryFilterConstraint | null => {
+      if (isFilterCondition(filter)) {
+        if (!filter.field || filter.value === undefined) return null;
+        const op = this.getFirebaseOperator(filter.operator);
+        if (op === null) return null;
+        return where(filter.field, op, filter.value);
+      }
+      if (filter.type === 'not') return null;
+
+      const children = filter.filters.map(toConstraint);
+      if (children.some(child => child === null)) return null;
+      return filter.type === 'and'
+        ? and(...(children as QueryFilterConstraint[]))
+        : or(...(children as QueryFilterConstraint[]));
+    };
+
+    for (const filter of filters) {
+      const normalized = pushDownNegation(filter);
+      const constraint = normalized ? toConstraint(normalized) : null;
+      const filterNegations = normalized ? countNegations(normalized, false) : Infinity;
+
+      if (constraint && negations + filterNegations <= 1) {
+        constraints.push(constraint);
+        negations += filterNegations;
+      } else {
+        local.push(filter);
+      }
+    }
+
+    return { constraints, local };
+  }
+
+  private getFirebaseOperator(operator: string): WhereFilterOp | null {
     switch (operator) {
       case '==': return '==';
       case '!=': return '!=';
@@ -783,7 +929,38 @@ export class FirebaseService {
       case 'not-in': return 'not-in';
       case 'array-contains': return 'array-contains';
       case 'array-contains-any': return 'array-contains-any';
-      default: return '==';
+      default: return null;
+    }
+  }
+
+  // What the federation layer can hand to Firestore natively. Firestore has no NOT, allows a single
+  // != or not-in per query (never inside or()), selects whole documents and cannot aggregate groups.
+  getCapabilities(): SourceCapabilities {
+    return {
+      operators: ['==', '!=', '<', '<=', '>', '>=', 'in', 'not-in'],
+      or: true,
+      not: false,
+      maxNegations: 1,
+      negationInOr: false,
+      projection: false,
+      sort: true,
+      limit: true,
+      aggregation: false,
+    };
+  }
+
+  async estimateRowCount(collectionName: string): Promise<number> {
+    if (this.demoMode || !this.firestore) {
+      return (this.data.get(collectionName) || []).length;
+    }
+
+    // Only an estimate for the planner, so a failed count isn't an error
+    try {
+      const snapshot = await getCountFromServer(collection(this.firestore, collectionName));
+      return snapshot.data().count;
+    } catch (error) {
+      console.error(`Error counting documents in collection ${collectionName}:`, error);
+      return 0;
     }
   }
 
@@ -791,3 +968,24 @@ export class FirebaseService {
     return this.isConnected;
   }
 }
+
+export const firebaseConnector: ConnectorDefinition = {
+  type: 'firebase',
+  displayName: 'Firebase',
+  description: 'Cloud Firestore collections',
+  configSchema: z.object({
+    projectId: z.string().min(1, "Project ID is required"),
+    apiKey: z.string().optional(),
+    authDomain: z.string().optional(),
+    storageBucket: z.string().optional(),
+    collections: z.array(z.string()).optional(),
+  }).passthrough(),
+  fields: [
+    { name: 'projectId', label: 'Project ID', type: 'text', required: true, placeholder: 'my-project-12345', description: 'Your Firebase project identifier' },
+    { name: 'apiKey', label: 'API Key', type: 'password', required: false, placeholder: 'AIzaSyC...' },
+    { name: 'authDomain', label: 'Auth Domain', type: 'text', required: false, placeholder: 'my-project.firebaseapp.com' },
+  ],
+  // serviceAccount: a service account key, when one is stored with the config through the API
+  secretFields: ['apiKey', 'serviceAccount'],
+  create: () => new FirebaseService(),
+};
@@ -0,0 +1,72 @@
+import type { DataSource, SourceHealthCheck } from "@shared/schema";
+import { storage } from "../storage";
+import { queryFederationService } from "./query-federation";
+
+// How often every data source is checked
+const CHECK_INTERVAL = 5 * 60 * 1000;
+
+// How long connectivity history is kept
+const HISTORY_DAYS = 7;
+
+// Checks every data source on an interval through the federation service, which keeps each
+// source's status current, and records the outcome and latency as connectivity history.
+class HealthChecker {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+
+  async start() {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.checkAll().catch(error => console.error("Error checking data source health:", error));
+    }, CHECK_INTERVAL);
+    this.timer.unref();
+
+    await this.checkAll();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async checkAll() {
+    if (this.checking) return;
+    this.checking = true;
+
+    try {
+      const sources = await storage.getDataSources();
+      for (const source of sources) {
+        await this.checkSource(source);
+      }
+
+      await storage.deleteHealthChecks({ before: new Date(Date.now() - HISTORY_DAYS * 24 * 60 * 60 * 1000) });
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  async checkSource(source: DataSource): Promise<SourceHealthCheck> {
+    const startTime = Date.now();
+    try {
+      await queryFederationService.checkSource(source.id);
+      return await storage.createHealthCheck({
+        sourceId: source.id,
+        status: "connected",
+        latencyMs: Date.now() - startTime,
+        error: null,
+      });
+    } catch (error) {
+      return storage.createHealthCheck({
+        sourceId: source.id,
+        status: "error",
+        latencyMs: null,
+        error: (error as Error).message,
+      });
+    }
+  }
+}
+
+export const healthChecker = new HealthChecker();
@@ -0,0 +1,190 @@
+import type { Expression, JoinKind } from "./sql-parser";
+import { collectColumns, splitConjunction, joinConjunction } from "./sql-parser";
+import { evaluateExpression, matchesPredicate, type Row } from "./sql-evaluator";
+
+// In-memory join operators for rows fetched from different data sources.
+// Rows entering a join are qualified with their table alias ("u.uid"), so columns
+// with the same name in different collections never collide.
+
+export type JoinStrategy = 'hash' | 'nested-loop';
+
+export interface JoinResult {
+  rows: Row[];
+  strategy: JoinStrategy;
+}
+
+interface EquiJoinKeys {
+  left: Expression[];
+  right: Expression[];
+  residual?: Expression;
+}
+
+// Prefix every field of a document with its table alias
+export function qualifyRows(rows: Row[], alias: string): Row[] {
+  return rows.map(row => {
+    const qualified: Row = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (key.startsWith('__')) continue;
+      qualified[`${alias}.${key}`] = value;
+    }
+    return qualified;
+  });
+}
+
+// Aliases of the tables an expression reads from; null marks a column that could not be attributed
+function referencedAliases(expression: Expression, resolveAlias: (column: { table?: string; name: string }) => string | null): Set<string | null> {
+  return new Set(collectColumns(expression).map(resolveAlias));
+}
+
+// Pull "left.col = right.col" terms out of an ON condition so the join can hash on them
+function extractEquiJoinKeys(
+  on: Expression | undefined,
+  leftAliases: Set<string>,
+  rightAlias: string,
+  resolveAlias: (column: { table?: string; name: string }) => string | null,
+): EquiJoinKeys {
+  const keys: EquiJoinKeys = { left: [], right: [] };
+  const residualTerms: Expression[] = [];
+
+  for (const term of splitConjunction(on)) {
+    if (term.type === 'comparison' && term.operator === '=') {
+      const leftSide = referencedAliases(term.left, resolveAlias);
+      const rightSide = referencedAliases(term.right, resolveAlias);
+      const onlyLeft = (aliases: Set<string | null>) => aliases.size > 0 && Array.from(aliases).every(alias => alias !== null && leftAliases.has(alias));
+      const onlyRight = (aliases: Set<string | null>) => aliases.size === 1 && aliases.has(rightAlias);
+
+      if (onlyLeft(leftSide) && onlyRight(rightSide)) {
+        keys.left.push(term.left);
+        keys.right.push(term.right);
+        continue;
+      }
+      if (onlyRight(leftSide) && onlyLeft(rightSide)) {
+        keys.left.push(term.right);
+        keys.right.push(term.left);
+        continue;
+      }
+    }
+    residualTerms.push(term);
+  }
+
+  keys.residual = joinConjunction(residualTerms);
+  return keys;
+}
+
+// Hash key for a tuple of join values; null never matches anything
+function hashKey(values: any[]): string | null {
+  if (values.some(value => value === null || value === undefined)) return null;
+  return JSON.stringify(values.map(value => {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'object' && typeof value.toString === 'function' && value.constructor?.name === 'ObjectId') {
+      return value.toString();
+    }
+    return value;
+  }));
+}
+
+// Null-padded copy of a row shape, used for the unmatched side of an outer join
+function nullRow(columns: Set<string>): Row {
+  const row: Row = {};
+  columns.forEach(column => { row[column] = null; });
+  return row;
+}
+
+function columnsOf(rows: Row[]): Set<string> {
+  const columns = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) columns.add(key);
+  }
+  return columns;
+}
+
+// Hash join when the ON condition has equality keys between the two sides, nested loop otherwise
+export function planJoinStrategy(
+  kind: JoinKind,
+  on: Expression | undefined,
+  leftAliases: Set<string>,
+  rightAlias: string,
+  resolveAlias: (column: { table?: string; name: string }) => string | null,
+): JoinStrategy {
+  if (kind === 'CROSS') return 'nested-loop';
+  return extractEquiJoinKeys(on, leftAliases, rightAlias, resolveAlias).left.length > 0 ? 'hash' : 'nested-loop';
+}
+
+export function executeJoin(
+  leftRows: Row[],
+  rightRows: Row[],
+  kind: JoinKind,
+  on: Expression | undefined,
+  leftAliases: Set<string>,
+  rightAlias: string,
+  resolveAlias: (column: { table?: string; name: string }) => string | null,
+  params: Record<string, any> = {},
+): JoinResult {
+  const keys = extractEquiJoinKeys(on, leftAliases, rightAlias, resolveAlias);
+  const strategy: JoinStrategy = kind !== 'CROSS' && keys.left.length > 0 ? 'hash' : 'nested-loop';
+
+  const leftColumns = columnsOf(leftRows);
+  const rightColumns = columnsOf(rightRows);
+  const keepUnmatchedLeft = kind === 'LEFT' || kind === 'FULL';
+  const keepUnmatchedRight = kind === 'RIGHT' || kind === 'FULL';
+  const matchedRight = new Set<number>();
+  const rows: Row[] = [];
+
+  if (strategy === 'hash') {
+    // Build on the right input, probe with the left input
+    const buckets = new Map<string, number[]>();
+    rightRows.forEach((row, index) => {
+      const key = hashKey(keys.right.map(expression => evaluateExpression(expression, row, params)));
+      if (key === null) return;
+      const bucket = buckets.get(key);
+      if (bucket) {
+        bucket.push(index);
+      } else {
+        buckets.set(key, [index]);
+      }
+    });
+
+    for (const leftRow of leftRows) {
+      const key = hashKey(keys.left.map(expression => evaluateExpression(expression, leftRow, params)));
+      let matched = false;
+
+      for (const index of (key !== null && buckets.get(key)) || []) {
+        const combined = { ...leftRow, ...rightRows[index] };
+        if (!matchesPredicate(keys.residual, combined, params)) continue;
+        rows.push(combined);
+        matchedRight.add(index);
+        matched = true;
+      }
+
+      if (!matched && keepUnmatchedLeft) {
+        rows.push({ ...leftRow, ...nullRow(rightColumns) });
+      }
+    }
+  } else {
+    for (const leftRow of leftRows) {
+      let matched = false;
+
+      rightRows.forEach((rightRow, index) => {
+        const combined = { ...leftRow, ...rightRow };
+        if (kind !== 'CROSS' && !matchesPredicate(on, combined, params)) return;
+        rows.push(combined);
+        matchedRight.add(index);
+        matched = true;
+      });
+
+      if (!matched && keepUnmatchedLeft) {
+        rows.push({ ...leftRow, ...nullRow(rightColumns) });
+      }
+    }
+  }
+
+  if (keepUnmatchedRight) {
+    rightRows.forEach((rightRow, index) => {
+      if (!matchedRight.has(index)) {
+        rows.push({ ...nullRow(leftColumns), ...rightRow });
+      }
+    });
+  }
+
+  return { rows, strategy };
+}
@@ -0,0 +1,198 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MappingRule } from "@shared/schema";
+import { mappingTransforms, TransformError } from "./mapping-transforms";
+import { formatExpression } from "./sql-parser";
+
+const transform = (sourceField: string, targetField: string, text: string, inverse?: string): MappingRule =>
+  inverse === undefined
+    ? { sourceField, targetField, type: 'transform', transform: text }
+    : { sourceField, targetField, type: 'transform', transform: text, inverse };
+
+describe("mappingTransforms.evaluate", () => {
+  it("binds value to the rule's field and other names to the document's fields", () => {
+    assert.equal(mappingTransforms.evaluate("CONCAT(firstName, ' ', UPPER(value))", "lovelace", { firstName: "Ada" }), "Ada LOVELACE");
+    assert.equal(mappingTransforms.evaluate("address.city", null, { address: { city: "Paris" } }), "Paris");
+    assert.equal(mappingTransforms.evaluate("value * 100 + 1", 2), 201);
+  });
+
+  it("keeps the named transforms mappings used before expressions", () => {
+    assert.equal(mappingTransforms.evaluate("uppercase", "abc"), "ABC");
+    assert.equal(mappingTransforms.evaluate("to-number", "42"), 42);
+    assert.deepEqual(mappingTransforms.evaluate("convertTimestampToDate", { _seconds: 1, _nanoseconds: 500000000 }), new Date(1500));
+  });
+
+  it("runs the string, date, conditional and lookup functions", () => {
+    assert.equal(mappingTransforms.evaluate("INITCAP(value)", "hello wORLD-wide"), "Hello World-Wide");
+    assert.equal(mappingTransforms.evaluate("SPLIT_PART(value, '@', 2)", "ada@example.com"), "example.com");
+    assert.equal(mappingTransforms.evaluate("PAD_START(value, 5, '0')", 42), "00042");
+    assert.equal(mappingTransforms.evaluate("FORMAT_DATE(value, 'YYYY-MM-DD HH:mm')", "2024-02-29T13:05:00Z"), "2024-02-29 13:05");
+    assert.equal(mappingTransforms.evaluate("DATE_PART(DATE_ADD(value, 1, 'months'), 'month')", "2024-01-15T00:00:00Z"), 2);
+    assert.equal(mappingTransforms.evaluate("IF(value > 10, 'big', 'small')", 11), "big");
+    assert.equal(mappingTransforms.evaluate("LOOKUP(value, 'A', 'active', 'I', 'inactive', 'unknown')", "X"), "unknown");
+    assert.equal(mappingTransforms.evaluate("REGEX_REPLACE(value, '[^0-9]', '')", "+1 (555) 010-9999"), "15550109999");
+    assert.equal(mappingTransforms.evaluate("REGEX_EXTRACT(value, '([a-z]+)-([0-9]+)', 2)", "order-381"), "381");
+  });
+
+  it("passes NULL through functions that take one", () => {
+    assert.equal(mappingTransforms.evaluate("UPPER(value)", undefined), null);
+    assert.equal(mappingTransforms.evaluate("COALESCE(value, 'none')", null), "none");
+  });
+
+  it("throws a TransformError for values a function can't convert", () => {
+    assert.throws(() => mappingTransforms.evaluate("TO_NUMBER(value)", "abc"), TransformError);
+    assert.throws(() => mappingTransforms.evaluate("TO_DATE(value)", "not a date"), /Cannot convert 'not a date' to a date/);
+    assert.throws(() => mappingTransforms.evaluate("TO_BOOLEAN(value)", "maybe"), /to a boolean/);
+  });
+});
+
+describe("mappingTransforms.compile", () => {
+  it("collects the document fields a transform reads besides value", () => {
+    assert.deepEqual(mappingTransforms.compile("CONCAT(first, ' ', last, value)").fields, ["first", "last"]);
+  });
+
+  it("only allows the transform functions", () => {
+    assert.throws(() => mappingTransforms.compile("EVAL(value)"), /Unknown function EVAL/);
+    assert.throws(() => mappingTransforms.compile("COUNT(value)"), /Unknown function COUNT/);
+    assert.throws(() => mappingTransforms.compile("UPPER(DISTINCT value)"), /UPPER doesn't take DISTINCT/);
+  });
+
+  it("rejects parameters and '*'", () => {
+    assert.throws(() => mappingTransforms.compile("CONCAT(value, :secret)"), /can't use parameters \(:secret\)/);
+    assert.throws(() => mappingTransforms.compile("COALESCE(*)"), /can't use '\*'/);
+  });
+
+  it("checks argument counts", () => {
+    assert.throws(() => mappingTransforms.compile("UPPER(value, 1)"), /UPPER takes 1 argument, not 2/);
+    assert.throws(() => mappingTransforms.compile("SUBSTRING(value)"), /SUBSTRING takes 2 to 3 arguments, not 1/);
+    assert.throws(() => mappingTransforms.compile("CONCAT_WS(value)"), /CONCAT_WS takes at least 2 arguments, not 1/);
+  });
+
+  it("reports syntax errors and empty or oversized transforms as TransformErrors", () => {
+    assert.throws(() => mappingTransforms.compile("UPPER(value"), (error: unknown) => error instanceof TransformError && /line 1/.test(error.message));
+    assert.throws(() => mappingTransforms.compile("   "), /Transform is empty/);
+    assert.throws(() => mappingTransforms.compile(`CONCAT(value, '${"x".repeat(2000)}')`), /limited to 2000 characters/);
+  });
+
+  it("refuses regular expressions that could backtrack catastrophically", () => {
+    for (const pattern of ["(a+)+$", "(a|aa)+$", "(a|a?)+", "((ab)*c?)*", "(?:x|y){2,}", "^(\\w+\\s?)*$"]) {
+      assert.throws(() => mappingTransforms.evaluate(`REGEX_MATCH(value, '${pattern}')`, "aaaa"), /repeats a group containing a quantifier or alternative/, pattern);
+    }
+    assert.throws(() => mappingTransforms.evaluate(`REGEX_MATCH(value, '${"a".repeat(201)}')`, "a"), /limited to 200 characters/);
+    assert.throws(() => mappingTransforms.evaluate("REGEX_MATCH(value, 'a', 'y')", "a"), /Unsupported regular expression flags/);
+    assert.throws(() => mappingTransforms.evaluate("PAD_END(value, 5000)", "a"), /Padding is limited to 1000 characters/);
+  });
+
+  it("accepts regular expressions that repeat only single characters, classes and plain groups", () => {
+    assert.equal(mappingTransforms.evaluate("REGEX_MATCH(value, '^(ab)+[|+]*(a|b)?\\(x+\\)+$')", "abab|+b(xx)"), true);
+    assert.equal(mappingTransforms.evaluate("REGEX_EXTRACT(value, '(?<year>[0-9]{4})-([0-9]{2})', 1)", "2024-06"), "2024");
+  });
+});
+
+describe("mappingTransforms.apply", () => {
+  it("maps each document and reports rules that fail on a row without dropping it", () => {
+    const rules: MappingRule[] = [
+      { sourceField: "id", targetField: "userId", type: "direct" },
+      transform("age", "ageYears", "TO_NUMBER(value)"),
+    ];
+
+    const { rows, errors } = mappingTransforms.apply([{ id: 1, age: "30" }, { id: 2, age: "old" }, { id: 3 }], rules);
+
+    assert.deepEqual(rows, [{ userId: 1, ageYears: 30 }, { userId: 2, ageYears: null }, { userId: 3 }]);
+    assert.deepEqual(errors, [{ row: 1, sourceField: "age", targetField: "ageYears", error: "Cannot convert 'old' to a number" }]);
+  });
+
+  it("runs a rule when only the other fields its transform reads are present", () => {
+    const rules = [transform("fullName", "name", "CONCAT(first, ' ', last)")];
+    assert.deepEqual(mappingTransforms.apply([{ first: "Ada", last: "Lovelace" }], rules).rows, [{ name: "Ada Lovelace" }]);
+  });
+
+  it("reads only a document's own fields, not inherited ones", () => {
+    const rules: MappingRule[] = [
+      { sourceField: "constructor", targetField: "kind", type: "direct" },
+      { sourceField: "address.toString", targetField: "text", type: "direct" },
+      transform("id", "label", "COALESCE(hasOwnProperty, 'none')"),
+    ];
+
+    assert.deepEqual(mappingTransforms.apply([{ id: 1, address: { city: "Paris" } }], rules).rows, [{ label: "none" }]);
+  });
+
+  it("lists the inputs a rule needs", () => {
+    const rules = [transform("fullName", "name", "CONCAT(first, ' ', last)"), { sourceField: "id", targetField: "key", type: "direct" as const }];
+    assert.deepEqual(mappingTransforms.inputsFor(rules, "source-to-target", ["name"]), ["fullName", "first", "last"]);
+    assert.deepEqual(mappingTransforms.inputsFor(rules, "source-to-target", ["key.part"]), ["id"]);
+    assert.deepEqual([...mappingTransforms.renamedFields(rules, "source-to-target")], [["key", "id"]]);
+  });
+});
+
+describe("mappingTransforms.inverse", () => {
+  const roundTrip = (text: string, value: any) => {
+    const rule = transform("source", "target", text);
+    const mapped = mappingTransforms.apply([{ source: value }], [rule]).rows[0];
+    return mappingTransforms.apply([mapped], [rule], "target-to-source").rows[0].source;
+  };
+
+  it("derives inverses through arithmetic and invertible calls", () => {
+    assert.equal(roundTrip("value * 100 + 5", 3.5), 3.5);
+    assert.equal(roundTrip("10 - value", 4), 4);
+    assert.equal(roundTrip("-(value / 4)", 8), 8);
+    assert.equal(roundTrip("CONCAT('user-', value, '@corp')", "ada"), "ada");
+    assert.deepEqual(roundTrip("DATE_ADD(value, 2, 'hours')", new Date("2024-01-01T00:00:00Z")), new Date("2024-01-01T00:00:00Z"));
+    assert.deepEqual(roundTrip("EPOCH_MILLIS(value)", new Date("2024-01-01T00:00:00Z")), new Date("2024-01-01T00:00:00Z"));
+    assert.equal(roundTrip("LOOKUP(value, 'A', 'active', 'I', 'inactive')", "I"), "I");
+  });
+
+  it("prefers the rule's own inverse and the named transforms' inverses", () => {
+    assert.equal(formatInverse(transform("name", "label", "UPPER(value)", "LOWER(value)")), "LOWER(value)");
+    assert.equal(formatInverse(transform("createdAt", "created", "convertTimestampToDate")), "TO_TIMESTAMP(value)");
+  });
+
+  it("explains why a transform can't be reversed", () => {
+    const reasons: [string, RegExp][] = [
+      ["UPPER(value)", /UPPER has no inverse/],
+      ["value * 0", /value \* 0 can't be reversed/],
+      ["value + value", /can't be reversed/],
+      ["CONCAT(value, suffix)", /combines other fields \(suffix\)/],
+      ["LOOKUP(value, 'A', 'x', 'B', 'x')", /can't be reversed/],
+      ["LOOKUP(value, 'A', 'x', 'other')", /can't be reversed/],
+      ["TO_NUMBER(value)", /TO_NUMBER has no inverse/],
+      ["DATE_ADD(TO_DATE(value), 2, 'hours')", /TO_DATE has no inverse/],
+      ["DATE_ADD(value, 1, 'month')", /can't be reversed/],
+    ];
+    for (const [text, reason] of reasons) {
+      assert.throws(() => mappingTransforms.inverse(transform("a", "b", text)), reason, text);
+    }
+  });
+
+  it("leaves lossy conversions to an explicit inverse, which can't restore what they dropped", () => {
+    const leadingZeros = transform("code", "number", "TO_NUMBER(value)", "TO_STRING(value)");
+    const [number] = mappingTransforms.apply([{ code: "007" }], [leadingZeros]).rows;
+    assert.deepEqual(number, { number: 7 });
+    assert.deepEqual(mappingTransforms.apply([number], [leadingZeros], "target-to-source").rows, [{ code: "7" }]);
+
+    const dateFormat = transform("day", "date", "TO_DATE(value)", "TO_STRING(value)");
+    const [date] = mappingTransforms.apply([{ day: "2024-01-31" }], [dateFormat]).rows;
+    assert.deepEqual(mappingTransforms.apply([date], [dateFormat], "target-to-source").rows, [{ day: "2024-01-31T00:00:00.000Z" }]);
+
+    const monthLater = mappingTransforms.evaluate("DATE_ADD(value, 1, 'month')", new Date("2024-01-31T00:00:00Z"));
+    assert.notDeepEqual(mappingTransforms.evaluate("DATE_ADD(value, -1, 'month')", monthLater), new Date("2024-01-31T00:00:00Z"));
+  });
+
+  it("rejects two-way mappings with a rule that has no inverse, naming the rule", () => {
+    const rules = [transform("name", "label", "UPPER(value)")];
+
+    assert.doesNotThrow(() => mappingTransforms.validateRules(rules));
+    assert.throws(() => mappingTransforms.validateRules(rules, true), /Rule name → label can't be reversed for a two-way mapping: UPPER has no inverse/);
+    assert.throws(() => mappingTransforms.apply([{ label: "X" }], rules, "target-to-source"), /Rule name → label can't be reversed/);
+  });
+
+  it("maps direct rules back by name", () => {
+    const rules: MappingRule[] = [{ sourceField: "id", targetField: "userId", type: "direct" }];
+    assert.deepEqual(mappingTransforms.apply([{ userId: 7 }], rules, "target-to-source").rows, [{ id: 7 }]);
+    assert.deepEqual(mappingTransforms.inputsFor(rules, "target-to-source", ["id"]), ["userId"]);
+  });
+});
+
+function formatInverse(rule: MappingRule): string {
+  return formatExpression(mappingTransforms.inverse(rule).expression);
+}
@@ -0,0 +1,724 @@
+import type { MappingDirection, MappingRule } from "@shared/schema";
+import { collectColumns, formatExpression, parseExpression, SqlParseError, type Expression } from "./sql-parser";
+import { compareValues, evaluateExpression, SCALAR_FUNCTIONS, type Row, type ScalarFunction } from "./sql-evaluator";
+
+// Transforms are expressions in the SQL dialect's expression syntax, evaluated against one
+// document: `value` is the rule's source field and any other name reads that field of the
+// document, so `CONCAT(firstName, ' ', lastName)` combines two fields. Only the functions
+// below can be called; there are no parameters, subqueries or host code.
+//
+// A mapping used in both directions needs the inverse of each transform. A rule can give one
+// itself (`inverse`, an expression over the target field's value); otherwise it is derived from
+// the inverses the functions declare, which only works while `value` passes through a chain of
+// invertible calls with constant other arguments.
+
+export class TransformError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransformError';
+  }
+}
+
+// A rule failing on one document; the document is still mapped with the target field set to null
+export interface MappingRowError {
+  row: number;
+  sourceField: string;
+  targetField: string;
+  error: string;
+}
+
+export interface MappedRows {
+  rows: Row[];
+  errors: MappingRowError[];
+}
+
+interface CompiledTransform {
+  expression: Expression;
+  // Document fields the transform reads besides `value`
+  fields: string[];
+}
+
+// Undo a call: given an expression for the call's result, an expression for the argument at
+// `position`, the only one that reads `value`; null when that argument can't be recovered
+type Inverse = (result: Expression, args: Expression[], position: number) => Expression | null;
+
+interface TransformFunction {
+  minArgs: number;
+  maxArgs: number;
+  apply: ScalarFunction;
+  inverse?: Inverse;
+}
+
+// The name transforms use for the rule's own source field
+const VALUE = 'value';
+
+const MAX_TRANSFORM_LENGTH = 2000;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_PAD_LENGTH = 1000;
+
+// The fixed transform names mappings used before expressions, kept working as their equivalents
+const NAMED_TRANSFORMS: Record<string, string> = {
+  'uppercase': 'UPPER(value)',
+  'lowercase': 'LOWER(value)',
+  'trim': 'TRIM(value)',
+  'to-number': 'TO_NUMBER(value)',
+  'to-string': 'TO_STRING(value)',
+  'to-date': 'TO_DATE(value)',
+  'convertTimestampToDate': 'TO_DATE(value)',
+};
+
+// Named transforms whose inverse isn't the one their expression would get
+const NAMED_INVERSES: Record<string, string> = {
+  'convertTimestampToDate': 'TO_TIMESTAMP(value)',
+};
+
+function isNullish(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+function describe(value: any): string {
+  return typeof value === 'string' ? `'${value}'` : JSON.stringify(value);
+}
+
+function toNumber(value: any): number {
+  const number = typeof value === 'string' && value.trim() === '' ? NaN : Number(value);
+  if (isNaN(number)) {
+    throw new TransformError(`Cannot convert ${describe(value)} to a number`);
+  }
+  return number;
+}
+
+// Dates arrive as Date objects, epoch milliseconds, date strings or Firestore timestamps
+// ({ seconds, nanoseconds }, or { _seconds, _nanoseconds } once serialized)
+function toDate(value: any): Date {
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === 'number' || typeof value === 'string') {
+    date = new Date(value);
+  } else if (value !== null && typeof value === 'object' && typeof value.toDate === 'function') {
+    date = value.toDate();
+  } else if (value !== null && typeof value === 'object' && (typeof value.seconds === 'number' || typeof value._seconds === 'number')) {
+    const seconds = value.seconds ?? value._seconds;
+    const nanoseconds = value.nanoseconds ?? value._nanoseconds ?? 0;
+    date = new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6));
+  } else {
+    date = new Date(NaN);
+  }
+  if (isNaN(date.getTime())) {
+    throw new TransformError(`Cannot convert ${describe(value)} to a date`);
+  }
+  return date;
+}
+
+const DATE_UNITS: Record<string, number> = {
+  second: 1000,
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+};
+
+function dateUnit(unit: any): string {
+  const name = String(unit).toLowerCase().replace(/s$/, '');
+  if (!(name in DATE_UNITS) && name !== 'month' && name !== 'year') {
+    throw new TransformError(`Unknown date unit ${describe(unit)}`);
+  }
+  return name;
+}
+
+function pad(number: number, width = 2): string {
+  return String(number).padStart(width, '0');
+}
+
+// Format a date in UTC with YYYY, MM, DD, HH, mm, ss and SSS placeholders
+function formatDate(date: Date, pattern: string): string {
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss|SSS/g, token => {
+    switch (token) {
+      case 'YYYY': return pad(date.getUTCFullYear(), 4);
+      case 'MM': return pad(date.getUTCMonth() + 1);
+      case 'DD': return pad(date.getUTCDate());
+      case 'HH': return pad(date.getUTCHours());
+      case 'mm': return pad(date.getUTCMinutes());
+      case 'ss': return pad(date.getUTCSeconds());
+      default: return pad(date.getUTCMilliseconds(), 3);
+    }
+  });
+}
+
+function datePart(date: Date, part: any): number {
+  switch (String(part).toLowerCase()) {
+    case 'year': return date.getUTCFullYear();
+    case 'month': return date.getUTCMonth() + 1;
+    case 'day': return date.getUTCDate();
+    case 'hour': return date.getUTCHours();
+    case 'minute': return date.getUTCMinutes();
+    case 'second': return date.getUTCSeconds();
+    case 'weekday': return date.getUTCDay();
+    default: throw new TransformError(`Unknown date part ${describe(part)}`);
+  }
+}
+
+function addToDate(date: Date, amount: number, unit: string): Date {
+  if (unit === 'month' || unit === 'year') {
+    const result = new Date(date.getTime());
+    result.setUTCMonth(result.getUTCMonth() + amount * (unit === 'year' ? 12 : 1));
+    return result;
+  }
+  return new Date(date.getTime() + amount * DATE_UNITS[unit]);
+}
+
+const regexCache: Map<string, RegExp> = new Map();
+
+// Whether a pattern repeats a group that can match the same text in more than one way: a group
+// holding a quantifier or an alternative, followed by *, + or {n,}, as in (a+)+, (a|aa)+ and
+// (a|a?)+. Those are what backtrack catastrophically; some harmless ones such as (cat|dog)+ are
+// refused too.
+function repeatsAmbiguousGroup(source: string): boolean {
+  // For each open group, whether it holds a quantifier or an alternative
+  const groups: boolean[] = [];
+  let closedGroup = false;
+  let inClass = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const afterGroup = closedGroup;
+    closedGroup = false;
+
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // (?:, (?= and (?<name> open groups; that ? is no quantifier
+      if (source[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const ambiguous = groups.pop() ?? false;
+      if (ambiguous && groups.length > 0) groups[groups.length - 1] = true;
+      closedGroup = ambiguous;
+    } else if (char === '|' || char === '*' || char === '+' || char === '?' || (char === '{' && /^\{\d*,/.test(source.slice(i)))) {
+      if (afterGroup && char !== '|' && char !== '?') return true;
+      if (groups.length > 0) groups[groups.length - 1] = true;
+    }
+  }
+  return false;
+}
+
+// Patterns are user input, so they are kept short and may not repeat a group that can match
+// the same text in more than one way, the usual cause of catastrophic backtracking
+function toRegExp(pattern: any, flags: any = ''): RegExp {
+  const source = String(pattern);
+  const flagText = isNullish(flags) ? '' : String(flags);
+  const key = `${flagText}/${source}`;
+  const cached = regexCache.get(key);
+  if (cached) return cached;
+
+  if (source.length > MAX_PATTERN_LENGTH) {
+    throw new TransformError(`Regular expressions are limited to ${MAX_PATTERN_LENGTH} characters`);
+  }
+  if (repeatsAmbiguousGroup(source)) {
+    throw new TransformError(`Regular expression ${describe(source)} repeats a group containing a quantifier or alternative`);
+  }
+  if (!/^[gimsu]*$/.test(flagText)) {
+    throw new TransformError(`Unsupported regular expression flags ${describe(flagText)}`);
+  }
+  let regex: RegExp;
+  try {
+    regex = new RegExp(source, flagText);
+  } catch (error) {
+    throw new TransformError(`Invalid regular expression ${describe(source)}: ${(error as Error).message}`);
+  }
+  regexCache.set(key, regex);
+  return regex;
+}
+
+function padTo(text: any, length: any, fill: any): [string, number, string] {
+  const target = toNumber(length);
+  if (target > MAX_PAD_LENGTH) {
+    throw new TransformError(`Padding is limited to ${MAX_PAD_LENGTH} characters`);
+  }
+  return [String(text), target, isNullish(fill) ? ' ' : String(fill)];
+}
+
+function nullable(apply: ScalarFunction): ScalarFunction {
+  return args => isNullish(args[0]) ? null : apply(args);
+}
+
+function fn(minArgs: number, maxArgs: number, apply: ScalarFunction, inverse?: Inverse): TransformFunction {
+  return { minArgs, maxArgs, apply, inverse };
+}
+
+function call(name: string, ...args: Expression[]): Expression {
+  return { type: 'function', name, args, distinct: false };
+}
+
+function literal(value: string | number): Expression {
+  return { type: 'literal', value };
+}
+
+// Calls of one argument undone by another function
+function inverseCall(name: string): Inverse {
+  return result => call(name, result);
+}
+
+// CONCAT of `value` and constant text: cut the constant prefix and suffix off the result
+const invertConcat: Inverse = (result, args, position) => {
+  const texts = args.map(arg => arg.type === 'literal' ? arg.value : undefined);
+  if (texts.some((text, index) => index !== position && (typeof text !== 'string' && typeof text !== 'number'))) return null;
+
+  const prefix = texts.slice(0, position).join('').length;
+  const suffix = texts.slice(position + 1).join('').length;
+  const length: Expression = {
+    type: 'arithmetic',
+    operator: '-',
+    left: call('LENGTH', result),
+    right: literal(prefix + suffix),
+  };
+  return call('SUBSTRING', result, literal(prefix + 1), length);
+};
+
+// A LOOKUP without a default whose results are all different can be looked up backwards
+const invertLookup: Inverse = (result, [, ...table], position) => {
+  if (position !== 0 || table.length % 2 === 1) return null;
+  if (table.some(entry => entry.type !== 'literal')) return null;
+
+  const results = table.filter((_, index) => index % 2 === 1).map(entry => JSON.stringify((entry as { value: unknown }).value));
+  if (new Set(results).size !== results.length) return null;
+
+  const reversed: Expression[] = [];
+  for (let i = 0; i < table.length; i += 2) {
+    reversed.push(table[i + 1], table[i]);
+  }
+  return call('LOOKUP', result, ...reversed);
+};
+
+// Most functions return NULL for a NULL first argument
+const TRANSFORM_FUNCTIONS: Record<string, TransformFunction> = {
+  // Strings
+  UPPER: fn(1, 1, SCALAR_FUNCTIONS.UPPER),
+  LOWER: fn(1, 1, SCALAR_FUNCTIONS.LOWER),
+  TRIM: fn(1, 1, SCALAR_FUNCTIONS.TRIM),
+  LENGTH: fn(1, 1, SCALAR_FUNCTIONS.LENGTH),
+  CONCAT: fn(1, Infinity, SCALAR_FUNCTIONS.CONCAT, invertConcat),
+  CONCAT_WS: fn(2, Infinity, ([separator, ...values]) =>
+    values.filter(value => !isNullish(value)).map(String).join(isNullish(separator) ? '' : String(separator))),
+  INITCAP: fn(1, 1, nullable(([text]) => String(text).toLowerCase().replace(/(^|[^a-z0-9])([a-z])/g, (_, before, letter) => before + letter.toUpperCase()))),
+  // Positions count from 1, as in SQL
+  SUBSTRING: fn(2, 3, nullable(([text, start, length]) => {
+    const from = Math.max(toNumber(start) - 1, 0);
+    return isNullish(length) ? String(text).slice(from) : String(text).substr(from, Math.max(toNumber(length), 0));
+  })),
+  REPLACE: fn(3, 3, nullable(([text, search, replacement]) => String(text).split(String(search)).join(String(replacement ?? '')))),
+  SPLIT_PART: fn(3, 3, nullable(([text, separator, index]) => String(text).split(String(separator))[toNumber(index) - 1] ?? null)),
+  PAD_START: fn(2, 3, nullable(([text, length, fill]) => {
+    const [value, target, padding] = padTo(text, length, fill);
+    return value.padStart(target, padding);
+  })),
+  PAD_END: fn(2, 3, nullable(([text, length, fill]) => {
+    const [value, target, padding] = padTo(text, length, fill);
+    return value.padEnd(target, padding);
+  })),
+
+  // Types
+  TO_STRING: fn(1, 1, nullable(([value]) => value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value))),
+  // Parsing drops the text's formatting ('007' becomes 7), so it has no inverse
+  TO_NUMBER: fn(1, 1, nullable(([value]) => toNumber(value))),
+  TO_BOOLEAN: fn(1, 1, nullable(([value]) => {
+    if (typeof value === 'boolean') return value;
+    const text = String(value).trim().toLowerCase();
+    if (['true', 't', 'yes', 'y', '1'].includes(text)) return true;
+    if (['false', 'f', 'no', 'n', '0'].includes(text)) return false;
+    throw new TransformError(`Cannot convert ${describe(value)} to a boolean`);
+  })),
+
+  // Dates
+  // Parsing drops the text's date format, so TO_DATE has no inverse either
+  TO_DATE: fn(1, 1, nullable(([value]) => toDate(value))),
+  // A Firestore-style timestamp
+  TO_TIMESTAMP: fn(1, 1, nullable(([value]) => {
+    const time = toDate(value).getTime();
+    return { seconds: Math.floor(time / 1000), nanoseconds: (time % 1000 + 1000) % 1000 * 1e6 };
+  }), inverseCall('TO_DATE')),
+  EPOCH_MILLIS: fn(1, 1, nullable(([value]) => toDate(value).getTime()), inverseCall('TO_DATE')),
+  FORMAT_DATE: fn(2, 2, nullable(([value, pattern]) => formatDate(toDate(value), String(pattern)))),
+  DATE_PART: fn(2, 2, nullable(([value, part]) => datePart(toDate(value), part))),
+  // Only fixed-length units can be subtracted again: Jan 31 + 1 month - 1 month isn't Jan 31
+  DATE_ADD: fn(3, 3, nullable(([value, amount, unit]) => addToDate(toDate(value), toNumber(amount), dateUnit(unit))),
+    (result, [, amount, unit], position) => position === 0 && unit.type === 'literal' && dateUnit(unit.value) in DATE_UNITS
+      ? call('DATE_ADD', result, { type: 'negate', operand: amount }, unit)
+      : null),
+
+  // Math
+  ABS: fn(1, 1, SCALAR_FUNCTIONS.ABS),
+  ROUND: fn(1, 2, SCALAR_FUNCTIONS.ROUND),
+  FLOOR: fn(1, 1, nullable(([value]) => Math.floor(toNumber(value)))),
+  CEIL: fn(1, 1, nullable(([value]) => Math.ceil(toNumber(value)))),
+  LEAST: fn(1, Infinity, args => {
+    const values = args.filter(value => !isNullish(value));
+    return values.length === 0 ? null : values.reduce((least, value) => compareValues(value, least) < 0 ? value : least);
+  }),
+  GREATEST: fn(1, Infinity, args => {
+    const values = args.filter(value => !isNullish(value));
+    return values.length === 0 ? null : values.reduce((greatest, value) => compareValues(value, greatest) > 0 ? value : greatest);
+  }),
+
+  // Conditionals
+  IF: fn(2, 3, ([condition, then, otherwise]) => condition === true ? then : (otherwise ?? null)),
+  NULLIF: fn(2, 2, ([value, other]) => !isNullish(value) && compareValues(value, other) === 0 ? null : value),
+  COALESCE: fn(1, Infinity, SCALAR_FUNCTIONS.COALESCE),
+
+  // Regular expressions
+  REGEX_MATCH: fn(2, 3, nullable(([text, pattern, flags]) => {
+    const regex = toRegExp(pattern, String(flags ?? '').replace(/g/g, ''));
+    return regex.test(String(text));
+  })),
+  // The whole match, or the numbered capture group
+  REGEX_EXTRACT: fn(2, 3, nullable(([text, pattern, group]) => {
+    const match = toRegExp(pattern).exec(String(text));
+    return match ? match[isNullish(group) ? 0 : toNumber(group)] ?? null : null;
+  })),
+  // Replaces every match unless flags are given
+  REGEX_REPLACE: fn(3, 4, nullable(([text, pattern, replacement, flags]) =>
+    String(text).replace(toRegExp(pattern, flags ?? 'g'), String(replacement ?? '')))),
+
+  // LOOKUP(value, key1, result1, key2, result2, ..., default): the result paired with the first
+  // key equal to value, else the default (NULL when omitted)
+  LOOKUP: fn(3, Infinity, ([value, ...table]) => {
+    for (let i = 0; i + 1 < table.length; i += 2) {
+      if (!isNullish(value) && !isNullish(table[i]) && compareValues(value, table[i]) === 0) {
+        return table[i + 1];
+      }
+    }
+    return table.length % 2 === 1 ? table[table.length - 1] : null;
+  }, invertLookup),
+};
+
+const FUNCTION_IMPLEMENTATIONS: Record<string, ScalarFunction> = Object.fromEntries(
+  Object.entries(TRANSFORM_FUNCTIONS).map(([name, definition]) => [name, definition.apply]));
+
+// Check every function call in a transform and collect the document fields it reads
+function checkExpression(expression: Expression, fields: Set<string>): void {
+  switch (expression.type) {
+    case 'literal':
+      return;
+    case 'parameter':
+      throw new TransformError(`Transforms can't use parameters (:${expression.name})`);
+    case 'star':
+      throw new TransformError(`Transforms can't use '*'`);
+    case 'column': {
+      const field = expression.table ? `${expression.table}.${expression.name}` : expression.name;
+      if (field !== VALUE) fields.add(field);
+      return;
+    }
+    case 'function': {
+      const definition = TRANSFORM_FUNCTIONS[expression.name];
+      if (!definition) {
+        throw new TransformError(`Unknown function ${expression.name}`);
+      }
+      if (expression.distinct) {
+        throw new TransformError(`${expression.name} doesn't take DISTINCT`);
+      }
+      const count = expression.args.length;
+      if (count < definition.minArgs || count > definition.maxArgs) {
+        const expected = definition.maxArgs === Infinity
+          ? `at least ${definition.minArgs}`
+          : definition.minArgs === definition.maxArgs ? `${definition.minArgs}` : `${definition.minArgs} to ${definition.maxArgs}`;
+        throw new TransformError(`${expression.name} takes ${expected} argument${expected === '1' ? '' : 's'}, not ${count}`);
+      }
+      expression.args.forEach(arg => checkExpression(arg, fields));
+      return;
+    }
+    case 'comparison':
+    case 'arithmetic':
+    case 'logical':
+      checkExpression(expression.left, fields);
+      checkExpression(expression.right, fields);
+      return;
+    case 'not':
+    case 'negate':
+    case 'isNull':
+      checkExpression(expression.operand, fields);
+      return;
+    case 'like':
+      checkExpression(expression.operand, fields);
+      checkExpression(expression.pattern, fields);
+      return;
+    case 'in':
+      checkExpression(expression.operand, fields);
+      expression.values.forEach(value => checkExpression(value, fields));
+      return;
+    case 'between':
+      checkExpression(expression.operand, fields);
+      checkExpression(expression.low, fields);
+      checkExpression(expression.high, fields);
+      return;
+  }
+}
+
+function readsValue(expression: Expression): boolean {
+  return collectColumns(expression).some(column => !column.table && column.name === VALUE);
+}
+
+// An expression for the value a transform was given, in terms of `result`, the value it produced
+function invertExpression(expression: Expression, result: Expression): Expression {
+  if (expression.type === 'column' && !expression.table && expression.name === VALUE) {
+    return result;
+  }
+
+  const operands = expression.type === 'arithmetic' ? [expression.left, expression.right]
+    : expression.type === 'function' ? expression.args
+    : expression.type === 'negate' ? [expression.operand]
+    : [];
+  const position = operands.findIndex(readsValue);
+  if (position < 0 || operands.filter(readsValue).length > 1) {
+    throw new TransformError(`${formatExpression(expression)} can't be reversed`);
+  }
+  const operand = operands[position];
+
+  switch (expression.type) {
+    case 'negate':
+      return invertExpression(operand, { type: 'negate', operand: result });
+
+    case 'arithmetic': {
+      const other = operands[1 - position];
+      const numeric = other.type === 'literal' && typeof other.value === 'number';
+      const undo = (operator: '+' | '-' | '*' | '/', left: Expression, right: Expression): Expression =>
+        invertExpression(operand, { type: 'arithmetic', operator, left, right });
+
+      // "+" with text concatenates, and multiplying by zero loses the value
+      if (numeric && !(expression.operator === '*' && other.value === 0)) {
+        switch (expression.operator) {
+          case '+': return undo('-', result, other);
+          case '-': return position === 0 ? undo('+', result, other) : undo('-', other, result);
+          case '*': return undo('/', result, other);
+          case '/': return position === 0 ? undo('*', result, other) : undo('/', other, result);
+        }
+      }
+      throw new TransformError(`${formatExpression(expression)} can't be reversed`);
+    }
+
+    case 'function': {
+      const definition = TRANSFORM_FUNCTIONS[expression.name];
+      const constant = expression.args.every((arg, index) => index === position || collectColumns(arg).length === 0);
+      const inverse = constant && definition?.inverse ? definition.inverse(result, expression.args, position) : null;
+      if (!inverse) {
+        throw new TransformError(definition?.inverse ? `${formatExpression(expression)} can't be reversed` : `${expression.name} has no inverse`);
+      }
+      return invertExpression(operand, inverse);
+    }
+  }
+
+  throw new TransformError(`${formatExpression(expression)} can't be reversed`);
+}
+
+// Read a field of a document, following dots into nested objects when there is no such key
+function readField(document: Row, field: string): any {
+  if (Object.prototype.hasOwnProperty.call(document, field)) return document[field];
+  // Only the document's own keys, so a field named constructor or __proto__ reads nothing
+  return field.split('.').reduce((value: any, key) =>
+    value !== null && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined, document);
+}
+
+// A rule as it runs in one direction: read `input` (and the transform's other fields), write `output`
+interface RuleStep {
+  rule: MappingRule;
+  input: string;
+  output: string;
+  transform?: CompiledTransform;
+}
+
+function ruleName(rule: MappingRule): string {
+  return `Rule ${rule.sourceField} → ${rule.targetField}`;
+}
+
+class MappingTransformService {
+  private compiled: Map<string, CompiledTransform> = new Map();
+  private inverses: Map<string, CompiledTransform> = new Map();
+
+  // Parse and check a transform, throwing a TransformError that says what is wrong and where
+  compile(transform: string): CompiledTransform {
+    const cached = this.compiled.get(transform);
+    if (cached) return cached;
+
+    const text = NAMED_TRANSFORMS[transform.trim()] ?? transform;
+    if (!text.trim()) {
+      throw new TransformError('Transform is empty');
+    }
+    if (text.length > MAX_TRANSFORM_LENGTH) {
+      throw new TransformError(`Transforms are limited to ${MAX_TRANSFORM_LENGTH} characters`);
+    }
+
+    let expression: Expression;
+    try {
+      expression = parseExpression(text);
+    } catch (error) {
+      if (error instanceof SqlParseError) {
+        throw new TransformError(error.message);
+      }
+      throw error;
+    }
+
+    const fields: Set<string> = new Set();
+    checkExpression(expression, fields);
+
+    const result = { expression, fields: Array.from(fields) };
+    this.compiled.set(transform, result);
+    return result;
+  }
+
+  // The transform that maps a rule's target value back to its source value: the rule's own
+  // inverse, else one derived from its transform. Throws a TransformError saying why there is none.
+  inverse(rule: MappingRule): CompiledTransform {
+    if (rule.inverse) {
+      return this.compile(rule.inverse);
+    }
+
+    const transform = rule.transform ?? '';
+    const named = NAMED_INVERSES[transform.trim()];
+    if (named) {
+      return this.compile(named);
+    }
+
+    const cached = this.inverses.get(transform);
+    if (cached) return cached;
+
+    const { expression, fields } = this.compile(transform);
+    if (fields.length > 0) {
+      throw new TransformError(`it combines other fields (${fields.join(', ')})`);
+    }
+    const result = { expression: invertExpression(expression, { type: 'column', name: VALUE }), fields: [] };
+    this.inverses.set(transform, result);
+    return result;
+  }
+
+  // Reject rules whose transform or inverse doesn't compile, and rules of a mapping used in both
+  // directions that can't be reversed, naming the rule
+  validateRules(rules: MappingRule[], bidirectional = false): void {
+    for (const rule of rules) {
+      if (rule.type !== 'transform') continue;
+      try {
+        this.compile(rule.transform ?? '');
+        if (rule.inverse) this.compile(rule.inverse);
+      } catch (error) {
+        throw new TransformError(`${ruleName(rule)}: ${(error as Error).message}`);
+      }
+
+      if (!bidirectional) continue;
+      try {
+        this.inverse(rule);
+      } catch (error) {
+        throw new TransformError(`${ruleName(rule)} can't be reversed for a two-way mapping: ${(error as Error).message}. Give the rule an inverse or make the mapping one-way.`);
+      }
+    }
+  }
+
+  // The document fields a rule reads: its source field and any others its transform names
+  inputFields(rule: MappingRule): string[] {
+    if (rule.type !== 'transform' || !rule.transform) return [rule.sourceField];
+    try {
+      return Array.from(new Set([rule.sourceField, ...this.compile(rule.transform).fields]));
+    } catch {
+      return [rule.sourceField];
+    }
+  }
+
+  // The fields that mapping in `direction` copies unchanged, keyed by the field they are copied to
+  renamedFields(rules: MappingRule[], direction: MappingDirection): Map<string, string> {
+    const renamed: Map<string, string> = new Map();
+    for (const rule of rules) {
+      if (rule.type === 'transform') continue;
+      if (direction === 'source-to-target') {
+        renamed.set(rule.targetField, rule.sourceField);
+      } else {
+        renamed.set(rule.sourceField, rule.targetField);
+      }
+    }
+    return renamed;
+  }
+
+  // The fields a document needs for mapping in `direction` to produce `outputs`; a field nested in
+  // an output (address.city) needs what the output is made from
+  inputsFor(rules: MappingRule[], direction: MappingDirection, outputs: string[]): string[] {
+    const inputs: string[] = [];
+    for (const rule of rules) {
+      const output = direction === 'source-to-target' ? rule.targetField : rule.sourceField;
+      if (!outputs.some(name => name === output || name.startsWith(`${output}.`))) continue;
+      if (direction === 'source-to-target') {
+        inputs.push(...this.inputFields(rule));
+        continue;
+      }
+      inputs.push(rule.targetField);
+      if (rule.type === 'transform') {
+        try {
+          inputs.push(...this.inverse(rule).fields);
+        } catch {
+          // Reading the mapping fails on this rule anyway
+        }
+      }
+    }
+    return Array.from(new Set(inputs));
+  }
+
+  // Evaluate a transform for one document, with `value` bound to the rule's source field
+  evaluate(transform: string, value: any, document: Row = {}): any {
+    return this.run(this.compile(transform), value, document);
+  }
+
+  // Map documents from one side of a mapping to the other's fields: source to target runs each
+  // rule's transform, target to source its inverse. A rule is skipped for a document that has none
+  // of the fields it reads; a rule that fails sets its field to null and the failure is reported
+  // with the document's position. Throws when a rule can't be reversed.
+  apply(documents: Row[], rules: MappingRule[], direction: MappingDirection = 'source-to-target'): MappedRows {
+    const steps = rules.map(rule => this.step(rule, direction));
+    const errors: MappingRowError[] = [];
+
+    const rows = documents.map((document, index) => {
+      const mapped: Row = {};
+      for (const { rule, input, output, transform } of steps) {
+        const fields = [input, ...(transform?.fields ?? [])];
+        if (fields.every(field => readField(document, field) === undefined)) continue;
+
+        const value = readField(document, input);
+        if (!transform) {
+          mapped[output] = value;
+          continue;
+        }
+        try {
+          mapped[output] = this.run(transform, value, document);
+        } catch (error) {
+          mapped[output] = null;
+          errors.push({ row: index, sourceField: rule.sourceField, targetField: rule.targetField, error: (error as Error).message });
+        }
+      }
+      return mapped;
+    });
+
+    return { rows, errors };
+  }
+
+  private step(rule: MappingRule, direction: MappingDirection): RuleStep {
+    const transformed = rule.type === 'transform';
+    if (direction === 'source-to-target') {
+      return { rule, input: rule.sourceField, output: rule.targetField, transform: transformed ? this.compile(rule.transform ?? '') : undefined };
+    }
+
+    try {
+      return { rule, input: rule.targetField, output: rule.sourceField, transform: transformed ? this.inverse(rule) : undefined };
+    } catch (error) {
+      throw new TransformError(`${ruleName(rule)} can't be reversed: ${(error as Error).message}`);
+    }
+  }
+
+  private run({ expression, fields }: CompiledTransform, value: any, document: Row): any {
+    const row: Row = { [VALUE]: value ?? null };
+    for (const field of fields) {
+      row[field] = readField(document, field) ?? null;
+    }
+    return evaluateExpression(expression, row, {}, FUNCTION_IMPLEMENTATIONS);
+  }
+}
+
+export const mappingTransforms = new MappingTransformService();
@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import type { Query, ScanCount } from "@shared/schema";
+import { storage } from "../storage";
+
+// Results are stored per query and per set of parameter values; a query without
+// parameters uses the empty hash. Masked results add the masking variant to the key.
+export function hashParams(params: Record<string, any>): string {
+  const keys = Object.keys(params).sort();
+  if (keys.length === 0) return "";
+  return createHash("sha256")
+    .update(JSON.stringify(keys.map(key => [key, params[key]])))
+    .digest("hex");
+}
+
+// Separates the parameter hash from the masking variant in a stored result's key
+const MASKED = ":masked:";
+
+// Serves saved materialized queries from storage.queryResults. Results are fresh for the
+// Data Refresh Interval in settings; after that the stored results are still returned
+// while a refresh runs in the background.
+class MaterializedViewService {
+  private refreshes: Map<string, Promise<any>> = new Map();
+
+  // `variant` keeps results masked by different sets of policies apart
+  async execute(query: Query, params: Record<string, any>, run: () => Promise<any>, refresh = false, variant = ""): Promise<any> {
+    const paramsHash = variant ? `${hashParams(params)}${MASKED}${variant}` : hashParams(params);
+    if (refresh) {
+      return this.refresh(query, paramsHash, run);
+    }
+
+    const [cached, settings] = await Promise.all([
+      storage.getQueryResult(query.id, paramsHash),
+      storage.getSettings(),
+    ]);
+
+    if (!cached) {
+      return this.refresh(query, paramsHash, run);
+    }
+
+    // The window is derived from the current setting so changing it applies to stored results too
+    const lastUpdated = cached.lastUpdated ? new Date(cached.lastUpdated) : new Date(0);
+    const nextUpdate = new Date(lastUpdated.getTime() + settings.dataRefreshInterval * 60 * 1000);
+    const stale = nextUpdate.getTime() <= Date.now();
+
+    if (stale) {
+      this.refresh(query, paramsHash, run).catch(error => {
+        console.error(`Error refreshing materialized results for query ${query.id}:`, error);
+      });
+    }
+
+    return {
+      ...(cached.summary as Record<string, any>),
+      results: cached.results,
+      executionTime: cached.executionTime,
+      truncated: cached.truncated,
+      sampleData: (cached.scanned as ScanCount[]).some(scan => scan.sample),
+      scanned: cached.scanned,
+      lastUpdated: lastUpdated.toISOString(),
+      nextUpdate: nextUpdate.toISOString(),
+      cacheHit: true,
+      stale,
+    };
+  }
+
+  // The masking variants results are stored under for a query and parameter values
+  async storedVariants(queryId: number, params: Record<string, any>): Promise<string[]> {
+    const base = hashParams(params);
+    return (await storage.getQueryResults(queryId))
+      .map(result => result.paramsHash)
+      .filter(paramsHash => paramsHash === base || paramsHash.startsWith(`${base}${MASKED}`))
+      .map(paramsHash => paramsHash.slice(base.length + MASKED.length));
+  }
+
+  // Drop stored results, e.g. after the query text changed
+  async invalidate(queryId: number): Promise<void> {
+    await storage.deleteQueryResults(queryId);
+  }
+
+  // Run the query and store its results; concurrent refreshes of the same results share one run
+  private refresh(query: Query, paramsHash: string, run: () => Promise<any>): Promise<any> {
+    const key = `${query.id}:${paramsHash}`;
+    const inFlight = this.refreshes.get(key);
+    if (inFlight) return inFlight;
+
+    const refresh = this.store(query, paramsHash, run).finally(() => this.refreshes.delete(key));
+    this.refreshes.set(key, refresh);
+    return refresh;
+  }
+
+  private async store(query: Query, paramsHash: string, run: () => Promise<any>): Promise<any> {
+    const result = await run();
+    const settings = await storage.getSettings();
+
+    // Everything but the rows and freshness is kept so a cache hit responds in the same shape
+    const { results, executionTime, truncated, sampleData, scanned, lastUpdated, nextUpdate: _nextUpdate, cacheHit, stale, ...summary } = result;
+    const nextUpdate = new Date(Date.now() + settings.dataRefreshInterval * 60 * 1000);
+
+    const existing = await storage.getQueryResult(query.id, paramsHash);
+    const stored = existing
+      ? await storage.updateQueryResult(existing.id, {
+          results: result.results,
+          executionTime: result.executionTime,
+          truncated: result.truncated ?? false,
+          scanned: result.scanned ?? [],
+          summary,
+          nextUpdate,
+        })
+      : await storage.createQueryResult({
+          queryId: query.id,
+          paramsHash,
+          results: result.results,
+          executionTime: result.executionTime,
+          truncated: result.truncated ?? false,
+          scanned: result.scanned ?? [],
+          summary,
+          nextUpdate,
+        });
+
+    return {
+      ...result,
+      lastUpdated: (stored?.lastUpdated ?? new Date()).toISOString(),
+      nextUpdate: nextUpdate.toISOString(),
+      cacheHit: false,
+      stale: false,
+    };
+  }
+}
+
+export const materializedViews = new MaterializedViewService();
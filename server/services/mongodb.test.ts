@@ -0,0 +1,33 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { BSON } from "mongodb";
+import { decodeKeysetCursor } from "./mongodb";
+
+describe("decodeKeysetCursor", () => {
+  it("round-trips the sort key values a page cursor was encoded from", () => {
+    const id = new BSON.ObjectId();
+    const createdAt = new Date("2024-05-01T12:00:00Z");
+    const cursor = BSON.EJSON.stringify(["Ada", 42, createdAt, null, id], { relaxed: false });
+
+    const after = decodeKeysetCursor(cursor, 5);
+
+    assert.deepEqual(after.slice(0, 4), ["Ada", 42, createdAt, null]);
+    assert.ok(after[4] instanceof BSON.ObjectId);
+    assert.equal((after[4] as BSON.ObjectId).toHexString(), id.toHexString());
+  });
+
+  it("rejects cursors that aren't Extended JSON arrays", () => {
+    assert.throws(() => decodeKeysetCursor("not json", 1), /Invalid MongoDB cursor/);
+    assert.throws(() => decodeKeysetCursor('{"_id":1}', 1), /Invalid MongoDB cursor/);
+  });
+
+  it("rejects cursors with a different number of sort keys", () => {
+    assert.throws(() => decodeKeysetCursor('["a",1]', 1), /Invalid MongoDB cursor/);
+  });
+
+  it("rejects values that would read as query operators", () => {
+    assert.throws(() => decodeKeysetCursor('[{"$ne":null}]', 1), /Invalid MongoDB cursor/);
+    assert.throws(() => decodeKeysetCursor('[["a"]]', 1), /Invalid MongoDB cursor/);
+    assert.throws(() => decodeKeysetCursor('[{"$regularExpression":{"pattern":".*","options":""}}]', 1), /Invalid MongoDB cursor/);
+  });
+});
@@ -0,0 +1,170 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { newDb } from "pg-mem";
+import type { Pool } from "pg";
+import type { DataSource, Query } from "@shared/schema";
+import { storage } from "../storage";
+import { fileStorage } from "./file-storage";
+import { connectorRegistry } from "./connector-registry";
+import { PostgresService, postgresConnector } from "./postgres";
+import { queryFederationService } from "./query-federation";
+
+// An in-memory database that records every statement sent to it
+function memoryDatabase() {
+  const db = newDb();
+  db.public.none(`
+    CREATE TABLE orders (id integer PRIMARY KEY, email text, total numeric, status text, placed timestamp, details jsonb);
+    INSERT INTO orders VALUES
+      (1, 'john@example.com', 20, 'paid', '2024-01-05', '{"items": 1}'),
+      (2, 'alice@example.com', 35, 'paid', '2024-01-06', null),
+      (3, 'john@example.com', 15, 'open', '2024-01-07', null),
+      (4, 'nobody@example.com', 50, 'paid', '2024-01-08', null);
+  `);
+  const { Pool: MemoryPool } = db.adapters.createPg();
+  const statements: { sql: string; values: any[] }[] = [];
+  const createPool = (config: object) => {
+    const pool = new MemoryPool(config);
+    const query = pool.query.bind(pool);
+    pool.query = (sql: string, values?: any[]) => {
+      statements.push({ sql, values: values ?? [] });
+      return query(sql, values);
+    };
+    return pool as Pool;
+  };
+  return { createPool, statements };
+}
+
+function dataSource(id: number): DataSource {
+  return {
+    id, name: "orders db", type: "postgres", config: { connectionString: "postgres://memory/orders" }, collections: [],
+    status: "disconnected", lastError: null, demoMode: false, snapshotCollections: {}, maxRows: null, createdAt: null, updatedAt: null,
+  };
+}
+
+describe("PostgresService", () => {
+  const { createPool, statements } = memoryDatabase();
+  const service = new PostgresService(createPool);
+
+  before(async () => {
+    await service.connect(dataSource(1));
+  });
+
+  after(async () => {
+    await service.disconnect();
+    for (const file of await fileStorage.listStoredFiles()) {
+      if (file.startsWith("postgres_orders_")) await fileStorage.deleteFile(file);
+    }
+  });
+
+  it("lists tables and infers field types from information_schema", async () => {
+    assert.deepEqual(await service.listCollections(), ["orders"]);
+
+    const schema = await service.getSchema("orders");
+    assert.deepEqual(schema?.fields, [
+      { name: "id", type: "number" },
+      { name: "email", type: "string" },
+      { name: "total", type: "number" },
+      { name: "status", type: "string" },
+      { name: "placed", type: "date" },
+      { name: "details", type: "object" },
+    ]);
+    assert.equal(await service.getSchema("missing"), null);
+  });
+
+  it("pushes filters, sort and limit down as parameters", async () => {
+    statements.length = 0;
+    const rows = await service.executeQuery("orders", {
+      selectedColumns: ["id", "email"],
+      filters: [
+        { field: "status", operator: "==", value: "paid" },
+        { type: "or", filters: [{ field: "total", operator: ">", value: 30 }, { field: "email", operator: "in", value: ["john@example.com"] }] },
+      ],
+      orderBy: { id: "desc" },
+      limit: 2,
+    });
+
+    assert.deepEqual(rows, [{ id: 4, email: "nobody@example.com" }, { id: 2, email: "alice@example.com" }]);
+    const [statement] = statements;
+    assert.match(statement.sql, /WHERE "status" = \$1 AND \("total" > \$2 OR "email" = ANY\(\$3\)\) ORDER BY "id" DESC NULLS LAST LIMIT \$4$/);
+    assert.deepEqual(statement.values, ["paid", 30, ["john@example.com"], 2]);
+  });
+
+  it("treats filter values as data, not SQL", async () => {
+    const rows = await service.executeQuery("orders", { filters: [{ field: "email", operator: "==", value: "x' OR '1'='1" }] });
+
+    assert.deepEqual(rows, []);
+  });
+
+  it("runs aggregates in the database", async () => {
+    statements.length = 0;
+    const rows = await service.executeAggregation("orders", {
+      groupBy: [{ field: "email", key: "email" }],
+      aggregates: [{ name: "COUNT", key: "COUNT(*)" }, { name: "SUM", field: "total", key: "SUM(total)" }],
+      filters: [{ field: "status", operator: "==", value: "paid" }],
+    });
+
+    const byEmail = Object.fromEntries((rows ?? []).map(row => [row.email, row]));
+    assert.deepEqual(byEmail["john@example.com"], { email: "john@example.com", "COUNT(*)": 1, "SUM(total)": 20 });
+    assert.equal(rows?.length, 3);
+    assert.match(statements[0].sql, /SELECT "email" AS "g0", COUNT\(\*\) AS "a0", SUM\("total"\) AS "a1" FROM "public"\."orders" WHERE "status" = \$1 GROUP BY "email"/);
+  });
+});
+
+describe("PostgreSQL through the federation service", () => {
+  const { createPool, statements } = memoryDatabase();
+  let mongoId: number;
+  let postgresId: number;
+
+  const run = (sql: string) => {
+    const query: Query = {
+      id: -1, name: "test", query: sql, dataSources: [mongoId, postgresId], collections: [],
+      federationStrategy: "virtual", createdAt: new Date(), updatedAt: new Date(),
+    };
+    return queryFederationService.executeQuery(query);
+  };
+
+  before(async () => {
+    // A PostgreSQL connector on the in-memory database
+    connectorRegistry.register({ ...postgresConnector, type: "postgres-memory", create: () => new PostgresService(createPool) });
+
+    const mongo = await storage.createDataSource({
+      name: "MongoDB", type: "mongodb", config: { uri: "mongodb://demo", database: "demo" }, collections: [], status: "connected", demoMode: true,
+    });
+    const postgres = await storage.createDataSource({
+      name: "orders db", type: "postgres-memory", config: { connectionString: "postgres://memory/orders" }, collections: [], status: "connected",
+    });
+    mongoId = mongo.id;
+    postgresId = postgres.id;
+    assert.equal(await queryFederationService.addDataSource(mongo), true);
+    assert.equal(await queryFederationService.addDataSource(postgres), true);
+  });
+
+  after(async () => {
+    await queryFederationService.removeDataSource(mongoId);
+    await queryFederationService.removeDataSource(postgresId);
+    for (const file of await fileStorage.listStoredFiles()) {
+      if (/^(postgres_orders|mongodb_customers)_/.test(file)) await fileStorage.deleteFile(file);
+    }
+  });
+
+  it("joins a PostgreSQL table with a MongoDB collection", async () => {
+    statements.length = 0;
+    const result = await run(
+      "SELECT c.name, o.total FROM customers c JOIN orders o ON o.email = c.email WHERE o.status = 'paid' ORDER BY o.total",
+    );
+
+    assert.deepEqual(result.results, [{ name: "John Doe", total: 20 }, { name: "Alice Smith", total: 35 }]);
+    // The filter on orders runs in PostgreSQL, the join in memory
+    const scan = statements.find(statement => statement.sql.includes('FROM "public"."orders" WHERE'));
+    assert.match(scan!.sql, /^SELECT "total", "email" FROM "public"\."orders" WHERE "status" = \$1\b/);
+    assert.equal(scan!.values[0], "paid");
+  });
+
+  it("pushes a single-table aggregate down to PostgreSQL", async () => {
+    statements.length = 0;
+    const result = await run("SELECT status, COUNT(*) AS n, SUM(total) AS revenue FROM orders GROUP BY status ORDER BY status");
+
+    assert.deepEqual(result.results, [{ status: "open", n: 1, revenue: 15 }, { status: "paid", n: 3, revenue: 105 }]);
+    assert.ok(statements.some(statement => /GROUP BY "status"/.test(statement.sql)));
+  });
+});
@@ -1,25 +1,42 @@
-import type { DataSource, SchemaMapping, Query } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { DEFAULT_MAX_ROWS, type DataSource, type MappingUse, type MaskingPolicy, type SchemaMapping, type Query, type QueryStreamEvent, type ScanCount } from "@shared/schema";
 import { storage } from "../storage";
-import { FirebaseService } from "./firebase";
-import { MongoDBService } from "./mongodb";
+import { connectorRegistry } from "./connector-registry";
+import type { DataSourceConnector, SourcePage } from "./data-source-connector";
 import { fileStorage } from "./file-storage";
+import { parseSql, SqlParseError, type SelectStatement } from "./sql-parser";
+import { matchesPredicate, projectRow, sortRows, distinctRows } from "./sql-evaluator";
+import { executeJoin, qualifyRows } from "./join-executor";
+import { aggregateRows, type AggregationPlan } from "./aggregation";
+import { queryPlanner, type PlannerSource, type QueryPlan, type ScanPlan } from "./query-planner";
+import { materializedViews } from "./materialized-views";
+import { applySourceQuery, collectionSnapshots } from "./collection-snapshots";
+import { readSource, rowBatches } from "./query-stream";
+import { decodeCursor, encodeCursor, pageByOffset, queryFingerprint, STORED_PAGE_TTL } from "./query-pagination";
+import { withTimeout } from "./connection-test";
+import { credentialVault } from "./credential-vault";
+import { accessControl, type AccessContext } from "./access-control";
+import { dataMasking } from "./data-masking";
+import { mappingTransforms, TransformError } from "./mapping-transforms";
+
+// Longest a health check waits for a connected source to answer
+const PING_TIMEOUT = 10 * 1000;
+
+// Most failed mapping rules reported per mapped scan; the rest are only counted
+const MAX_REPORTED_MAPPING_ERRORS = 50;
+
+// Name prefix of the temp files that hold results for "stored" page cursors
+const STORED_PAGE_PREFIX = "page_";
+
+type ProgressListener = (event: QueryStreamEvent & { type: 'progress' }) => Promise<void>;
 
 class QueryFederationService {
-  private firebaseService: FirebaseService;
-  private mongoDBService: MongoDBService;
   private dataSources: Map<number, DataSource> = new Map();
   private mappings: Map<number, SchemaMapping> = new Map();
-  private sourceServices: Map<number, FirebaseService | MongoDBService> = new Map();
+  private sourceServices: Map<number, DataSourceConnector> = new Map();
 
-  constructor() {
-    this.firebaseService = new FirebaseService();
-    this.mongoDBService = new MongoDBService();
-
-    // Immediately load data sources on startup
-    this.loadDataSources();
-  }
-
-  private async loadDataSources() {
+  // Load and connect the stored data sources; called once on startup after storage is ready
+  async initialize() {
     try {
       // Get all data sources
       const sources = await storage.getDataSources();
@@ -35,38 +52,53 @@ class QueryFederationService {
       }
 
       console.log(`Loaded ${this.dataSources.size} data sources and ${this.mappings.size} schema mappings`);
+
+      // Results kept for cursors from before a restart
+      await this.sweepStoredPages();
     } catch (error) {
       console.error("Error loading data sources:", error);
     }
   }
 
+  // Connect a source and record the outcome on it: "connected", or "error" with the reason.
+  // Sources read sample data only when they, or the whole application, are in demo mode.
   private async connectToDataSource(dataSource: DataSource) {
     // Skip if already connected
     if (this.sourceServices.has(dataSource.id)) {
       return true;
     }
 
+    const settings = await storage.getSettings();
     try {
-      if (dataSource.type === 'firebase') {
-        const service = new FirebaseService();
-        const success = await service.connect(dataSource);
-        if (success) {
-          this.sourceServices.set(dataSource.id, service);
-          return true;
-        }
-      } else if (dataSource.type === 'mongodb') {
-        const service = new MongoDBService();
-        const success = await service.connect(dataSource);
-        if (success) {
-          this.sourceServices.set(dataSource.id, service);
-          return true;
-        }
+      const service = connectorRegistry.create(dataSource.type);
+      const success = await service.connect({
+        ...dataSource,
+        config: credentialVault.openConfig(dataSource.type, dataSource.config),
+        demoMode: dataSource.demoMode || settings.demoMode,
+      });
+      if (!success) {
+        throw new Error(`Could not connect to ${dataSource.name}`);
       }
+      this.sourceServices.set(dataSource.id, service);
+      await this.recordStatus(dataSource.id, "connected", null);
+      return true;
     } catch (error) {
       console.error(`Error connecting to data source ${dataSource.id}:`, error);
+      await this.recordStatus(dataSource.id, "error", (error as Error).message);
+      return false;
+    }
+  }
+
+  private async recordStatus(dataSourceId: number, status: string, lastError: string | null) {
+    const current = this.dataSources.get(dataSourceId);
+    if (current && current.status === status && current.lastError === lastError) {
+      return;
     }
 
-    return false;
+    const updated = await storage.updateDataSource(dataSourceId, { status, lastError });
+    if (updated && this.dataSources.has(dataSourceId)) {
+      this.dataSources.set(dataSourceId, updated);
+    }
   }
 
   async addDataSource(dataSource: DataSource): Promise<boolean> {
@@ -82,6 +114,15 @@ class QueryFederationService {
     }
   }
 
+  // Connect every source again, e.g. after the global demo mode setting changed
+  async reconnectAll(): Promise<void> {
+    const sources = await storage.getDataSources();
+    for (const source of sources) {
+      await this.removeDataSource(source.id);
+      await this.addDataSource(source);
+    }
+  }
+
   async removeDataSource(dataSourceId: number): Promise<boolean> {
     try {
       // Get the service if it exists
@@ -101,6 +142,43 @@ class QueryFederationService {
     }
   }
 
+  // Check that a source is reachable and record the outcome on it: a connected source makes one
+  // round trip, any other source is connected again. Throws with the reason when it can't be reached.
+  async checkSource(dataSourceId: number): Promise<void> {
+    const dataSource = this.dataSources.get(dataSourceId);
+    if (!dataSource) {
+      throw new Error(`Data source ${dataSourceId} not found`);
+    }
+
+    const service = this.sourceServices.get(dataSourceId);
+    if (!service) {
+      if (!(await this.connectToDataSource(dataSource))) {
+        throw new Error(this.dataSources.get(dataSourceId)?.lastError ?? "Connection failed");
+      }
+      return;
+    }
+
+    try {
+      if (service.ping) {
+        await withTimeout(service.ping(), PING_TIMEOUT, "Health check timed out");
+      }
+    } catch (error) {
+      await this.recordStatus(dataSourceId, "error", (error as Error).message);
+      throw error;
+    }
+    await this.recordStatus(dataSourceId, "connected", null);
+  }
+
+  // Connected connector for a data source, if any
+  getSourceConnector(dataSourceId: number): DataSourceConnector | undefined {
+    return this.sourceServices.get(dataSourceId);
+  }
+
+  // Most rows one query reads from a single collection of a data source
+  rowBudget(dataSourceId: number): number {
+    return this.dataSources.get(dataSourceId)?.maxRows ?? DEFAULT_MAX_ROWS;
+  }
+
   async addMapping(mapping: SchemaMapping): Promise<void> {
     this.mappings.set(mapping.id, mapping);
   }
@@ -109,317 +187,681 @@ class QueryFederationService {
     this.mappings.delete(mappingId);
   }
 
-  private async applyMapping(data: any[], mapping: SchemaMapping, direction: 'source-to-target' | 'target-to-source'): Promise<any[]> {
-    // If no mapping rules, return the data as is
-    if (!mapping.mappingRules || !Array.isArray(mapping.mappingRules) || mapping.mappingRules.length === 0) {
-      return data;
-    }
-
-    const result = [];
+  // A mapped scan's documents in the fields of the collection the query names, each marked with
+  // the mapping that produced it; failed rules are recorded on the scan's part
+  private mapScanRows(scan: ScanPlan, part: any, documents: any[]): any[] {
+    if (!scan.mapping) return documents;
+    const { id, name, direction, rules } = scan.mapping;
+    const { rows, errors } = mappingTransforms.apply(documents, rules, direction);
+
+    const use: MappingUse = part.mapping ?? { mappingId: id, name, direction, sourceId: scan.source.sourceId, collection: scan.collection, rows: 0, errorCount: 0, errors: [] };
+    part.mapping = use;
+    const reported = errors.slice(0, Math.max(0, MAX_REPORTED_MAPPING_ERRORS - use.errors.length));
+    use.errors.push(...reported.map(error => ({ ...error, row: error.row + use.rows })));
+    use.errorCount += errors.length;
+    use.rows += documents.length;
+
+    return rows.map(row => ({ ...row, __mapping: id }));
+  }
 
-    for (const item of data) {
-      const mappedItem: any = {};
+  // Rows read through mappings lack the fields their rules don't produce; fill every column any
+  // row has so the result has one shape
+  private canonicalRows(plan: QueryPlan, rows: any[]): any[] {
+    if (!plan.tables.some(table => table.scans.some(scan => scan.mapping))) return rows;
 
-      for (const rule of mapping.mappingRules) {
-        if (direction === 'source-to-target') {
-          // Map from source field to target field
-          if (item[rule.sourceField] !== undefined) {
-            let value = item[rule.sourceField];
+    const columns: Set<string> = new Set();
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!key.startsWith('__')) columns.add(key);
+      }
+    }
+    return rows.map(row => {
+      const missing = Array.from(columns).filter(column => !(column in row));
+      if (missing.length === 0) return row;
+      const filled = { ...row };
+      for (const column of missing) {
+        filled[column] = null;
+      }
+      return filled;
+    });
+  }
 
-            // Apply transformation if needed
-            if (rule.type === 'transform') {
-              value = this.applyTransformation(value, rule.transform);
-            }
+  // A source failing during a query fails the query, since results missing its rows would pass
+  // for complete ones. The source is marked as erroring, as when it can't be connected to;
+  // a mapping that can't translate the rows is no fault of the source.
+  private async scanFailed(scan: ScanPlan, error: unknown): Promise<Error> {
+    console.error(`Error executing query on source ${scan.source.sourceId}:`, error);
+    const message = (error as Error).message;
+    if (!(error instanceof TransformError)) {
+      await this.recordStatus(scan.source.sourceId, "error", message);
+    }
+    return new Error(`Reading ${scan.collection} from data source '${scan.source.name}' failed: ${message}`);
+  }
 
-            mappedItem[rule.targetField] = value;
-          }
-        } else {
-          // Map from target field to source field
-          if (item[rule.targetField] !== undefined) {
-            let value = item[rule.targetField];
-
-            // Apply transformation if needed (in reverse)
-            if (rule.type === 'transform') {
-              value = this.applyReverseTransformation(value, rule.transform);
-            }
+  // Make sure every data source of a query exists and is connected
+  private async connectQuerySources(sourceIds: number[]): Promise<void> {
+    for (const sourceId of sourceIds) {
+      const dataSource = this.dataSources.get(sourceId);
+      if (!dataSource) {
+        throw new Error(`Data source ${sourceId} not found`);
+      }
 
-            mappedItem[rule.sourceField] = value;
-          }
+      // Connect if not already connected
+      if (!this.sourceServices.has(sourceId)) {
+        const success = await this.connectToDataSource(dataSource);
+        if (!success) {
+          const reason = this.dataSources.get(sourceId)?.lastError;
+          throw new Error(`Failed to connect to data source ${sourceId}${reason ? `: ${reason}` : ""}`);
         }
       }
-
-      result.push(mappedItem);
     }
-
-    return result;
   }
 
-  private applyTransformation(value: any, transform: string): any {
-    // If no transform is specified, return the value as is
-    if (!transform) return value;
-
-    try {
-      switch (transform) {
-        case 'uppercase':
-          return typeof value === 'string' ? value.toUpperCase() : value;
+  private plannerSources(sourceIds: number[]): PlannerSource[] {
+    return sourceIds
+      .filter(sourceId => this.sourceServices.has(sourceId))
+      .map(sourceId => {
+        const dataSource = this.dataSources.get(sourceId)!;
+        return { sourceId, name: dataSource.name, type: dataSource.type, service: this.sourceServices.get(sourceId)! };
+      });
+  }
 
-        case 'lowercase':
-          return typeof value === 'string' ? value.toLowerCase() : value;
+  // With an access context the plan is rejected when it reads anything the user has no grant for
+  private async planQuery(query: Query, params: Record<string, any>, access?: AccessContext): Promise<QueryPlan> {
+    // Validate that the data sources exist
+    if (!query.dataSources || !Array.isArray(query.dataSources) || query.dataSources.length === 0) {
+      throw new Error("No data sources specified for query");
+    }
 
-        case 'trim':
-          return typeof value === 'string' ? value.trim() : value;
+    await this.connectQuerySources(query.dataSources);
 
-        case 'to-number':
-          return typeof value === 'string' ? Number(value) : value;
+    // Parse the query into an AST and work out what each source can evaluate itself, and which
+    // collections active mappings also supply
+    const statement = parseSql(query.query);
+    const mappings = Array.from(this.mappings.values()).filter(mapping => mapping.status === 'active');
+    const plan = await queryPlanner.plan(statement, this.plannerSources(query.dataSources), params, mappings);
+    if (access) {
+      accessControl.authorizePlan(access, plan);
+    }
+    return plan;
+  }
 
-        case 'to-string':
-          return value !== null && value !== undefined ? String(value) : value;
+  // Reject a query the user's grants don't allow, without running it
+  async authorizeQuery(query: Query, params: Record<string, any>, access: AccessContext): Promise<void> {
+    await this.authorize(query, params, access);
+  }
 
-        case 'to-date':
-          return value !== null && value !== undefined ? new Date(value) : value;
+  // Check a query against the user's grants before it runs or stored results are served.
+  // Returns the plan when one had to be made, so it isn't made twice.
+  private async authorize(query: Query, params: Record<string, any>, access?: AccessContext): Promise<QueryPlan | undefined> {
+    if (!access || access.grants === null) return undefined;
+    return this.planQuery(query, params, access);
+  }
 
-        default:
-          return value;
+  // `refresh` recomputes stored materialized results instead of serving them (used by the scheduler);
+  // `access` limits the query to what that user may read and masks what their role isn't exempt from
+  // (the scheduler reads everything, masked by every policy, and also refreshes the results stored
+  // for roles exempt from some policies)
+  async executeQuery(query: Query, params?: Record<string, any>, options: { refresh?: boolean; access?: AccessContext } = {}): Promise<any> {
+    const plan = await this.authorize(query, params || {}, options.access);
+    const masks = await dataMasking.policiesFor(options.access?.user);
+
+    // Saved materialized queries are served from stored results, which are stored masked; ad-hoc queries always run
+    if (query.federationStrategy === 'materialized' && query.id > 0) {
+      const run = () => this.runQuery(query, params, plan, masks);
+      const result = await materializedViews.execute(query, params || {}, run, options.refresh, dataMasking.variant(masks));
+      if (options.refresh && !options.access) {
+        await this.refreshMaskingVariants(query, params || {}, masks);
       }
-    } catch (error) {
-      console.error(`Error applying transformation ${transform}:`, error);
-      return value;
+      return result;
     }
+    return this.runQuery(query, params, plan, masks);
   }
 
-  private applyReverseTransformation(value: any, transform: string): any {
-    // For simple transformations, we can just return the value
-    return value;
+  // Refresh the results stored for the other masking variants, each masked by its own policies.
+  // Policy changes drop stored results, so every policy a variant names still exists.
+  private async refreshMaskingVariants(query: Query, params: Record<string, any>, policies: MaskingPolicy[]): Promise<void> {
+    const refreshed = dataMasking.variant(policies);
+    for (const variant of await materializedViews.storedVariants(query.id, params)) {
+      if (variant === refreshed) continue;
+
+      const ids = variant ? variant.split(',') : [];
+      const masks = policies.filter(policy => ids.includes(String(policy.id)));
+      const run = () => this.runQuery(query, params, undefined, masks);
+      await materializedViews.execute(query, params, run, true, variant);
+    }
   }
 
-  async executeQuery(query: Query, params?: Record<string, any>): Promise<any> {
+  private async runQuery(query: Query, params?: Record<string, any>, authorizedPlan?: QueryPlan, masks: MaskingPolicy[] = []): Promise<any> {
     try {
       console.log(`Executing query: ${query.name}`);
       const startTime = Date.now();
 
-      // Validate that the data sources exist
-      if (!query.dataSources || !Array.isArray(query.dataSources) || query.dataSources.length === 0) {
-        throw new Error("No data sources specified for query");
-      }
+      const plan = authorizedPlan ?? await this.planQuery(query, params || {});
+      const hybrid = query.federationStrategy === 'hybrid';
+      const { rows, joins, aggregation, parts } = await this.executePlan(plan, params || {}, hybrid);
 
-      // Make sure all data sources are connected
-      for (const sourceId of query.dataSources) {
-        const dataSource = this.dataSources.get(sourceId);
-        if (!dataSource) {
-          throw new Error(`Data source ${sourceId} not found`);
-        }
+      let combinedResults = this.canonicalRows(plan, this.applyStatement(rows, plan.statement, plan.aggregation, params || {}));
+      combinedResults = dataMasking.maskResults(plan, combinedResults, masks);
 
-        // Connect if not already connected
-        if (!this.sourceServices.has(sourceId)) {
-          const success = await this.connectToDataSource(dataSource);
-          if (!success) {
-            throw new Error(`Failed to connect to data source ${sourceId}`);
-          }
-        }
+      const executionTime = Date.now() - startTime;
+
+      return {
+        results: combinedResults,
+        executionTime,
+        ...this.resultFreshness(parts, hybrid),
+        ...this.scanSummary(parts),
+        joins,
+        aggregation,
+      };
+    } catch (error) {
+      console.error("Error executing federated query:", error);
+      throw error;
+    }
+  }
+
+  // Run a query and pass its output to `emit` as it is produced: progress per source page, row
+  // batches and a final summary. Rows go out page by page when nothing in the statement needs the
+  // whole result first; joins, aggregates, ORDER BY and DISTINCT send their rows once computed.
+  async streamQuery(query: Query, params: Record<string, any> = {}, emit: (event: QueryStreamEvent) => Promise<void>, signal?: AbortSignal, access?: AccessContext): Promise<void> {
+    const startTime = Date.now();
+
+    // Stored materialized results are already complete
+    if (query.federationStrategy === 'materialized' && query.id > 0) {
+      const { results, ...summary } = await this.executeQuery(query, params, { access });
+      for (const rows of rowBatches(results)) {
+        if (signal?.aborted) return;
+        await emit({ type: 'rows', rows });
       }
+      await emit({ type: 'summary', ...summary, rowCount: results.length, streamed: false });
+      return;
+    }
 
-      // Parse and execute the query
-      // For this example, we'll use a simplified query format
-      // In a real system, you'd have a proper query language parser
+    console.log(`Streaming query: ${query.name}`);
+    const plan = await this.planQuery(query, params, access);
+    const masks = await dataMasking.policiesFor(access?.user);
+    const hybrid = query.federationStrategy === 'hybrid';
+
+    if (plan.joined || plan.aggregation || plan.statement.distinct || plan.statement.orderBy.length > 0) {
+      const { rows, joins, aggregation, parts } = await this.executePlan(plan, params, hybrid, emit);
+      const results = dataMasking.maskResults(plan, this.canonicalRows(plan, this.applyStatement(rows, plan.statement, plan.aggregation, params)), masks);
+      for (const batch of rowBatches(results)) {
+        if (signal?.aborted) return;
+        await emit({ type: 'rows', rows: batch });
+      }
+      await emit({
+        type: 'summary',
+        rowCount: results.length,
+        streamed: false,
+        executionTime: Date.now() - startTime,
+        ...this.resultFreshness(parts, hybrid),
+        ...this.scanSummary(parts),
+        joins,
+        aggregation,
+      });
+      return;
+    }
 
-      // For now, we'll just support simple collection-based queries with filters
-      const queryResults: Record<string, any[]> = {};
+    // A single table: filter, project and limit each page as it arrives
+    const { columns, offset = 0, limit } = plan.statement;
+    const parts: any[] = [];
+    let skipped = 0;
+    let sent = 0;
+
+    for (const scan of plan.tables[0].scans) {
+      if (signal?.aborted || (limit !== undefined && sent >= limit)) break;
+
+      const mode = this.scanMode(scan, hybrid);
+      let fetched = 0;
+      try {
+        for await (const page of this.readScan(scan, hybrid, parts, true)) {
+          fetched += page.length;
+          await emit({ type: 'progress', sourceId: scan.source.sourceId, collection: scan.collection, alias: scan.alias, mode, rows: fetched, done: false });
+
+          const rows: Record<string, any>[] = [];
+          for (const document of page) {
+            if (limit !== undefined && sent + rows.length >= limit) break;
+
+            const row = { ...document, __source: String(scan.source.sourceId) };
+            if (scan.localFilter && !matchesPredicate(scan.localFilter, row, params)) continue;
+            if (plan.residual && !matchesPredicate(plan.residual, row, params)) continue;
+            if (skipped < offset) {
+              skipped++;
+              continue;
+            }
+            rows.push(projectRow(columns, row, params));
+          }
 
-      // Extract parameters from the SQL-like query string
-      // This is a simplified parsing logic
-      const collectionMatches = query.query.match(/FROM\s+([a-zA-Z0-9_.]+)/i);
-      const selectMatches = query.query.match(/SELECT\s+(.+?)\s+FROM/i); // Added to extract selected columns
-      const whereMatches = query.query.match(/WHERE\s+(.+?)(?:ORDER BY|GROUP BY|LIMIT|$)/is);
-      const limitMatches = query.query.match(/LIMIT\s+(\d+)/i);
-      const orderByMatches = query.query.match(/ORDER BY\s+(.+?)(?:WHERE|GROUP BY|LIMIT|$)/is);
+          if (rows.length > 0) {
+            sent += rows.length;
+            await emit({ type: 'rows', rows: dataMasking.maskResults(plan, this.canonicalRows(plan, rows), masks) });
+          }
+          // Leaving the loop early stops the source (e.g. closes the MongoDB cursor)
+          if (signal?.aborted || (limit !== undefined && sent >= limit)) break;
+        }
+      } catch (error) {
+        throw await this.scanFailed(scan, error);
+      }
+      await emit({ type: 'progress', sourceId: scan.source.sourceId, collection: scan.collection, alias: scan.alias, mode, rows: fetched, done: true });
+    }
 
-      if (collectionMatches) {
-        // Each source should potentially have this collection
-        for (const sourceId of query.dataSources) {
-          const service = this.sourceServices.get(sourceId);
-          if (!service) continue;
+    if (signal?.aborted) return;
+    await emit({
+      type: 'summary',
+      rowCount: sent,
+      streamed: true,
+      executionTime: Date.now() - startTime,
+      ...this.resultFreshness(parts, hybrid),
+      ...this.scanSummary(parts),
+      joins: [],
+      aggregation: null,
+    });
+  }
 
-          const collectionName = collectionMatches[1].trim();
-          const selectedColumns = selectMatches ? selectMatches[1].trim().split(',').map(col => col.trim()) : undefined; // Added column selection
+  // One page of a query's results plus `nextCursor`, a token for the page after it (null on the
+  // last page). Single-table statements read each source from where the previous page stopped;
+  // statements that need every row first are computed once and later pages read the stored result.
+  async executeQueryPage(query: Query, params: Record<string, any> = {}, pageSize: number, token?: string | null, access?: AccessContext): Promise<any> {
+    // Stored pages are masked, so a cursor only continues for users masked the same way
+    const masks = await dataMasking.policiesFor(access?.user);
+    const fingerprint = queryFingerprint(query, params, dataMasking.variant(masks));
+    const cursor = token ? decodeCursor(token, fingerprint) : undefined;
+
+    // Grants can be revoked between pages
+    if (cursor?.mode === 'stored') {
+      await this.authorize(query, params, access);
+      return this.storedPage(fingerprint, cursor.file, cursor.offset, pageSize);
+    }
 
-          // Prepare query parameters
-          const queryParams: any = { selectedColumns }; // Pass selected columns to the service
+    const startTime = Date.now();
+    const materialized = query.federationStrategy === 'materialized' && query.id > 0;
+    const plan = materialized ? null : await this.planQuery(query, params, access);
 
-          // Parse WHERE conditions
-          if (whereMatches) {
-            queryParams.filters = this.parseWhereConditions(whereMatches[1], params || {});
-          }
+    if (!plan || plan.joined || plan.aggregation || plan.statement.distinct || plan.statement.orderBy.length > 0) {
+      const { results, ...summary } = await this.executeQuery(query, params, { access });
+      if (results.length <= pageSize) {
+        return { results, ...summary, pageSize, nextCursor: null };
+      }
 
-          // Parse LIMIT
-          if (limitMatches) {
-            queryParams.limit = parseInt(limitMatches[1], 10);
-          }
+      await this.sweepStoredPages();
+      const file = `${STORED_PAGE_PREFIX}${randomUUID()}`;
+      await fileStorage.storeData(file, results);
+      return {
+        results: results.slice(0, pageSize),
+        ...summary,
+        pageSize,
+        nextCursor: encodeCursor({ fingerprint, mode: 'stored', file, offset: pageSize }),
+      };
+    }
 
-          // Parse ORDER BY
-          if (orderByMatches) {
-            queryParams.orderBy = this.parseOrderBy(orderByMatches[1]);
-          }
+    // A single table: continue each source scan where the last page stopped
+    const { columns, offset = 0, limit } = plan.statement;
+    const hybrid = query.federationStrategy === 'hybrid';
+    const scans = plan.tables[0].scans;
+    const parts: any[] = [];
+    const results: Record<string, any>[] = [];
+    const position = cursor?.mode === 'scan' ? cursor : { scan: 0, source: null as string | null, skipped: 0, sent: 0 };
+    let { scan: scanIndex, source: sourceCursor, skipped, sent } = position;
+
+    while (scanIndex < scans.length && results.length < pageSize && (limit === undefined || sent < limit)) {
+      const scan = scans[scanIndex];
+
+      // Never fetch more rows than this page can use, so the source cursor stays exact
+      const capacity = Math.min(pageSize - results.length, limit === undefined ? Infinity : limit - sent);
+      const fetchSize = capacity + Math.min(offset - skipped, pageSize);
+
+      let page: SourcePage;
+      try {
+        page = await this.readScanPage(scan, hybrid, parts, fetchSize, sourceCursor);
+      } catch (error) {
+        // A cursor the source can't continue from is the caller's problem
+        if (sourceCursor) throw error;
+        throw await this.scanFailed(scan, error);
+      }
 
-          // Execute the query against this data source
-          try {
-            const results = await service.executeQuery(collectionName, queryParams);
-            queryResults[sourceId] = results;
-          } catch (error) {
-            console.error(`Error executing query on source ${sourceId}:`, error);
-            queryResults[sourceId] = [];
-          }
+      for (const document of page.rows) {
+        const row = { ...document, __source: String(scan.source.sourceId) };
+        if (scan.localFilter && !matchesPredicate(scan.localFilter, row, params)) continue;
+        if (plan.residual && !matchesPredicate(plan.residual, row, params)) continue;
+        if (skipped < offset) {
+          skipped++;
+          continue;
         }
+        results.push(projectRow(columns, row, params));
+        sent++;
       }
 
-      // Apply schema mappings if defined
-      let combinedResults = this.combineResults(queryResults, query);
-
-      // Apply any federation strategy-specific logic
-      if (query.federationStrategy === 'materialized') {
-        // For materialized view, we would normally save the results to a cache
-        console.log('Using materialized view strategy - results would be cached');
+      // A cursor that doesn't move would never finish the scan
+      if (page.cursor && page.cursor !== sourceCursor) {
+        sourceCursor = page.cursor;
+      } else {
+        scanIndex++;
+        sourceCursor = null;
       }
+    }
 
-      const executionTime = Date.now() - startTime;
+    const done = scanIndex >= scans.length || (limit !== undefined && sent >= limit);
+    return {
+      results: dataMasking.maskResults(plan, this.canonicalRows(plan, results), masks),
+      executionTime: Date.now() - startTime,
+      ...this.resultFreshness(parts, hybrid),
+      ...this.scanSummary(parts),
+      joins: [],
+      aggregation: null,
+      pageSize,
+      nextCursor: done ? null : encodeCursor({ fingerprint, mode: 'scan', scan: scanIndex, source: sourceCursor, skipped, sent }),
+    };
+  }
 
-      return {
-        results: combinedResults,
-        executionTime,
-        lastUpdated: new Date().toISOString(),
-        nextUpdate: query.federationStrategy === 'materialized' ? new Date(Date.now() + 15 * 60 * 1000).toISOString() : null,
-        cacheHit: false,
-      };
-    } catch (error) {
-      console.error("Error executing federated query:", error);
-      throw error;
+  // A page of a complete result kept by an earlier page; the file is removed after the last page,
+  // or once its cursors expire when the client stops paging early
+  private async storedPage(fingerprint: string, file: string, offset: number, pageSize: number): Promise<any> {
+    const startTime = Date.now();
+    await this.sweepStoredPages();
+    const stored = await fileStorage.loadData(file);
+    if (!Array.isArray(stored)) {
+      throw new Error("Cursor has expired; run the query again");
+    }
+
+    const page = pageByOffset(stored, pageSize, String(offset));
+    if (!page.cursor) {
+      await fileStorage.deleteFile(file);
     }
+
+    return {
+      results: page.rows,
+      executionTime: Date.now() - startTime,
+      lastUpdated: new Date().toISOString(),
+      nextUpdate: null,
+      cacheHit: true,
+      pageSize,
+      nextCursor: page.cursor
+        ? encodeCursor({ fingerprint, mode: 'stored', file, offset: parseInt(page.cursor, 10) })
+        : null,
+    };
   }
 
-  private parseWhereConditions(whereClause: string, params: Record<string, any>): any[] {
-    const filters = [];
+  // Remove stored results whose cursors have expired
+  private async sweepStoredPages() {
+    const removed = await fileStorage.deleteFilesOlderThan(STORED_PAGE_PREFIX, STORED_PAGE_TTL);
+    if (removed > 0) {
+      console.log(`Removed ${removed} expired stored result page file(s)`);
+    }
+  }
 
-    // Looking for patterns like field = value, field > value, etc.
-    // This is a very simplified parser for demonstration
+  // Hybrid results change when the first snapshot they were built from is refreshed
+  private resultFreshness(parts: any[], hybrid: boolean) {
+    const cached = parts.filter(part => part.mode === 'snapshot');
+    const live = parts.filter(part => part.mode === 'live');
+    const nextUpdate = cached.length > 0
+      ? new Date(Math.min(...cached.map(part => new Date(part.nextUpdate).getTime()))).toISOString()
+      : null;
+
+    return {
+      lastUpdated: new Date().toISOString(),
+      nextUpdate,
+      cacheHit: cached.length > 0 && live.length === 0,
+      ...(hybrid ? { hybrid: { cached, live } } : {}),
+    };
+  }
 
-    // Split by AND (we're not handling OR for simplicity)
-    const conditions = whereClause.split(/\bAND\b/i);
+  // How many rows each source scan read; whether any source hit its row budget or served sample data;
+  // which mappings translated the rows of mapped scans
+  private scanSummary(parts: any[]): { truncated: boolean; sampleData: boolean; scanned: ScanCount[]; mappings: MappingUse[] } {
+    const scanned = parts.map(({ sourceId, collection, alias, mode, rows, truncated, sample }) => ({ sourceId, collection, alias, mode, rows, truncated, sample }));
+    const mappings = parts.filter(part => part.mapping).map(part => part.mapping);
+    return { truncated: scanned.some(scan => scan.truncated), sampleData: scanned.some(scan => scan.sample), scanned, mappings };
+  }
 
-    for (const condition of conditions) {
-      // Match different operator patterns
-      const operatorMatch = condition.match(/\s*([a-zA-Z0-9_.]+)\s*(=|!=|>|>=|<|<=|LIKE|IN)\s*(.+)/i);
+  // Plan a query without running it: the operator tree, what each source runs natively and row estimates
+  async explainQuery(query: Query, params?: Record<string, any>, access?: AccessContext): Promise<any> {
+    const plan = await this.planQuery(query, params || {}, access);
+    return queryPlanner.explain(plan);
+  }
 
-      if (operatorMatch) {
-        const [, field, op, valueStr] = operatorMatch;
-        let operator: string;
-        let value: any;
+  // Snapshot refresh interval (minutes) when the source marks the collection as slowly changing
+  private snapshotInterval(sourceId: number, collection: string): number | undefined {
+    const snapshotCollections = (this.dataSources.get(sourceId)?.snapshotCollections || {}) as Record<string, number>;
+    return snapshotCollections[collection];
+  }
 
-        // Convert SQL operators to our internal format
-        switch (op.toUpperCase()) {
-          case '=': operator = '=='; break;
-          case '!=': operator = '!='; break;
-          case '>': operator = '>'; break;
-          case '>=': operator = '>='; break;
-          case '<': operator = '<'; break;
-          case '<=': operator = '<='; break;
-          case 'LIKE': operator = 'array-contains'; break;
-          case 'IN': operator = 'in'; break;
-          default: operator = '==';
-        }
+  private scanMode(scan: ScanPlan, snapshots: boolean): 'live' | 'snapshot' {
+    return snapshots && this.snapshotInterval(scan.source.sourceId, scan.collection) !== undefined ? 'snapshot' : 'live';
+  }
 
-        // Process the value
-        const trimmedValueStr = valueStr.trim();
-
-        // Check if it's a parameter reference
-        if (trimmedValueStr.startsWith(':')) {
-          const paramName = trimmedValueStr.substring(1);
-          if (params && params[paramName] !== undefined) {
-            value = params[paramName];
-          } else {
-            console.warn(`Parameter ${paramName} not provided`);
-            continue;
-          }
-        } 
-        // Check if it's a string literal
-        else if (trimmedValueStr.match(/^['"].*['"]$/)) {
-          value = trimmedValueStr.substring(1, trimmedValueStr.length - 1);
-        } 
-        // Check if it's a number
-        else if (!isNaN(Number(trimmedValueStr))) {
-          value = Number(trimmedValueStr);
-        } 
-        // Otherwise treat as an unknown value type
-        else {
-          value = trimmedValueStr;
-        }
+  // A scan's rows, from the collection's snapshot or the live source, recording which in `parts`.
+  // Paged reads come from the source page by page; otherwise the rows arrive as one page.
+  // Rows of a mapped scan come translated by its mapping.
+  // No more than the source's row budget is read: the source is asked for one row over it,
+  // and getting that row marks the scan as truncated.
+  private async *readScan(scan: ScanPlan, snapshots: boolean, parts: any[], paged: boolean): AsyncGenerator<any[]> {
+    const budget = this.rowBudget(scan.source.sourceId);
+    const queryParams = { ...scan.queryParams, limit: Math.min(scan.queryParams.limit ?? Infinity, budget + 1) };
+
+    const refreshInterval = snapshots ? this.snapshotInterval(scan.source.sourceId, scan.collection) : undefined;
+    if (refreshInterval !== undefined) {
+      const snapshot = await collectionSnapshots.read(scan.source.sourceId, scan.source.service, scan.collection, refreshInterval);
+      const part = {
+        mode: 'snapshot',
+        sourceId: scan.source.sourceId,
+        collection: scan.collection,
+        alias: scan.alias,
+        lastUpdated: snapshot.lastUpdated.toISOString(),
+        nextUpdate: snapshot.nextUpdate.toISOString(),
+        stale: snapshot.stale,
+        rows: 0,
+        truncated: false,
+        sample: scan.source.service.usesSampleData(),
+      };
+      parts.push(part);
+      yield this.mapScanRows(scan, part, this.withinBudget(applySourceQuery(snapshot.rows, queryParams), part, budget));
+      return;
+    }
 
-        filters.push({ field: field.trim(), operator, value });
-      }
+    const part = {
+      mode: 'live',
+      sourceId: scan.source.sourceId,
+      collection: scan.collection,
+      alias: scan.alias,
+      rows: 0,
+      truncated: false,
+      sample: scan.source.service.usesSampleData(),
+    };
+    parts.push(part);
+    if (!paged) {
+      yield this.mapScanRows(scan, part, this.withinBudget(await scan.source.service.executeQuery(scan.collection, queryParams), part, budget));
+      return;
     }
 
-    return filters;
+    for await (const page of readSource(scan.source.service, scan.collection, queryParams)) {
+      yield this.mapScanRows(scan, part, this.withinBudget(page, part, budget));
+      // Leaving the loop stops the source
+      if (part.truncated) return;
+    }
   }
 
-  private parseOrderBy(orderByClause: string): Record<string, string> {
-    const result: Record<string, string> = {};
+  // Count rows a scan read, dropping any past the source's row budget
+  private withinBudget(rows: any[], part: { rows: number; truncated: boolean }, budget: number): any[] {
+    const remaining = budget - part.rows;
+    if (rows.length > remaining) {
+      part.truncated = true;
+      rows = rows.slice(0, remaining);
+    }
+    part.rows += rows.length;
+    return rows;
+  }
 
-    // Split by commas for multiple order by fields
-    const parts = orderByClause.split(',');
+  // A page of a scan's rows, from the collection's snapshot or the live source, recording which in `parts`
+  // and translated by the scan's mapping.
+  // The source's own limit is dropped: paging decides how many rows to read, so the row budget
+  // doesn't apply and paging is the way to read past it.
+  private async readScanPage(scan: ScanPlan, snapshots: boolean, parts: any[], pageSize: number, cursor: string | null): Promise<SourcePage> {
+    const { limit: _limit, ...queryParams } = scan.queryParams;
+    const refreshInterval = snapshots ? this.snapshotInterval(scan.source.sourceId, scan.collection) : undefined;
+    if (refreshInterval !== undefined) {
+      const snapshot = await collectionSnapshots.read(scan.source.sourceId, scan.source.service, scan.collection, refreshInterval);
+      const part = {
+        mode: 'snapshot',
+        sourceId: scan.source.sourceId,
+        collection: scan.collection,
+        alias: scan.alias,
+        lastUpdated: snapshot.lastUpdated.toISOString(),
+        nextUpdate: snapshot.nextUpdate.toISOString(),
+        stale: snapshot.stale,
+        rows: 0,
+        truncated: false,
+        sample: scan.source.service.usesSampleData(),
+      };
+      parts.push(part);
+      const page = pageByOffset(applySourceQuery(snapshot.rows, queryParams), pageSize, cursor);
+      part.rows = page.rows.length;
+      return { ...page, rows: this.mapScanRows(scan, part, page.rows) };
+    }
 
-    for (const part of parts) {
-      const match = part.trim().match(/([a-zA-Z0-9_.]+)(?:\s+(ASC|DESC))?/i);
+    const part = {
+      mode: 'live',
+      sourceId: scan.source.sourceId,
+      collection: scan.collection,
+      alias: scan.alias,
+      rows: 0,
+      truncated: false,
+      sample: scan.source.service.usesSampleData(),
+    };
+    parts.push(part);
+    const page = scan.source.service.executePage
+      ? await scan.source.service.executePage(scan.collection, queryParams, pageSize, cursor)
+      : pageByOffset(await scan.source.service.executeQuery(scan.collection, queryParams), pageSize, cursor);
+    part.rows = page.rows.length;
+    return { ...page, rows: this.mapScanRows(scan, part, page.rows) };
+  }
 
-      if (match) {
-        const [, field, direction] = match;
-        result[field.trim()] = direction?.toUpperCase() === 'DESC' ? 'desc' : 'asc';
+  // Fetch, filter, join and group rows as the plan describes. With snapshots enabled (hybrid
+  // strategy), collections marked on their source are read from a stored snapshot instead.
+  // With a progress listener, sources are read page by page and every page is reported.
+  private async executePlan(plan: QueryPlan, params: Record<string, any>, snapshots: boolean = false, onProgress?: ProgressListener): Promise<{ rows: any[]; joins: any[]; aggregation: any; parts: any[] }> {
+    const parts: any[] = [];
+
+    // Let the source group and aggregate when the planner allows it
+    const pushdown = plan.aggregationPushdown;
+    if (pushdown && this.scanMode(pushdown.scan, snapshots) === 'live') {
+      const { scan, spec } = pushdown;
+      try {
+        const rows = await scan.source.service.executeAggregation?.(scan.collection, spec);
+        if (rows) {
+          parts.push({ mode: 'live', sourceId: scan.source.sourceId, collection: scan.collection, alias: scan.alias, rows: rows.length, truncated: false, sample: false });
+          await onProgress?.({ type: 'progress', sourceId: scan.source.sourceId, collection: scan.collection, alias: scan.alias, mode: 'live', rows: rows.length, done: true });
+          return { rows, joins: [], aggregation: { strategy: 'pushdown', sourceId: scan.source.sourceId, groups: rows.length }, parts };
+        }
+      } catch (error) {
+        console.error(`Error pushing aggregation down to source ${scan.source.sourceId}:`, error);
       }
     }
 
-    return result;
+    // Fetch each table from its sources and apply the predicates they could not run
+    const inputs = await Promise.all(plan.tables.map(async table => {
+      const queryResults: { sourceId: number; rows: any[] }[] = [];
+
+      for (const scan of table.scans) {
+        let documents: any[] = [];
+        try {
+          const progress = { type: 'progress' as const, sourceId: scan.source.sourceId, collection: scan.collection, alias: scan.alias, mode: this.scanMode(scan, snapshots) };
+          for await (const page of this.readScan(scan, snapshots, parts, onProgress !== undefined)) {
+            documents = documents.length === 0 ? page : documents.concat(page);
+            await onProgress?.({ ...progress, rows: documents.length, done: false });
+          }
+          await onProgress?.({ ...progress, rows: documents.length, done: true });
+        } catch (error) {
+          throw await this.scanFailed(scan, error);
+        }
+
+        if (plan.joined) {
+          documents = qualifyRows(documents, table.alias);
+        }
+        queryResults.push({
+          sourceId: scan.source.sourceId,
+          rows: scan.localFilter ? documents.filter(row => matchesPredicate(scan.localFilter, row, params)) : documents,
+        });
+      }
+
+      return plan.joined ? queryResults.flatMap(result => result.rows) : this.combineResults(queryResults);
+    }));
+
+    // Join left to right in the order the query lists the tables
+    let rows = inputs[0];
+    const joined = new Set<string>([plan.tables[0].alias]);
+    const joins: any[] = [];
+
+    plan.statement.joins.forEach((join, index) => {
+      const table = plan.tables[index + 1];
+      const result = executeJoin(rows, inputs[index + 1], join.kind, join.on, joined, table.alias, plan.resolveAlias, params);
+      rows = result.rows;
+      joined.add(table.alias);
+      joins.push({
+        kind: join.kind,
+        collection: table.collection,
+        alias: table.alias,
+        sourceId: table.scans[0].source.sourceId,
+        strategy: result.strategy,
+        rows: rows.length,
+      });
+    });
+
+    // Apply the predicates that span several tables
+    if (plan.residual) {
+      rows = rows.filter(row => matchesPredicate(plan.residual, row, params));
+    }
+
+    let aggregation = null;
+    if (plan.aggregation) {
+      rows = aggregateRows(rows, plan.aggregation, params);
+      aggregation = { strategy: 'in-memory', groups: rows.length };
+    }
+
+    return { rows, joins, aggregation, parts };
   }
 
-  private combineResults(resultsMap: Record<string, any[]>, query: Query): any[] {
+  // A collection's rows from every scan of it; a source can be scanned more than once when
+  // several mappings read its collections
+  private combineResults(results: { sourceId: number; rows: any[] }[]): any[] {
     // Combine results from multiple data sources
     const allResults: any[] = [];
 
-    for (const sourceId in resultsMap) {
-      const sourceResults = resultsMap[sourceId];
-
+    for (const { sourceId, rows } of results) {
       // Add source information to each result
-      const annotatedResults = sourceResults.map(item => ({
+      const annotatedResults = rows.map(item => ({
         ...item,
-        __source: sourceId
+        __source: String(sourceId)
       }));
 
       allResults.push(...annotatedResults);
     }
 
-    // Sort the combined results if necessary
-    const orderByMatches = query.query.match(/ORDER BY\s+(.+?)(?:WHERE|GROUP BY|LIMIT|$)/is);
-    if (orderByMatches) {
-      const orderBy = this.parseOrderBy(orderByMatches[1]);
-
-      if (Object.keys(orderBy).length > 0) {
-        allResults.sort((a, b) => {
-          for (const field in orderBy) {
-            const direction = orderBy[field] === 'desc' ? -1 : 1;
-
-            if (a[field] < b[field]) return -1 * direction;
-            if (a[field] > b[field]) return 1 * direction;
-          }
+    return allResults;
+  }
 
-          return 0;
-        });
-      }
+  // Evaluate the rest of the statement over the fetched (and joined) rows.
+  // For aggregate queries the rows are group rows and the plan's rewritten select list, HAVING and ORDER BY apply.
+  private applyStatement(rows: any[], statement: SelectStatement, plan: AggregationPlan | null, params: Record<string, any>): any[] {
+    const filtered = plan?.having
+      ? rows.filter(row => matchesPredicate(plan.having, row, params))
+      : rows;
+
+    // Project the select list and sort the combined results
+    const columns = plan ? plan.columns : statement.columns;
+    let entries = filtered.map(row => ({ source: row, output: projectRow(columns, row, params) }));
+    entries = sortRows(entries, plan ? plan.orderBy : statement.orderBy, params);
+
+    let results = entries.map(entry => entry.output);
+    if (statement.distinct) {
+      results = distinctRows(results);
     }
 
-    // Apply limit if specified
-    const limitMatches = query.query.match(/LIMIT\s+(\d+)/i);
-    if (limitMatches) {
-      const limit = parseInt(limitMatches[1], 10);
-      return allResults.slice(0, limit);
+    // Apply offset and limit if specified
+    const offset = statement.offset || 0;
+    if (statement.limit !== undefined) {
+      return results.slice(offset, offset + statement.limit);
     }
-
-    return allResults;
+    return offset > 0 ? results.slice(offset) : results;
   }
 
   async getSourceCollectionSchema(sourceId: number, collectionName: string): Promise<any> {
@@ -428,124 +870,18 @@ class QueryFederationService {
       throw new Error(`Data source ${sourceId} not connected`);
     }
 
-    return await service.getCollectionSchema(collectionName);
+    return await service.getSchema(collectionName);
   }
 
   async validateQuery(query: string): Promise<any> {
-    // Simplified query validator
     try {
-      // Check for basic SQL syntax
-      if (!query.match(/SELECT/i)) {
-        return { isValid: false, error: "Query must start with SELECT" };
-      }
-
-      if (!query.match(/FROM/i)) {
-        return { isValid: false, error: "Query must include FROM clause" };
-      }
-
-      // Parse the query to extract relevant information
-      const parsedQuery = this.parseQuery(query);
-      if (!parsedQuery) {
-        return { isValid: false, error: "Failed to parse query" };
-      }
-
+      const parsedQuery = parseSql(query);
       return { isValid: true, parsedQuery };
     } catch (error) {
-      return { isValid: false, error: (error as Error).message };
-    }
-  }
-
-  private parseQuery(query: string): any {
-    try {
-      // Very basic SQL parser to extract collections and fields
-      const selectMatch = query.match(/SELECT\s+(.+?)\s+FROM/i);
-      const fromMatch = query.match(/FROM\s+(.+?)(?:\s+WHERE|\s+ORDER|\s+LIMIT|$)/i);
-      const whereMatch = query.match(/WHERE\s+(.+?)(?:\s+ORDER|\s+LIMIT|$)/i);
-      const orderMatch = query.match(/ORDER\s+BY\s+(.+?)(?:\s+LIMIT|$)/i);
-      const limitMatch = query.match(/LIMIT\s+(\d+)/i);
-
-      if (!selectMatch || !fromMatch) {
-        return null;
-      }
-
-      // Extract columns
-      const columnsStr = selectMatch[1].trim();
-      let columns = ['*'];
-      if (columnsStr !== '*') {
-        columns = columnsStr.split(',').map(col => col.trim());
-      }
-
-      // Extract collections
-      const collectionsStr = fromMatch[1].trim();
-      const collections = collectionsStr.split(',').map(col => col.trim());
-
-      // Extract filters if present
-      const filters = [];
-      if (whereMatch) {
-        const whereClause = whereMatch[1].trim();
-        // Very basic filter parsing, would need to be expanded for real use
-        const filterParts = whereClause.split(/\s+AND\s+/i);
-        
-        for (const part of filterParts) {
-          const operatorMatch = part.match(/(.+?)(=|!=|>|>=|<|<=|LIKE|IN)(.+)/i);
-          if (operatorMatch) {
-            const field = operatorMatch[1].trim();
-            const operator = operatorMatch[2].trim().toLowerCase();
-            const value = operatorMatch[3].trim().replace(/^'|'$/g, '').replace(/^"|"$/g, '');
-            
-            let op = '==';
-            switch (operator) {
-              case '=': op = '=='; break;
-              case '!=': op = '!='; break;
-              case '>': op = '>'; break;
-              case '>=': op = '>='; break;
-              case '<': op = '<'; break;
-              case '<=': op = '<='; break;
-              case 'like': op = 'like'; break;
-              case 'in': op = 'in'; break;
-            }
-            
-            filters.push({
-              field,
-              operator: op,
-              value
-            });
-          }
-        }
+      if (error instanceof SqlParseError) {
+        return { isValid: false, error: error.message, line: error.line, column: error.column };
       }
-
-      // Extract order by if present
-      const orderBy = {};
-      if (orderMatch) {
-        const orderClause = orderMatch[1].trim();
-        const orderParts = orderClause.split(',');
-        
-        for (const part of orderParts) {
-          const orderMatch = part.trim().match(/(.+?)(?:\s+(ASC|DESC))?$/i);
-          if (orderMatch) {
-            const field = orderMatch[1].trim();
-            const direction = (orderMatch[2] || 'ASC').toUpperCase() === 'DESC' ? 'desc' : 'asc';
-            orderBy[field] = direction;
-          }
-        }
-      }
-
-      // Extract limit if present
-      let limitValue = null;
-      if (limitMatch) {
-        limitValue = parseInt(limitMatch[1], 10);
-      }
-
-      return {
-        columns,
-        collections,
-        filters,
-        orderBy: Object.keys(orderBy).length > 0 ? orderBy : null,
-        limit: limitValue
-      };
-    } catch (error) {
-      console.error("Error parsing query:", error);
-      return null;
+      return { isValid: false, error: (error as Error).message };
     }
   }
 }
@@ -0,0 +1,61 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Query } from "@shared/schema";
+import { decodeCursor, encodeCursor, pageByOffset, queryFingerprint, type QueryCursor } from "./query-pagination";
+
+const query = { id: 4, query: "SELECT * FROM users WHERE id = :id", dataSources: [1, 2], federationStrategy: "real-time" } as unknown as Query;
+
+describe("queryFingerprint", () => {
+  it("changes with the query, its parameters and the masking variant", () => {
+    const fingerprint = queryFingerprint(query, { id: 1 });
+
+    assert.equal(queryFingerprint(query, { id: 1 }), fingerprint);
+    assert.notEqual(queryFingerprint(query, { id: 2 }), fingerprint);
+    assert.notEqual(queryFingerprint({ ...query, query: "SELECT id FROM users WHERE id = :id" }, { id: 1 }), fingerprint);
+    assert.notEqual(queryFingerprint({ ...query, dataSources: [1] }, { id: 1 }), fingerprint);
+    assert.notEqual(queryFingerprint(query, { id: 1 }, "3,5"), fingerprint);
+  });
+});
+
+describe("encodeCursor and decodeCursor", () => {
+  const fingerprint = queryFingerprint(query, {});
+
+  it("round-trip scan and stored cursors as URL-safe tokens", () => {
+    const cursors: QueryCursor[] = [
+      { fingerprint, mode: 'scan', scan: 1, source: '["Ada",{"$oid":"65f0"}]', skipped: 10, sent: 100 },
+      { fingerprint, mode: 'stored', file: 'page_1234', offset: 200 },
+    ];
+
+    for (const cursor of cursors) {
+      const token = encodeCursor(cursor);
+      assert.match(token, /^[A-Za-z0-9_-]+$/);
+      assert.deepEqual(decodeCursor(token, fingerprint), cursor);
+    }
+  });
+
+  it("rejects tokens that aren't cursors", () => {
+    assert.throws(() => decodeCursor("%%%", fingerprint), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from("null").toString("base64url"), fingerprint), /Invalid cursor/);
+    assert.throws(() => decodeCursor(Buffer.from(JSON.stringify({ fingerprint, mode: 'other' })).toString("base64url"), fingerprint), /Invalid cursor/);
+  });
+
+  it("rejects cursors issued for another query or parameters", () => {
+    const token = encodeCursor({ fingerprint: queryFingerprint(query, { id: 1 }), mode: 'stored', file: 'page_1', offset: 1 });
+    assert.throws(() => decodeCursor(token, queryFingerprint(query, { id: 2 })), /different query or parameters/);
+  });
+});
+
+describe("pageByOffset", () => {
+  const rows = [{ n: 1 }, { n: 2 }, { n: 3 }, { n: 4 }, { n: 5 }];
+
+  it("pages in-memory rows with the next offset as the cursor", () => {
+    assert.deepEqual(pageByOffset(rows, 2, null), { rows: [{ n: 1 }, { n: 2 }], cursor: "2" });
+    assert.deepEqual(pageByOffset(rows, 2, "4"), { rows: [{ n: 5 }], cursor: null });
+    assert.deepEqual(pageByOffset(rows, 5, null), { rows, cursor: null });
+  });
+
+  it("rejects offsets that aren't non-negative integers", () => {
+    assert.throws(() => pageByOffset(rows, 2, "-1"), /Invalid source cursor/);
+    assert.throws(() => pageByOffset(rows, 2, "abc"), /Invalid source cursor/);
+  });
+});
@@ -0,0 +1,61 @@
+import { createHash } from "crypto";
+import type { Query } from "@shared/schema";
+import type { SourcePage } from "./data-source-connector";
+
+// Continuation tokens for paged query execution. A token is opaque to clients: base64url JSON
+// holding where the next page starts, tied to the query and parameters it was issued for.
+//
+// - "scan" cursors walk the table's source scans in order; `source` is the cursor the current
+//   scan's connector returned (Firestore document id, MongoDB sort key and _id, or an offset).
+// - "stored" cursors page through a complete result that was computed once and kept in a temp
+//   file, for statements that need every row first (joins, aggregates, ORDER BY, DISTINCT).
+export type QueryCursor =
+  | { fingerprint: string; mode: 'scan'; scan: number; source: string | null; skipped: number; sent: number }
+  | { fingerprint: string; mode: 'stored'; file: string; offset: number };
+
+export const DEFAULT_PAGE_SIZE = 100;
+
+// How long a stored result is kept for its "stored" cursors, counted from when it was computed
+export const STORED_PAGE_TTL = 30 * 60 * 1000;
+
+export function queryFingerprint(query: Query, params: Record<string, any>, maskingVariant = ""): string {
+  return createHash("sha256")
+    .update(JSON.stringify([query.id, query.query, query.dataSources, query.federationStrategy, params, maskingVariant]))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export function encodeCursor(cursor: QueryCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+export function decodeCursor(token: string, fingerprint: string): QueryCursor {
+  let cursor: QueryCursor;
+  try {
+    cursor = JSON.parse(Buffer.from(token, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (!cursor || (cursor.mode !== 'scan' && cursor.mode !== 'stored')) {
+    throw new Error("Invalid cursor");
+  }
+  if (cursor.fingerprint !== fingerprint) {
+    throw new Error("Cursor was issued for a different query or parameters");
+  }
+  return cursor;
+}
+
+// Page rows that are already in memory; the cursor is the offset of the next page
+export function pageByOffset(rows: Record<string, any>[], pageSize: number, cursor: string | null): SourcePage {
+  const offset = cursor ? parseInt(cursor, 10) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error("Invalid source cursor");
+  }
+
+  const next = offset + pageSize;
+  return {
+    rows: rows.slice(offset, next),
+    cursor: next < rows.length ? String(next) : null,
+  };
+}
@@ -0,0 +1,179 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SchemaMapping } from "@shared/schema";
+import type { DataSourceConnector, SourceCapabilities } from "./data-source-connector";
+import { parseExpression, parseSql } from "./sql-parser";
+import { queryPlanner, toSourceFilter, type PlannerSource } from "./query-planner";
+
+const FULL: SourceCapabilities = {
+  operators: ['==', '!=', '<', '<=', '>', '>=', 'in', 'not-in'],
+  or: true,
+  not: true,
+  negationInOr: true,
+  projection: true,
+  sort: true,
+  limit: true,
+  aggregation: true,
+};
+
+// A connector that only answers the planner's questions
+function source(sourceId: number, collections: Record<string, string[]>, capabilities: Partial<SourceCapabilities> = {}): PlannerSource {
+  const service = {
+    listCollections: async () => Object.keys(collections),
+    getSchema: async (name: string) => ({ name, fields: (collections[name] ?? []).map(field => ({ name: field, type: 'string' })) }),
+    getCapabilities: () => ({ ...FULL, ...capabilities }),
+    estimateRowCount: async () => 1000,
+    executeAggregation: async () => null,
+  } as unknown as DataSourceConnector;
+  return { sourceId, name: `source ${sourceId}`, type: 'test', service };
+}
+
+const own = (expression: { type: string; name?: string }) => expression.type === 'column' ? expression.name! : null;
+
+describe("toSourceFilter", () => {
+  it("translates comparisons, flipping a literal on the left", () => {
+    assert.deepEqual(toSourceFilter(parseExpression("100 < amount"), {}, own), { field: 'amount', operator: '>', value: 100 });
+    assert.deepEqual(toSourceFilter(parseExpression("status = :status"), { status: 'open' }, own), { field: 'status', operator: '==', value: 'open' });
+  });
+
+  it("translates IN, BETWEEN and boolean trees", () => {
+    assert.deepEqual(toSourceFilter(parseExpression("id NOT IN (:ids)"), { ids: [1, 2] }, own), { field: 'id', operator: 'not-in', value: [1, 2] });
+    assert.deepEqual(toSourceFilter(parseExpression("NOT (a = 1 OR b BETWEEN 2 AND 3)"), {}, own), {
+      type: 'not',
+      filter: {
+        type: 'or',
+        filters: [
+          { field: 'a', operator: '==', value: 1 },
+          { type: 'and', filters: [{ field: 'b', operator: '>=', value: 2 }, { field: 'b', operator: '<=', value: 3 }] },
+        ],
+      },
+    });
+  });
+
+  it("leaves terms it can't translate to the federation layer", () => {
+    assert.equal(toSourceFilter(parseExpression("UPPER(name) = 'ADA'"), {}, own), null);
+    assert.equal(toSourceFilter(parseExpression("a = b"), {}, own), null);
+    assert.equal(toSourceFilter(parseExpression("a = NULL"), {}, own), null);
+    assert.equal(toSourceFilter(parseExpression("a = 1 AND name LIKE 'A%'"), {}, own), null);
+  });
+});
+
+describe("queryPlanner.plan", () => {
+  it("pushes filters, columns, sort and limit down to a capable source", async () => {
+    const plan = await queryPlanner.plan(
+      parseSql("SELECT name FROM users WHERE age > 30 AND name LIKE 'A%' ORDER BY age DESC LIMIT 5 OFFSET 2"),
+      [source(1, { users: ['name', 'age'] })],
+    );
+
+    const [scan] = plan.tables[0].scans;
+    assert.deepEqual(scan.queryParams.filters, [{ field: 'age', operator: '>', value: 30 }]);
+    assert.deepEqual(scan.localFilter, parseExpression("name LIKE 'A%'"));
+    assert.deepEqual(scan.queryParams.selectedColumns, ['name', 'age']);
+    // The LIKE stays in memory, so the source can't apply the limit
+    assert.equal(scan.queryParams.limit, undefined);
+  });
+
+  it("pushes the limit with the offset added when the source runs every filter and the sort", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT * FROM users WHERE age > 30 ORDER BY age DESC LIMIT 5 OFFSET 2"), [source(1, { users: ['age'] })]);
+
+    const [scan] = plan.tables[0].scans;
+    assert.equal(scan.queryParams.limit, 7);
+    assert.deepEqual(scan.queryParams.orderBy, { age: 'desc' });
+    assert.deepEqual(scan.queryParams.selectedColumns, ['*']);
+  });
+
+  it("fetches nested fields by their path", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT name FROM users WHERE address.city = 'Paris'"), [source(1, { users: ['name', 'address'] })]);
+
+    assert.deepEqual(plan.tables[0].scans[0].queryParams.selectedColumns, ['name', 'address.city']);
+  });
+
+  it("rewrites negations for sources without NOT and re-checks them in memory", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT * FROM users WHERE NOT (age < 18)"), [source(1, { users: ['age'] }, { not: false })]);
+
+    const [scan] = plan.tables[0].scans;
+    assert.deepEqual(scan.queryParams.filters, [{ field: 'age', operator: '>=', value: 18 }]);
+    assert.deepEqual(scan.localFilter, parseExpression("NOT (age < 18)"));
+
+    const negated = await queryPlanner.plan(parseSql("SELECT * FROM users WHERE status != 'closed'"), [source(1, { users: ['status'] })]);
+    assert.deepEqual(negated.tables[0].scans[0].queryParams.filters, [{ field: 'status', operator: '!=', value: 'closed' }]);
+    assert.deepEqual(negated.tables[0].scans[0].localFilter, parseExpression("status != 'closed'"));
+  });
+
+  it("keeps OR in memory for sources that can't run it", async () => {
+    const plan = await queryPlanner.plan(parseSql("SELECT * FROM users WHERE a = 1 OR b = 2"), [source(1, { users: ['a', 'b'] }, { or: false })]);
+
+    const [scan] = plan.tables[0].scans;
+    assert.equal(scan.queryParams.filters, undefined);
+    assert.deepEqual(scan.localFilter, parseExpression("a = 1 OR b = 2"));
+  });
+
+  it("splits join predicates by table and holds back the outer join's nullable side", async () => {
+    const plan = await queryPlanner.plan(
+      parseSql("SELECT u.name, o.total FROM users u LEFT JOIN orders o ON o.userId = u.id WHERE u.age > 30 AND o.total > 5 AND u.id = o.userId"),
+      [source(1, { users: ['id', 'name', 'age'] }), source(2, { orders: ['userId', 'total'] })],
+    );
+
+    const [users, orders] = plan.tables;
+    assert.equal(users.scans[0].source.sourceId, 1);
+    assert.deepEqual(users.scans[0].queryParams.filters, [{ field: 'age', operator: '>', value: 30 }]);
+    assert.equal(orders.nullable, true);
+    assert.equal(orders.scans[0].queryParams.filters, undefined);
+    assert.deepEqual(plan.residual, parseExpression("o.total > 5 AND u.id = o.userId"));
+  });
+
+  it("pushes GROUP BY to a single aggregating source", async () => {
+    const plan = await queryPlanner.plan(
+      parseSql("SELECT status, COUNT(*) AS n, SUM(total) FROM orders WHERE total > 0 GROUP BY status"),
+      [source(1, { orders: ['status', 'total'] })],
+    );
+
+    assert.ok(plan.aggregationPushdown);
+    assert.deepEqual(plan.aggregationPushdown.spec.filters, [{ field: 'total', operator: '>', value: 0 }]);
+    assert.deepEqual(plan.aggregationPushdown.spec.groupBy.map(group => group.field), ['status']);
+    assert.deepEqual(plan.aggregationPushdown.spec.aggregates.map(aggregate => [aggregate.name, aggregate.field]), [['COUNT', undefined], ['SUM', 'total']]);
+
+    const spread = await queryPlanner.plan(parseSql("SELECT status, COUNT(*) FROM orders GROUP BY status"), [source(1, { orders: ['status'] }), source(2, { orders: ['status'] })]);
+    assert.equal(spread.tables[0].scans.length, 2);
+    assert.equal(spread.aggregationPushdown, null);
+  });
+
+  it("reads mapped collections with filters on renamed fields translated", async () => {
+    const mapping = {
+      id: 9,
+      name: "legacy users",
+      sourceId: 2,
+      sourceCollection: "people",
+      targetId: 1,
+      targetCollection: "users",
+      bidirectional: false,
+      mappingRules: [
+        { sourceField: "person_age", targetField: "age", type: "direct" },
+        { sourceField: "given", targetField: "name", type: "transform", transform: "UPPER(value)" },
+      ],
+    } as unknown as SchemaMapping;
+
+    const plan = await queryPlanner.plan(
+      parseSql("SELECT name FROM users WHERE age > 30 AND name = 'ADA'"),
+      [source(1, { users: ['name', 'age'] }), source(2, { people: ['given', 'person_age'] })],
+      {},
+      [mapping],
+    );
+
+    const [native, mapped] = plan.tables[0].scans;
+    assert.equal(native.collection, 'users');
+    assert.equal(mapped.collection, 'people');
+    assert.equal(mapped.mapping?.id, 9);
+    assert.deepEqual(mapped.queryParams.filters, [{ field: 'person_age', operator: '>', value: 30 }]);
+    assert.deepEqual(mapped.localFilter, parseExpression("name = 'ADA'"));
+    // The source runs the age filter itself, so it is only asked for the field name is computed from
+    assert.deepEqual(mapped.queryParams.selectedColumns, ['given']);
+  });
+
+  it("rejects unknown collections, aliases and duplicate aliases", async () => {
+    const sources = [source(1, { users: ['id'] })];
+    await assert.rejects(queryPlanner.plan(parseSql("SELECT * FROM missing"), sources), /Collection 'missing' was not found/);
+    await assert.rejects(queryPlanner.plan(parseSql("SELECT x.id FROM users u JOIN users v ON u.id = v.id"), sources), /Unknown table or alias 'x'/);
+    await assert.rejects(queryPlanner.plan(parseSql("SELECT * FROM users u JOIN users u ON u.id = u.id"), sources), /alias 'u' is used more than once/);
+  });
+});
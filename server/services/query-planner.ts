@@ -0,0 +1,694 @@
+import type { MappingDirection, MappingRule, SchemaMapping } from "@shared/schema";
+import type { DataSourceConnector, SourceAggregation, SourceCapabilities, SourceQueryParams } from "./data-source-connector";
+import {
+  collectColumns,
+  formatExpression,
+  splitConjunction,
+  joinConjunction,
+  type Expression,
+  type SelectStatement,
+} from "./sql-parser";
+import { resolveLiteral } from "./sql-evaluator";
+import { isAggregateQuery, planAggregation, type AggregationPlan } from "./aggregation";
+import { planJoinStrategy } from "./join-executor";
+import { mappingTransforms } from "./mapping-transforms";
+import {
+  combineFilters,
+  containsNegation,
+  countNegations,
+  isFilterCondition,
+  pushDownNegation,
+  type SourceFilter,
+} from "./source-filter";
+
+// Decides, for every collection a query reads, which predicates, projections, sorts, limits and
+// aggregates the data source runs natively and which are left to the federation layer.
+// The same plan drives execution and EXPLAIN.
+
+export interface PlannerSource {
+  sourceId: number;
+  name: string;
+  type: string;
+  service: DataSourceConnector;
+}
+
+// A collection read through a schema mapping: its documents are translated into the fields of
+// the collection the query names before anything else is evaluated on them
+export interface ScanMapping {
+  id: number;
+  name: string;
+  direction: MappingDirection;
+  rules: MappingRule[];
+}
+
+// One collection read from one data source
+export interface ScanPlan {
+  alias: string;
+  collection: string;
+  source: PlannerSource;
+  mapping?: ScanMapping;
+  capabilities: SourceCapabilities;
+  queryParams: SourceQueryParams;
+  pushedFilters: Expression[];
+  // Predicates the source could not run (or that are re-checked), evaluated right after the fetch
+  localFilter?: Expression;
+  collectionRows: number;
+  estimatedRows: number;
+}
+
+export interface TablePlan {
+  alias: string;
+  collection: string;
+  nullable: boolean;
+  scans: ScanPlan[];
+}
+
+export interface PlanNode {
+  operation: 'scan' | 'union' | 'join' | 'filter' | 'aggregate' | 'project' | 'sort' | 'distinct' | 'limit';
+  location: 'source' | 'federation';
+  description: string;
+  estimatedRows: number;
+  details?: Record<string, any>;
+  children: PlanNode[];
+}
+
+export interface QueryPlan {
+  statement: SelectStatement;
+  joined: boolean;
+  tables: TablePlan[];
+  resolveAlias: (column: { table?: string; name: string }) => string | null;
+  // WHERE terms spanning several tables, evaluated after the joins
+  residual?: Expression;
+  aggregation: AggregationPlan | null;
+  aggregationPushdown: { scan: ScanPlan; spec: SourceAggregation } | null;
+  root: PlanNode;
+}
+
+// Rough fraction of rows a filter keeps, used only for estimates
+function estimateSelectivity(filter: SourceFilter | null): number {
+  if (!filter) return 0.5;
+
+  if (isFilterCondition(filter)) {
+    const listLength = Array.isArray(filter.value) ? filter.value.length : 1;
+    switch (filter.operator) {
+      case '==': return 0.1;
+      case '!=': return 0.9;
+      case 'in': return Math.min(1, 0.1 * listLength);
+      case 'not-in': return Math.max(0, 1 - 0.1 * listLength);
+      default: return 0.33;
+    }
+  }
+
+  switch (filter.type) {
+    case 'and': return filter.filters.reduce((product, child) => product * estimateSelectivity(child), 1);
+    case 'or': return 1 - filter.filters.reduce((product, child) => product * (1 - estimateSelectivity(child)), 1);
+    case 'not': return 1 - estimateSelectivity(filter.filter);
+  }
+}
+
+// Translate a WHERE term into a source filter. Returns null when the term needs the federation layer.
+export function toSourceFilter(term: Expression, params: Record<string, any>, ownColumn: (expression: Expression) => string | null): SourceFilter | null {
+  if (term.type === 'logical') {
+    const left = toSourceFilter(term.left, params, ownColumn);
+    const right = left && toSourceFilter(term.right, params, ownColumn);
+    return left && right ? combineFilters(term.operator === 'AND' ? 'and' : 'or', [left, right]) : null;
+  }
+
+  if (term.type === 'not') {
+    const operand = toSourceFilter(term.operand, params, ownColumn);
+    return operand ? { type: 'not', filter: operand } : null;
+  }
+
+  if (term.type === 'between') {
+    const field = ownColumn(term.operand);
+    const low = resolveLiteral(term.low, params);
+    const high = resolveLiteral(term.high, params);
+    if (!field || !low || !high || low.value === null || high.value === null) return null;
+    const range = combineFilters('and', [
+      { field, operator: '>=', value: low.value },
+      { field, operator: '<=', value: high.value },
+    ]);
+    return term.negated ? { type: 'not', filter: range } : range;
+  }
+
+  const operators: Record<string, string> = { '=': '==', '!=': '!=', '<': '<', '<=': '<=', '>': '>', '>=': '>=' };
+  const flipped: Record<string, string> = { '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+  if (term.type === 'comparison') {
+    let field = ownColumn(term.left);
+    let literal = resolveLiteral(term.right, params);
+    let operator = operators[term.operator];
+
+    // Literal on the left-hand side, e.g. 100 < amount
+    if (!field || !literal) {
+      field = ownColumn(term.right);
+      literal = resolveLiteral(term.left, params);
+      operator = flipped[term.operator] ? operators[flipped[term.operator]] : operator;
+    }
+
+    if (field && literal && literal.value !== null) {
+      return { field, operator, value: literal.value };
+    }
+    return null;
+  }
+
+  if (term.type === 'in') {
+    const field = ownColumn(term.operand);
+    const values = term.values.map(value => resolveLiteral(value, params));
+    if (field && values.every(Boolean)) {
+      const list = values.flatMap(literal => Array.isArray(literal!.value) ? literal!.value : [literal!.value]);
+      return { field, operator: term.negated ? 'not-in' : 'in', value: list };
+    }
+  }
+
+  return null;
+}
+
+// A source that can supply a collection the query names, natively or through a mapping
+interface CollectionHolder {
+  source: PlannerSource;
+  collection: string;
+  mapping?: ScanMapping;
+}
+
+// Reshape a filter for a source's capabilities, or return null when the source cannot run it
+function adaptFilter(filter: SourceFilter, capabilities: SourceCapabilities, negationsSoFar: number): { filter: SourceFilter; negations: number } | null {
+  const adapted = capabilities.not ? filter : pushDownNegation(filter);
+  if (!adapted) return null;
+
+  const supported = (node: SourceFilter): boolean => {
+    if (isFilterCondition(node)) return capabilities.operators.includes(node.operator);
+    if (node.type === 'not') return capabilities.not && supported(node.filter);
+    if (node.type === 'or' && !capabilities.or) return false;
+    return node.filters.every(supported);
+  };
+  if (!supported(adapted)) return null;
+
+  const negations = countNegations(adapted, capabilities.negationInOr);
+  if (negationsSoFar + negations > (capabilities.maxNegations ?? Infinity)) return null;
+
+  return { filter: adapted, negations };
+}
+
+function formatFilters(terms: Expression[]): string[] {
+  return terms.map(term => formatExpression(term));
+}
+
+class QueryPlanner {
+  // `mappings` are the active schema mappings; a single-table query also reads the collections they map onto its table
+  async plan(statement: SelectStatement, sources: PlannerSource[], params: Record<string, any> = {}, mappings: SchemaMapping[] = []): Promise<QueryPlan> {
+    const joined = statement.joins.length > 0;
+    const tables = [statement.from, ...statement.joins.map(join => join.table)];
+    const aliases = tables.map(table => table.alias || table.name);
+
+    const duplicate = aliases.find((alias, index) => aliases.indexOf(alias) !== index);
+    if (duplicate) {
+      throw new Error(`Table alias '${duplicate}' is used more than once`);
+    }
+
+    // A single collection is read from every source that has it and through every mapping onto it;
+    // joins read each collection from the first source that has it
+    const holders = await Promise.all(tables.map(async table => {
+      const found: CollectionHolder[] = (await this.findSourcesForCollection(table.name, sources))
+        .map(source => ({ source, collection: table.name }));
+      const mapped = joined ? [] : this.findMappedCollections(table.name, sources, mappings, found.map(holder => holder.source));
+      if (found.length === 0 && mapped.length === 0) {
+        throw new Error(`Collection '${table.name}' was not found in any of the query's data sources`);
+      }
+      return joined ? found.slice(0, 1) : [...found, ...mapped];
+    }));
+
+    const allExpressions: Expression[] = [
+      ...statement.columns.map(item => item.expression),
+      ...statement.joins.map(join => join.on).filter(Boolean) as Expression[],
+      ...(statement.where ? [statement.where] : []),
+      ...statement.groupBy,
+      ...(statement.having ? [statement.having] : []),
+      ...statement.orderBy.map(item => item.expression),
+    ];
+
+    let resolveAlias: (column: { table?: string; name: string }) => string | null;
+    if (joined) {
+      // Learn each collection's fields so unqualified columns can be attributed
+      const fieldSets = await Promise.all(tables.map(async (table, index) => {
+        const schema = await holders[index][0].source.service.getSchema(table.name);
+        return new Set<string>((schema?.fields || []).map((field: { name: string }) => field.name));
+      }));
+
+      resolveAlias = (column) => {
+        if (column.table) {
+          return aliases.includes(column.table) ? column.table : null;
+        }
+        const owners = aliases.filter((_, index) => fieldSets[index].has(column.name));
+        return owners.length === 1 ? owners[0] : null;
+      };
+
+      // Every qualified column must name one of the query's tables
+      for (const column of allExpressions.flatMap(expression => collectColumns(expression))) {
+        if (column.table && !aliases.includes(column.table)) {
+          throw new Error(`Unknown table or alias '${column.table}' in column '${column.table}.${column.name}'`);
+        }
+      }
+    } else {
+      // Any other qualifier is a nested field (address.city), which only the federation layer can read
+      const tableNames = new Set([statement.from.name, statement.from.alias].filter(Boolean) as string[]);
+      resolveAlias = (column) => !column.table || tableNames.has(column.table) ? aliases[0] : null;
+    }
+
+    // Tables on the null-supplying side of an outer join cannot take WHERE predicates before the join
+    const nullable = new Set<string>();
+    statement.joins.forEach((join, index) => {
+      const alias = aliases[index + 1];
+      if (join.kind === 'LEFT' || join.kind === 'FULL') nullable.add(alias);
+      if (join.kind === 'RIGHT' || join.kind === 'FULL') aliases.slice(0, index + 1).forEach(previous => nullable.add(previous));
+    });
+
+    // Terms that read a single table go to that table's scans; the rest wait for the joins
+    const termsByAlias = new Map<string, Expression[]>(aliases.map(alias => [alias, []]));
+    const residualTerms: Expression[] = [];
+    for (const term of splitConjunction(statement.where)) {
+      const owners = new Set(collectColumns(term).map(resolveAlias));
+      const [alias] = Array.from(owners);
+      if (owners.size === 1 && alias && !nullable.has(alias)) {
+        termsByAlias.get(alias)!.push(term);
+      } else {
+        residualTerms.push(term);
+      }
+    }
+
+    // Columns needed outside the per-table WHERE terms
+    const selectAliases = new Set(statement.columns.map(item => item.alias).filter(Boolean));
+    const needed = (expressions: Expression[]) => expressions
+      .flatMap(expression => collectColumns(expression))
+      .filter(column => column.table || !selectAliases.has(column.name));
+    const baseColumns = needed([
+      ...allExpressions.filter(expression => expression !== statement.where),
+      ...residualTerms,
+    ]);
+    // Without joins, a qualifier that isn't the table's names a nested field (address.city)
+    const nestedField = (column: { table?: string; name: string }): string | null =>
+      !joined && column.table && resolveAlias(column) === null ? `${column.table}.${column.name}` : null;
+    const fetchAll = statement.columns.some(item => item.expression.type === 'star' && !item.expression.table)
+      || needed(allExpressions).some(column => resolveAlias(column) === null && !nestedField(column));
+
+    const aggregation = isAggregateQuery(statement) ? planAggregation(statement) : null;
+
+    // LIMIT only reaches the sources when nothing afterwards can discard or merge rows
+    const limitable = !joined && residualTerms.length === 0 && !statement.distinct && !aggregation && statement.limit !== undefined;
+
+    const tablePlans: TablePlan[] = await Promise.all(tables.map(async (table, index) => {
+      const alias = aliases[index];
+      const ownColumn = (expression: Expression): string | null =>
+        expression.type === 'column' && resolveAlias(expression) === alias ? expression.name : null;
+      const ownStar = statement.columns.some(item => item.expression.type === 'star' && item.expression.table === alias);
+
+      const scans = await Promise.all(holders[index].map(({ source, collection, mapping }) => this.planScan({
+        statement,
+        source,
+        collection,
+        mapping,
+        alias,
+        terms: termsByAlias.get(alias)!,
+        ownColumn: mapping ? this.mappedColumn(ownColumn, mapping) : ownColumn,
+        columns: fetchAll || ownStar ? null : baseColumns
+          .filter(column => resolveAlias(column) === alias || nestedField(column))
+          .map(column => nestedField(column) ?? column.name),
+        limitable,
+        params,
+      })));
+
+      return { alias, collection: table.name, nullable: nullable.has(alias), scans };
+    }));
+
+    const aggregationPushdown = aggregation && !joined && residualTerms.length === 0
+      ? this.planAggregationPushdown(aggregation, tablePlans[0])
+      : null;
+
+    const plan: Omit<QueryPlan, 'root'> = {
+      statement,
+      joined,
+      tables: tablePlans,
+      resolveAlias,
+      residual: joinConjunction(residualTerms),
+      aggregation,
+      aggregationPushdown,
+    };
+    return { ...plan, root: this.buildTree(plan) };
+  }
+
+  // Per-source pushdown breakdown for EXPLAIN
+  explain(plan: QueryPlan): any {
+    return {
+      plan: plan.root,
+      estimatedRows: plan.root.estimatedRows,
+      sources: plan.tables.flatMap(table => table.scans.map(scan => ({
+        sourceId: scan.source.sourceId,
+        sourceName: scan.source.name,
+        sourceType: scan.source.type,
+        collection: scan.collection,
+        alias: scan.alias,
+        mapping: scan.mapping ? { id: scan.mapping.id, name: scan.mapping.name, direction: scan.mapping.direction } : null,
+        capabilities: scan.capabilities,
+        pushedDown: {
+          filters: formatFilters(scan.pushedFilters),
+          columns: scan.capabilities.projection ? scan.queryParams.selectedColumns : null,
+          orderBy: scan.queryParams.orderBy || null,
+          limit: scan.queryParams.limit ?? null,
+          aggregation: plan.aggregationPushdown?.scan === scan ? plan.aggregationPushdown.spec : null,
+        },
+        inFederation: {
+          filters: scan.localFilter ? formatFilters(splitConjunction(scan.localFilter)) : [],
+          projection: !scan.capabilities.projection,
+        },
+        nativeQuery: scan.queryParams,
+        collectionRows: scan.collectionRows,
+        estimatedRows: scan.estimatedRows,
+      }))),
+      federation: {
+        filters: plan.residual ? formatFilters(splitConjunction(plan.residual)) : [],
+        aggregation: plan.aggregation && !plan.aggregationPushdown,
+      },
+    };
+  }
+
+  private async findSourcesForCollection(collectionName: string, sources: PlannerSource[]): Promise<PlannerSource[]> {
+    const found: PlannerSource[] = [];
+    for (const source of sources) {
+      const collections = await source.service.listCollections();
+      if (collections.includes(collectionName)) {
+        found.push(source);
+      }
+    }
+    return found;
+  }
+
+  // Collections that active mappings translate into `collectionName`, in sources among the query's.
+  // A source that holds the collection itself is read as it is, not through a mapping; a mapping
+  // without rules has nothing to translate.
+  private findMappedCollections(collectionName: string, sources: PlannerSource[], mappings: SchemaMapping[], native: PlannerSource[]): CollectionHolder[] {
+    const found: CollectionHolder[] = [];
+    const holder = (sourceId: number, collection: string, mapping: SchemaMapping, direction: MappingDirection) => {
+      const source = sources.find(candidate => candidate.sourceId === sourceId);
+      if (!source || native.includes(source)) return;
+      const rules = Array.isArray(mapping.mappingRules) ? mapping.mappingRules as MappingRule[] : [];
+      if (rules.length === 0) return;
+      found.push({ source, collection, mapping: { id: mapping.id, name: mapping.name, direction, rules } });
+    };
+
+    for (const mapping of mappings) {
+      if (mapping.targetCollection === collectionName) {
+        holder(mapping.sourceId, mapping.sourceCollection, mapping, 'source-to-target');
+      }
+      if (mapping.bidirectional && mapping.sourceCollection === collectionName) {
+        holder(mapping.targetId, mapping.targetCollection, mapping, 'target-to-source');
+      }
+    }
+    return found;
+  }
+
+  // Name a column of the queried collection by the mapped collection's field it is copied from;
+  // columns a transform computes have no such field, so predicates on them aren't pushed down
+  private mappedColumn(ownColumn: (expression: Expression) => string | null, mapping: ScanMapping): (expression: Expression) => string | null {
+    const renamed = mappingTransforms.renamedFields(mapping.rules, mapping.direction);
+    return expression => {
+      const column = ownColumn(expression);
+      return column === null ? null : renamed.get(column) ?? null;
+    };
+  }
+
+  private async planScan(options: {
+    statement: SelectStatement;
+    source: PlannerSource;
+    collection: string;
+    mapping?: ScanMapping;
+    alias: string;
+    terms: Expression[];
+    ownColumn: (expression: Expression) => string | null;
+    columns: string[] | null;
+    limitable: boolean;
+    params: Record<string, any>;
+  }): Promise<ScanPlan> {
+    const { statement, source, collection, mapping, alias, terms, ownColumn, params } = options;
+    const capabilities = source.service.getCapabilities();
+
+    // Negated filters are pushed and re-checked in memory, since sources match missing fields
+    // where SQL's NULL semantics would not
+    const filters: SourceFilter[] = [];
+    const pushedFilters: Expression[] = [];
+    const localTerms: Expression[] = [];
+    let negations = 0;
+    let selectivity = 1;
+
+    for (const term of terms) {
+      const filter = toSourceFilter(term, params, ownColumn);
+      const adapted = filter && adaptFilter(filter, capabilities, negations);
+      if (adapted) {
+        filters.push(adapted.filter);
+        pushedFilters.push(term);
+        negations += adapted.negations;
+        selectivity *= estimateSelectivity(adapted.filter);
+      }
+      if (!adapted || containsNegation(filter!)) {
+        localTerms.push(term);
+        if (!adapted) selectivity *= estimateSelectivity(filter);
+      }
+    }
+
+    const queryParams: SourceQueryParams = { selectedColumns: ['*'] };
+    if (filters.length > 0) {
+      queryParams.filters = filters;
+    }
+
+    // Fetch only the columns the query needs, unless it selects everything; a mapped collection
+    // is asked for the fields the needed columns are made from
+    if (options.columns) {
+      const localColumns = localTerms.flatMap(term => collectColumns(term)).map(column => column.name);
+      const columns = Array.from(new Set([...options.columns, ...localColumns]));
+      queryParams.selectedColumns = mapping ? mappingTransforms.inputsFor(mapping.rules, mapping.direction, columns) : columns;
+    }
+
+    // A source-side LIMIT is only correct when the source also applies the ORDER BY
+    const orderColumns = statement.orderBy.map(item => ownColumn(item.expression));
+    const selectAliases = new Set(statement.columns.map(item => item.alias).filter(Boolean));
+    const sortable = orderColumns.every(column => column && !selectAliases.has(column)) && (statement.orderBy.length === 0 || capabilities.sort);
+
+    if (options.limitable && localTerms.length === 0 && capabilities.limit && sortable) {
+      queryParams.limit = statement.limit! + (statement.offset || 0);
+      if (statement.orderBy.length > 0) {
+        queryParams.orderBy = {};
+        statement.orderBy.forEach((item, index) => {
+          queryParams.orderBy![orderColumns[index]!] = item.direction;
+        });
+      }
+    }
+
+    let collectionRows = 0;
+    try {
+      collectionRows = await source.service.estimateRowCount(collection);
+    } catch (error) {
+      console.error(`Error estimating rows of ${collection} in source ${source.sourceId}:`, error);
+    }
+
+    let estimatedRows = Math.round(collectionRows * selectivity);
+    if (queryParams.limit !== undefined) {
+      estimatedRows = Math.min(estimatedRows, queryParams.limit);
+    }
+
+    return {
+      alias,
+      collection,
+      source,
+      mapping,
+      capabilities,
+      queryParams,
+      pushedFilters,
+      localFilter: joinConjunction(localTerms),
+      collectionRows,
+      estimatedRows,
+    };
+  }
+
+  // GROUP BY can run inside the source when it is the only one holding the collection, it filters
+  // everything natively and every group key and aggregate argument is a plain field
+  private planAggregationPushdown(aggregation: AggregationPlan, table: TablePlan): { scan: ScanPlan; spec: SourceAggregation } | null {
+    if (table.scans.length !== 1) return null;
+    const [scan] = table.scans;
+    if (scan.mapping || !scan.capabilities.aggregation || !scan.source.service.executeAggregation || scan.localFilter) return null;
+
+    const fieldOf = (expression: Expression) => expression.type === 'column' ? expression.name : null;
+    const groupBy = aggregation.groupBy.map(entry => ({ key: entry.key, field: fieldOf(entry.expression) }));
+    const aggregates = aggregation.aggregates.map(aggregate => ({
+      key: aggregate.key,
+      name: aggregate.name,
+      field: aggregate.argument ? fieldOf(aggregate.argument) : undefined,
+      distinct: aggregate.distinct,
+    }));
+    if (groupBy.some(group => !group.field) || aggregates.some(aggregate => aggregate.field === null)) {
+      return null;
+    }
+
+    return {
+      scan,
+      spec: {
+        filters: scan.queryParams.filters,
+        groupBy: groupBy.map(group => ({ key: group.key, field: group.field! })),
+        aggregates: aggregates.map(aggregate => ({ ...aggregate, field: aggregate.field || undefined })),
+      },
+    };
+  }
+
+  private buildTree(plan: Omit<QueryPlan, 'root'>): PlanNode {
+    const { statement } = plan;
+
+    const scanNode = (scan: ScanPlan): PlanNode => {
+      const aggregated = plan.aggregationPushdown?.scan === scan;
+      let node: PlanNode = {
+        operation: 'scan',
+        location: 'source',
+        description: `${scan.source.type} ${scan.collection}${scan.alias !== scan.collection ? ` AS ${scan.alias}` : ''} (source ${scan.source.sourceId})${scan.mapping ? ` through mapping "${scan.mapping.name}"` : ''}`,
+        estimatedRows: aggregated ? Math.max(1, Math.round(scan.estimatedRows * 0.1)) : scan.estimatedRows,
+        details: {
+          sourceId: scan.source.sourceId,
+          collection: scan.collection,
+          filters: formatFilters(scan.pushedFilters),
+          columns: scan.queryParams.selectedColumns,
+          orderBy: scan.queryParams.orderBy,
+          limit: scan.queryParams.limit,
+          aggregation: aggregated ? plan.aggregationPushdown!.spec : undefined,
+          mapping: scan.mapping ? { id: scan.mapping.id, direction: scan.mapping.direction } : undefined,
+          collectionRows: scan.collectionRows,
+        },
+        children: [],
+      };
+
+      if (scan.localFilter && !aggregated) {
+        node = {
+          operation: 'filter',
+          location: 'federation',
+          description: formatExpression(scan.localFilter),
+          estimatedRows: Math.round(node.estimatedRows * 0.5),
+          children: [node],
+        };
+      }
+      return node;
+    };
+
+    const tableNode = (table: TablePlan): PlanNode => {
+      const scans = table.scans.map(scanNode);
+      if (scans.length === 1) return scans[0];
+      return {
+        operation: 'union',
+        location: 'federation',
+        description: `${table.collection} from ${scans.length} sources`,
+        estimatedRows: scans.reduce((sum, node) => sum + node.estimatedRows, 0),
+        children: scans,
+      };
+    };
+
+    let root = tableNode(plan.tables[0]);
+    const joined = new Set<string>([plan.tables[0].alias]);
+
+    statement.joins.forEach((join, index) => {
+      const table = plan.tables[index + 1];
+      const right = tableNode(table);
+      const strategy = planJoinStrategy(join.kind, join.on, joined, table.alias, plan.resolveAlias);
+
+      let estimatedRows: number;
+      if (join.kind === 'CROSS' || !join.on) {
+        estimatedRows = root.estimatedRows * right.estimatedRows;
+      } else {
+        estimatedRows = Math.max(root.estimatedRows, right.estimatedRows);
+        if (join.kind === 'INNER') estimatedRows = Math.min(estimatedRows, root.estimatedRows * right.estimatedRows);
+      }
+
+      root = {
+        operation: 'join',
+        location: 'federation',
+        description: `${join.kind} JOIN ${table.collection}${table.alias !== table.collection ? ` AS ${table.alias}` : ''}`,
+        estimatedRows,
+        details: { kind: join.kind, strategy, on: join.on ? formatExpression(join.on) : undefined },
+        children: [root, right],
+      };
+      joined.add(table.alias);
+    });
+
+    if (plan.residual) {
+      root = {
+        operation: 'filter',
+        location: 'federation',
+        description: formatExpression(plan.residual),
+        estimatedRows: Math.round(root.estimatedRows * 0.5),
+        children: [root],
+      };
+    }
+
+    if (plan.aggregation) {
+      const pushed = plan.aggregationPushdown !== null;
+      root = {
+        operation: 'aggregate',
+        location: pushed ? 'source' : 'federation',
+        description: plan.aggregation.groupBy.length > 0
+          ? `GROUP BY ${plan.aggregation.groupBy.map(entry => entry.key).join(', ')}`
+          : 'single group',
+        estimatedRows: pushed
+          ? root.estimatedRows
+          : plan.aggregation.groupBy.length > 0 ? Math.max(1, Math.round(root.estimatedRows * 0.1)) : 1,
+        details: { aggregates: plan.aggregation.aggregates.map(aggregate => aggregate.key) },
+        children: [root],
+      };
+
+      if (plan.aggregation.having) {
+        root = {
+          operation: 'filter',
+          location: 'federation',
+          description: `HAVING ${formatExpression(statement.having!)}`,
+          estimatedRows: Math.max(1, Math.round(root.estimatedRows * 0.5)),
+          children: [root],
+        };
+      }
+    }
+
+    root = {
+      operation: 'project',
+      location: 'federation',
+      description: statement.columns.map(item => formatExpression(item.expression) + (item.alias ? ` AS ${item.alias}` : '')).join(', '),
+      estimatedRows: root.estimatedRows,
+      children: [root],
+    };
+
+    if (statement.orderBy.length > 0) {
+      root = {
+        operation: 'sort',
+        location: 'federation',
+        description: statement.orderBy.map(item => `${formatExpression(item.expression)} ${item.direction.toUpperCase()}`).join(', '),
+        estimatedRows: root.estimatedRows,
+        children: [root],
+      };
+    }
+
+    if (statement.distinct) {
+      root = {
+        operation: 'distinct',
+        location: 'federation',
+        description: 'DISTINCT',
+        estimatedRows: root.estimatedRows,
+        children: [root],
+      };
+    }
+
+    if (statement.limit !== undefined || statement.offset) {
+      const available = Math.max(0, root.estimatedRows - (statement.offset || 0));
+      root = {
+        operation: 'limit',
+        location: 'federation',
+        description: [statement.limit !== undefined ? `LIMIT ${statement.limit}` : '', statement.offset ? `OFFSET ${statement.offset}` : ''].filter(Boolean).join(' '),
+        estimatedRows: statement.limit !== undefined ? Math.min(statement.limit, available) : available,
+        children: [root],
+      };
+    }
+
+    return root;
+  }
+}
+
+export const queryPlanner = new QueryPlanner();
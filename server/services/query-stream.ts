@@ -0,0 +1,40 @@
+import type { QueryStreamEvent } from "@shared/schema";
+import type { DataSourceConnector, SourceQueryParams } from "./data-source-connector";
+
+export type QueryStreamFormat = 'ndjson' | 'sse';
+
+// Rows requested from a source per page, and output rows per row frame
+export const STREAM_BATCH_SIZE = 500;
+
+// Pages of a source query; sources that can't page return everything as one page
+export async function* readSource(service: DataSourceConnector, collection: string, query: SourceQueryParams, batchSize: number = STREAM_BATCH_SIZE): AsyncGenerator<Record<string, any>[]> {
+  if (service.streamQuery) {
+    yield* service.streamQuery(collection, query, batchSize);
+    return;
+  }
+  yield await service.executeQuery(collection, query);
+}
+
+// Split rows that are already in memory into row frames
+export function rowBatches(rows: Record<string, any>[], batchSize: number = STREAM_BATCH_SIZE): Record<string, any>[][] {
+  const batches: Record<string, any>[][] = [];
+  for (let index = 0; index < rows.length; index += batchSize) {
+    batches.push(rows.slice(index, index + batchSize));
+  }
+  return batches;
+}
+
+// Server-Sent Events when the client asks for text/event-stream, newline-delimited JSON otherwise
+export function streamFormat(accept: string | undefined, format: unknown): QueryStreamFormat {
+  if (format === 'sse' || format === 'ndjson') return format;
+  return accept?.includes('text/event-stream') ? 'sse' : 'ndjson';
+}
+
+export function streamContentType(format: QueryStreamFormat): string {
+  return format === 'sse' ? 'text/event-stream' : 'application/x-ndjson';
+}
+
+export function formatStreamEvent(event: QueryStreamEvent, format: QueryStreamFormat): string {
+  const data = JSON.stringify(event);
+  return format === 'sse' ? `event: ${event.type}\ndata: ${data}\n\n` : `${data}\n`;
+}
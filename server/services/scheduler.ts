@@ -0,0 +1,153 @@
+import type { JobRun, QuerySchedule } from "@shared/schema";
+import { storage } from "../storage";
+import { queryFederationService } from "./query-federation";
+import { nextCronRun, parseCron } from "./cron";
+import { auditLog, SCHEDULER_ACTOR, type AuditActor } from "./audit-log";
+
+export interface ScheduleRequest {
+  cron?: string | null;
+  intervalMinutes?: number | null;
+  params?: Record<string, any>;
+  enabled?: boolean;
+}
+
+// How often the worker looks for schedules that are due
+const TICK_INTERVAL = 30 * 1000;
+
+// When a schedule should next run, counting from `from`
+export function nextRunTime(schedule: Pick<QuerySchedule, "cron" | "intervalMinutes">, from: Date = new Date()): Date {
+  if (schedule.cron) {
+    return nextCronRun(schedule.cron, from);
+  }
+  if (schedule.intervalMinutes) {
+    return new Date(from.getTime() + schedule.intervalMinutes * 60 * 1000);
+  }
+  throw new Error("Schedule needs either a cron expression or an interval");
+}
+
+// Runs saved queries on their schedules through the federation service and records
+// every run in the job history. A query never has two runs in progress at once.
+class QueryScheduler {
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private running: Map<number, Promise<JobRun>> = new Map();
+
+  async start() {
+    if (this.timer) return;
+
+    // Runs that were in progress when the server stopped will never finish
+    const interrupted = await storage.getJobRuns({ status: "running" });
+    for (const run of interrupted.filter(run => !this.running.has(run.queryId))) {
+      await storage.updateJobRun(run.id, { status: "failed", finishedAt: new Date(), error: "Interrupted by server restart" });
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error("Error running scheduled queries:", error));
+    }, TICK_INTERVAL);
+    this.timer.unref();
+
+    // Catch up on anything that came due while the server was down
+    await this.tick();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  // Create or replace a query's schedule; the next run is counted from now
+  async saveSchedule(queryId: number, request: ScheduleRequest): Promise<QuerySchedule> {
+    if (request.cron) {
+      parseCron(request.cron);
+    }
+
+    const cron = request.cron || null;
+    const intervalMinutes = cron ? null : request.intervalMinutes ?? null;
+    return storage.saveQuerySchedule({
+      queryId,
+      cron,
+      intervalMinutes,
+      params: request.params ?? {},
+      enabled: request.enabled ?? true,
+      nextRunAt: nextRunTime({ cron, intervalMinutes }),
+    });
+  }
+
+  // Run a query's schedule immediately, outside its timetable, on behalf of `actor`
+  async runNow(schedule: QuerySchedule, actor: AuditActor = SCHEDULER_ACTOR): Promise<JobRun> {
+    return this.run(schedule, "manual", actor);
+  }
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = Date.now();
+      const schedules = await storage.getQuerySchedules();
+      const due = schedules.filter(schedule =>
+        schedule.enabled && schedule.nextRunAt && new Date(schedule.nextRunAt).getTime() <= now
+      );
+
+      for (const schedule of due) {
+        if (this.running.has(schedule.queryId)) continue;
+
+        // Move the schedule on before running so a slow run isn't started again next tick
+        await storage.updateQuerySchedule(schedule.id, { nextRunAt: nextRunTime(schedule) });
+        this.run(schedule, "schedule", SCHEDULER_ACTOR).catch(error => {
+          console.error(`Error running scheduled query ${schedule.queryId}:`, error);
+        });
+      }
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private run(schedule: QuerySchedule, trigger: "schedule" | "manual", actor: AuditActor): Promise<JobRun> {
+    const inFlight = this.running.get(schedule.queryId);
+    if (inFlight) return inFlight;
+
+    const run = this.execute(schedule, trigger, actor).finally(() => this.running.delete(schedule.queryId));
+    this.running.set(schedule.queryId, run);
+    return run;
+  }
+
+  private async execute(schedule: QuerySchedule, trigger: "schedule" | "manual", actor: AuditActor): Promise<JobRun> {
+    const query = await storage.getQuery(schedule.queryId);
+    const jobRun = await storage.createJobRun({ queryId: schedule.queryId, scheduleId: schedule.id, trigger, status: "running" });
+    await storage.updateQuerySchedule(schedule.id, { lastRunAt: jobRun.startedAt ?? new Date() });
+
+    const startTime = Date.now();
+    try {
+      if (!query) {
+        throw new Error(`Query ${schedule.queryId} not found`);
+      }
+
+      const result = await queryFederationService.executeQuery(query, schedule.params as Record<string, any>, { refresh: true });
+      await auditLog.queryRun(actor, query, schedule.params as Record<string, any>, { result }, "run");
+      const finished = await storage.updateJobRun(jobRun.id, {
+        status: "succeeded",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startTime,
+        rowCount: Array.isArray(result.results) ? result.results.length : null,
+      });
+      return finished ?? jobRun;
+    } catch (error) {
+      console.error(`Scheduled run of query ${schedule.queryId} failed:`, error);
+      if (query) {
+        await auditLog.queryRun(actor, query, schedule.params as Record<string, any>, { error }, "run");
+      }
+      const failed = await storage.updateJobRun(jobRun.id, {
+        status: "failed",
+        finishedAt: new Date(),
+        durationMs: Date.now() - startTime,
+        error: (error as Error).message,
+      });
+      return failed ?? jobRun;
+    }
+  }
+}
+
+export const queryScheduler = new QueryScheduler();
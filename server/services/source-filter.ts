@@ -0,0 +1,132 @@
+// Filters handed to a data source's executeQuery. The `filters` array of a source query is an
+// implicit AND; each entry is either a single field condition or an and/or/not group of filters.
+
+export interface FilterCondition {
+  field: string;
+  operator: string;
+  value: any;
+}
+
+export interface FilterGroup {
+  type: 'and' | 'or';
+  filters: SourceFilter[];
+}
+
+export interface FilterNegation {
+  type: 'not';
+  filter: SourceFilter;
+}
+
+export type SourceFilter = FilterCondition | FilterGroup | FilterNegation;
+
+const NEGATED_OPERATORS: Record<string, string> = {
+  '==': '!=',
+  '!=': '==',
+  '<': '>=',
+  '<=': '>',
+  '>': '<=',
+  '>=': '<',
+  'in': 'not-in',
+  'not-in': 'in',
+};
+
+export function isFilterCondition(filter: SourceFilter): filter is FilterCondition {
+  return 'field' in filter;
+}
+
+// Combine filters with AND or OR, merging nested groups of the same kind
+export function combineFilters(type: 'and' | 'or', filters: SourceFilter[]): SourceFilter {
+  const flattened = filters.flatMap(filter =>
+    !isFilterCondition(filter) && filter.type === type ? filter.filters : [filter]);
+  return flattened.length === 1 ? flattened[0] : { type, filters: flattened };
+}
+
+// True when the filter negates anything. Sources treat missing fields as "not equal", so a negated
+// filter may return extra rows that SQL's NULL handling would drop; callers re-check those rows.
+export function containsNegation(filter: SourceFilter): boolean {
+  if (isFilterCondition(filter)) {
+    return filter.operator === '!=' || filter.operator === 'not-in';
+  }
+  if (filter.type === 'not') return true;
+  return filter.filters.some(containsNegation);
+}
+
+// Every field a filter reads
+export function filterFields(filter: SourceFilter): string[] {
+  if (isFilterCondition(filter)) return [filter.field];
+  if (filter.type === 'not') return filterFields(filter.filter);
+  return filter.filters.flatMap(filterFields);
+}
+
+// Number of != / not-in conditions and NOT groups in a filter. Negations under an OR count as
+// Infinity when the source cannot combine the two.
+export function countNegations(filter: SourceFilter, negationInOr = true, insideOr = false): number {
+  if (isFilterCondition(filter)) {
+    const negated = filter.operator === '!=' || filter.operator === 'not-in';
+    return negated ? (insideOr && !negationInOr ? Infinity : 1) : 0;
+  }
+  if (filter.type === 'not') {
+    return insideOr && !negationInOr ? Infinity : 1 + countNegations(filter.filter, negationInOr, insideOr);
+  }
+  return filter.filters.reduce((sum, child) => sum + countNegations(child, negationInOr, insideOr || filter.type === 'or'), 0);
+}
+
+// Move NOT down to the conditions (De Morgan), for sources without a negation operator.
+// Returns null when a condition's operator has no negated form.
+export function pushDownNegation(filter: SourceFilter, negate = false): SourceFilter | null {
+  if (isFilterCondition(filter)) {
+    if (!negate) return filter;
+    const operator = NEGATED_OPERATORS[filter.operator];
+    return operator ? { ...filter, operator } : null;
+  }
+
+  if (filter.type === 'not') {
+    return pushDownNegation(filter.filter, !negate);
+  }
+
+  const children = filter.filters.map(child => pushDownNegation(child, negate));
+  if (children.some(child => child === null)) return null;
+  const type = negate ? (filter.type === 'and' ? 'or' : 'and') : filter.type;
+  return combineFilters(type, children as SourceFilter[]);
+}
+
+function matchesCondition(item: any, filter: FilterCondition): boolean {
+  if (!filter.field || !filter.operator || filter.value === undefined) {
+    return true;
+  }
+
+  const itemValue = item[filter.field];
+
+  switch (filter.operator) {
+    case '==': return itemValue === filter.value;
+    case '!=': return itemValue !== filter.value;
+    case '>': return itemValue > filter.value;
+    case '>=': return itemValue >= filter.value;
+    case '<': return itemValue < filter.value;
+    case '<=': return itemValue <= filter.value;
+    case 'in': return Array.isArray(filter.value) && filter.value.includes(itemValue);
+    case 'not-in': return Array.isArray(filter.value) && !filter.value.includes(itemValue);
+    case 'like':
+    case 'contains':
+    case 'array-contains':
+      if (typeof itemValue === 'string' && typeof filter.value === 'string') {
+        const pattern = filter.value.replace(/%/g, '.*');
+        return new RegExp(pattern).test(itemValue);
+      }
+      return false;
+    default: return true;
+  }
+}
+
+// Evaluate a source filter against a document, used for sample data and filters a source cannot run itself
+export function matchesSourceFilter(item: any, filter: SourceFilter): boolean {
+  if (isFilterCondition(filter)) {
+    return matchesCondition(item, filter);
+  }
+
+  switch (filter.type) {
+    case 'and': return filter.filters.every(child => matchesSourceFilter(item, child));
+    case 'or': return filter.filters.some(child => matchesSourceFilter(item, child));
+    case 'not': return !matchesSourceFilter(item, filter.filter);
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseExpression, parseSql } from "./sql-parser";
+import {
+  compareValues, distinctRows, evaluateExpression, likeToRegExp, matchesPredicate, projectRow, QueryEvaluationError,
+  resolveColumn, sortRows, type Row,
+} from "./sql-evaluator";
+
+const evaluate = (text: string, row: Row = {}, params: Record<string, any> = {}) => evaluateExpression(parseExpression(text), row, params);
+
+describe("resolveColumn", () => {
+  it("reads qualified keys, nested fields and unqualified single-collection rows", () => {
+    assert.equal(resolveColumn({ "u.name": "Ada" }, "u", "name"), "Ada");
+    assert.equal(resolveColumn({ address: { city: "Paris" } }, "address", "city"), "Paris");
+    assert.equal(resolveColumn({ name: "Ada" }, "u", "name"), "Ada");
+  });
+
+  it("resolves an unqualified name against one qualified key and rejects ambiguous ones", () => {
+    assert.equal(resolveColumn({ "u.name": "Ada", "o.total": 5 }, undefined, "total"), 5);
+    assert.throws(() => resolveColumn({ "u.id": 1, "o.id": 2 }, undefined, "id"), /'id' is ambiguous \(u\.id, o\.id\)/);
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("uses three-valued logic for NULL", () => {
+    assert.equal(evaluate("a = 1", { a: null }), null);
+    assert.equal(evaluate("a = 1 AND b = 2", { a: null, b: 3 }), false);
+    assert.equal(evaluate("a = 1 OR b = 2", { a: null, b: 2 }), true);
+    assert.equal(evaluate("NOT a = 1", { a: null }), null);
+    assert.equal(evaluate("a IS NULL", {}), true);
+    assert.equal(matchesPredicate(parseExpression("a = 1"), { a: null }), false);
+  });
+
+  it("compares numeric strings with numbers and dates with dates", () => {
+    assert.equal(evaluate("id = :id", { id: 7 }, { id: "7" }), true);
+    assert.equal(evaluate("createdAt < :before", { createdAt: new Date("2024-01-01") }, { before: new Date("2024-06-01") }), true);
+  });
+
+  it("does arithmetic, string concatenation with + and NULL on division by zero", () => {
+    assert.equal(evaluate("price * qty - 1", { price: 2.5, qty: 4 }), 9);
+    assert.equal(evaluate("first + ' ' + last", { first: "Ada", last: "Lovelace" }), "Ada Lovelace");
+    assert.equal(evaluate("'1' + 2"), 3);
+    assert.equal(evaluate("10 / 0"), null);
+    assert.equal(evaluate("-a", { a: 3 }), -3);
+  });
+
+  it("evaluates LIKE, IN with a list parameter and BETWEEN", () => {
+    assert.equal(evaluate("name LIKE 'A_a%'", { name: "Ada Lovelace" }), true);
+    assert.equal(evaluate("name NOT LIKE '%.com'", { name: "ada.com" }), false);
+    assert.equal(evaluate("status IN (:statuses)", { status: "open" }, { statuses: ["open", "held"] }), true);
+    assert.equal(evaluate("age NOT BETWEEN 18 AND 65", { age: 70 }), true);
+  });
+
+  it("calls scalar functions and rejects aggregates and unknown functions", () => {
+    assert.equal(evaluate("CONCAT(UPPER(a), COALESCE(b, '-'), ROUND(c, 1))", { a: "x", b: null, c: 1.26 }), "X-1.3");
+    assert.throws(() => evaluate("COUNT(a)"), /Aggregate function COUNT is not supported/);
+    assert.throws(() => evaluate("NOW()"), (error: unknown) => error instanceof QueryEvaluationError && /Unknown function NOW/.test(error.message));
+  });
+
+  it("requires every parameter", () => {
+    assert.throws(() => evaluate("id = :userId", { id: 1 }), /Parameter :userId was not provided/);
+  });
+});
+
+describe("likeToRegExp", () => {
+  it("escapes regular expression characters and anchors the pattern", () => {
+    assert.equal(likeToRegExp("a.b%").test("a.bcd"), true);
+    assert.equal(likeToRegExp("a.b%").test("axbcd"), false);
+    assert.equal(likeToRegExp("ab").test("xaby"), false);
+  });
+});
+
+describe("projectRow, sortRows and distinctRows", () => {
+  it("projects select items, keeping internal keys and qualifying same-named columns", () => {
+    const { columns } = parseSql("SELECT u.id, o.id, o.total * 2 AS double FROM users u JOIN orders o ON o.userId = u.id");
+    const row = { "u.id": 1, "o.id": 10, "o.total": 4, __source: "2" };
+
+    assert.deepEqual(projectRow(columns, row), { id: 1, "o.id": 10, double: 8, __source: "2" });
+  });
+
+  it("sorts by output aliases and source columns, with NULL first", () => {
+    const statement = parseSql("SELECT name AS label FROM t ORDER BY rank DESC, label");
+    const sources = [{ name: "b", rank: 1 }, { name: "a", rank: 1 }, { name: "c", rank: null }, { name: "d", rank: 2 }];
+    const entries = sources.map(source => ({ source, output: projectRow(statement.columns, source) }));
+
+    const sorted = sortRows(entries, statement.orderBy).map(entry => entry.output.label);
+    assert.deepEqual(sorted, ["d", "a", "b", "c"]);
+  });
+
+  it("removes duplicate rows ignoring internal keys", () => {
+    assert.deepEqual(distinctRows([{ a: 1, __source: "1" }, { a: 1, __source: "2" }, { a: 2 }]), [{ a: 1, __source: "1" }, { a: 2 }]);
+  });
+
+  it("orders mixed values consistently", () => {
+    assert.ok(compareValues(null, 0) < 0);
+    assert.ok(compareValues(2, 10) < 0);
+    assert.ok(compareValues("10", "2") < 0);
+    assert.equal(compareValues(new Date(5), new Date(5)), 0);
+  });
+});
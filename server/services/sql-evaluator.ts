@@ -0,0 +1,340 @@
+import type { Expression, LiteralValue, OrderByItem, SelectItem } from "./sql-parser";
+import { formatExpression } from "./sql-parser";
+
+// Evaluates parsed SQL expressions against in-memory rows. Rows are plain objects;
+// joined rows use "alias.column" keys, single-collection rows use bare field names.
+
+export type Row = Record<string, any>;
+
+export class QueryEvaluationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QueryEvaluationError';
+  }
+}
+
+// Look up a column on a row, accepting both qualified and unqualified keys
+export function resolveColumn(row: Row, table: string | undefined, name: string): any {
+  if (table) {
+    const qualifiedKey = `${table}.${name}`;
+    if (qualifiedKey in row) return row[qualifiedKey];
+
+    // Nested document field (e.g. address.city on a MongoDB document)
+    const nested = row[table];
+    if (nested !== null && typeof nested === 'object' && !Array.isArray(nested) && name in nested) {
+      return nested[name];
+    }
+
+    // Rows from a single collection are not qualified
+    if (name in row && !Object.keys(row).some(key => key.includes('.'))) {
+      return row[name];
+    }
+
+    return undefined;
+  }
+
+  if (name in row) return row[name];
+
+  // An unqualified reference resolves against a qualified key if it is unambiguous
+  const suffix = `.${name}`;
+  const matches = Object.keys(row).filter(key => key.endsWith(suffix));
+  if (matches.length === 1) return row[matches[0]];
+  if (matches.length > 1) {
+    throw new QueryEvaluationError(`Column reference '${name}' is ambiguous (${matches.join(', ')})`);
+  }
+
+  return undefined;
+}
+
+export function resolveParameter(name: string, params: Record<string, any>): any {
+  if (!params || !(name in params) || params[name] === undefined) {
+    throw new QueryEvaluationError(`Parameter :${name} was not provided`);
+  }
+  return params[name];
+}
+
+// Convert a SQL LIKE pattern into an anchored regular expression
+export function likeToRegExp(pattern: string, flags = ''): RegExp {
+  let source = '';
+  for (const char of pattern) {
+    if (char === '%') {
+      source += '.*';
+    } else if (char === '_') {
+      source += '.';
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`, flags + 's');
+}
+
+// Compare two values the way ORDER BY and range predicates expect
+export function compareValues(a: any, b: any): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (a instanceof Date) a = a.getTime();
+  if (b instanceof Date) b = b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function isNullish(value: any): boolean {
+  return value === null || value === undefined;
+}
+
+function valuesEqual(a: any, b: any): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return compareValues(a, b) === 0;
+  }
+  // Loose match between numeric strings and numbers, e.g. a parameter typed as text
+  if (typeof a === 'number' && typeof b === 'string' && b.trim() !== '' && !isNaN(Number(b))) return a === Number(b);
+  if (typeof b === 'number' && typeof a === 'string' && a.trim() !== '' && !isNaN(Number(a))) return b === Number(a);
+  return a === b;
+}
+
+export type ScalarFunction = (args: any[]) => any;
+
+// Scalar functions usable in SELECT, WHERE and ORDER BY
+export const SCALAR_FUNCTIONS: Record<string, ScalarFunction> = {
+  LOWER: ([value]) => isNullish(value) ? null : String(value).toLowerCase(),
+  UPPER: ([value]) => isNullish(value) ? null : String(value).toUpperCase(),
+  TRIM: ([value]) => isNullish(value) ? null : String(value).trim(),
+  LENGTH: ([value]) => isNullish(value) ? null : String(value).length,
+  ABS: ([value]) => isNullish(value) ? null : Math.abs(Number(value)),
+  ROUND: ([value, digits]) => {
+    if (isNullish(value)) return null;
+    const factor = Math.pow(10, Number(digits) || 0);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  COALESCE: (args) => {
+    for (const value of args) {
+      if (!isNullish(value)) return value;
+    }
+    return null;
+  },
+  CONCAT: (args) => args.map(value => isNullish(value) ? '' : String(value)).join(''),
+};
+
+export const AGGREGATE_FUNCTIONS = new Set(['COUNT', 'SUM', 'AVG', 'MIN', 'MAX']);
+
+// `functions` replaces the scalar function library, e.g. with the one mapping transforms use
+export function evaluateExpression(expression: Expression, row: Row, params: Record<string, any> = {}, functions: Record<string, ScalarFunction> = SCALAR_FUNCTIONS): any {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'parameter':
+      return resolveParameter(expression.name, params);
+
+    case 'column':
+      return resolveColumn(row, expression.table, expression.name);
+
+    case 'star':
+      throw new QueryEvaluationError(`'${formatExpression(expression)}' can only be used in the select list or COUNT(*)`);
+
+    case 'comparison': {
+      const left = evaluateExpression(expression.left, row, params, functions);
+      const right = evaluateExpression(expression.right, row, params, functions);
+      if (isNullish(left) || isNullish(right)) return null;
+
+      switch (expression.operator) {
+        case '=': return valuesEqual(left, right);
+        case '!=': return !valuesEqual(left, right);
+        case '<': return compareValues(left, right) < 0;
+        case '<=': return compareValues(left, right) <= 0;
+        case '>': return compareValues(left, right) > 0;
+        case '>=': return compareValues(left, right) >= 0;
+      }
+      break;
+    }
+
+    case 'arithmetic': {
+      const left = evaluateExpression(expression.left, row, params, functions);
+      const right = evaluateExpression(expression.right, row, params, functions);
+      if (isNullish(left) || isNullish(right)) return null;
+
+      // "+" concatenates when either side is a non-numeric string
+      if (expression.operator === '+' && (typeof left === 'string' || typeof right === 'string')
+        && (isNaN(Number(left)) || isNaN(Number(right)))) {
+        return String(left) + String(right);
+      }
+
+      const a = Number(left);
+      const b = Number(right);
+      switch (expression.operator) {
+        case '+': return a + b;
+        case '-': return a - b;
+        case '*': return a * b;
+        case '/': return b === 0 ? null : a / b;
+        case '%': return b === 0 ? null : a % b;
+      }
+      break;
+    }
+
+    case 'logical': {
+      const left = evaluateExpression(expression.left, row, params, functions);
+      if (expression.operator === 'AND') {
+        if (left === false) return false;
+        const right = evaluateExpression(expression.right, row, params, functions);
+        if (right === false) return false;
+        if (isNullish(left) || isNullish(right)) return null;
+        return Boolean(left) && Boolean(right);
+      }
+
+      if (left === true) return true;
+      const right = evaluateExpression(expression.right, row, params, functions);
+      if (right === true) return true;
+      if (isNullish(left) || isNullish(right)) return null;
+      return Boolean(left) || Boolean(right);
+    }
+
+    case 'not': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      return isNullish(value) ? null : !value;
+    }
+
+    case 'negate': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      return isNullish(value) ? null : -Number(value);
+    }
+
+    case 'like': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      const pattern = evaluateExpression(expression.pattern, row, params, functions);
+      if (isNullish(value) || isNullish(pattern)) return null;
+      const matches = likeToRegExp(String(pattern)).test(String(value));
+      return expression.negated ? !matches : matches;
+    }
+
+    case 'in': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      if (isNullish(value)) return null;
+
+      // A single parameter may supply the whole list
+      const candidates = expression.values.flatMap(item => {
+        const evaluated = evaluateExpression(item, row, params, functions);
+        return Array.isArray(evaluated) ? evaluated : [evaluated];
+      });
+      const found = candidates.some(candidate => !isNullish(candidate) && valuesEqual(value, candidate));
+      return expression.negated ? !found : found;
+    }
+
+    case 'between': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      const low = evaluateExpression(expression.low, row, params, functions);
+      const high = evaluateExpression(expression.high, row, params, functions);
+      if (isNullish(value) || isNullish(low) || isNullish(high)) return null;
+      const inRange = compareValues(value, low) >= 0 && compareValues(value, high) <= 0;
+      return expression.negated ? !inRange : inRange;
+    }
+
+    case 'isNull': {
+      const value = evaluateExpression(expression.operand, row, params, functions);
+      return expression.negated ? !isNullish(value) : isNullish(value);
+    }
+
+    case 'function': {
+      if (AGGREGATE_FUNCTIONS.has(expression.name)) {
+        throw new QueryEvaluationError(`Aggregate function ${expression.name} is not supported in this context`);
+      }
+      const fn = functions[expression.name];
+      if (!fn) {
+        throw new QueryEvaluationError(`Unknown function ${expression.name}`);
+      }
+      return fn(expression.args.map(arg => evaluateExpression(arg, row, params, functions)));
+    }
+  }
+
+  return null;
+}
+
+// WHERE/HAVING/ON keep a row only when the predicate is strictly true
+export function matchesPredicate(expression: Expression | undefined, row: Row, params: Record<string, any> = {}): boolean {
+  if (!expression) return true;
+  return evaluateExpression(expression, row, params) === true;
+}
+
+// Substitute parameters and fold them into literals so a predicate can be translated for a data source
+export function resolveLiteral(expression: Expression, params: Record<string, any>): { value: any } | null {
+  if (expression.type === 'literal') return { value: expression.value as LiteralValue };
+  if (expression.type === 'parameter') return { value: resolveParameter(expression.name, params) };
+  return null;
+}
+
+// Name of the output column produced by a select item
+export function outputColumnName(item: SelectItem): string {
+  if (item.alias) return item.alias;
+  if (item.expression.type === 'column') return item.expression.name;
+  return formatExpression(item.expression);
+}
+
+// Evaluate the select list for one row. Internal keys such as __source are carried through.
+export function projectRow(items: SelectItem[], row: Row, params: Record<string, any> = {}): Row {
+  const output: Row = {};
+
+  for (const item of items) {
+    const expression = item.expression;
+
+    if (expression.type === 'star') {
+      for (const [key, value] of Object.entries(row)) {
+        if (key.startsWith('__')) continue;
+        if (expression.table && key.includes('.') && !key.startsWith(`${expression.table}.`)) continue;
+        output[key] = value;
+      }
+      continue;
+    }
+
+    // Same-named columns from different tables keep their qualifier instead of overwriting each other
+    let name = outputColumnName(item);
+    if (name in output && !item.alias && expression.type === 'column' && expression.table) {
+      name = `${expression.table}.${expression.name}`;
+    }
+    output[name] = evaluateExpression(expression, row, params);
+  }
+
+  for (const [key, value] of Object.entries(row)) {
+    if (key.startsWith('__') && !(key in output)) {
+      output[key] = value;
+    }
+  }
+
+  return output;
+}
+
+// Sort rows by ORDER BY items. Each entry pairs the output row with the input row it came from,
+// so ORDER BY can name either a select alias or a source column.
+export function sortRows<T extends { output: Row; source: Row }>(entries: T[], orderBy: OrderByItem[], params: Record<string, any> = {}): T[] {
+  if (orderBy.length === 0) return entries;
+
+  const keyed = entries.map(entry => {
+    const context = { ...entry.source, ...entry.output };
+    return {
+      entry,
+      keys: orderBy.map(item => evaluateExpression(item.expression, context, params)),
+    };
+  });
+
+  keyed.sort((a, b) => {
+    for (let i = 0; i < orderBy.length; i++) {
+      const direction = orderBy[i].direction === 'desc' ? -1 : 1;
+      const comparison = compareValues(a.keys[i], b.keys[i]);
+      if (comparison !== 0) return comparison * direction;
+    }
+    return 0;
+  });
+
+  return keyed.map(item => item.entry);
+}
+
+// Remove duplicate output rows for SELECT DISTINCT, ignoring internal keys
+export function distinctRows(rows: Row[]): Row[] {
+  const seen = new Set<string>();
+  return rows.filter(row => {
+    const key = JSON.stringify(Object.entries(row).filter(([column]) => !column.startsWith('__')));
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
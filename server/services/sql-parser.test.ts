@@ -0,0 +1,134 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatExpression, parseExpression, parseSql, splitConjunction, SqlParseError, tokenize } from "./sql-parser";
+
+describe("tokenize", () => {
+  it("uppercases keywords and keeps identifiers, strings and parameters as written", () => {
+    const tokens = tokenize("select userName from `order items` where name = 'O''Brien' and id = :userId");
+
+    assert.deepEqual(
+      tokens.map(token => [token.type, token.value]),
+      [
+        ['keyword', 'SELECT'], ['identifier', 'userName'], ['keyword', 'FROM'], ['identifier', 'order items'],
+        ['keyword', 'WHERE'], ['identifier', 'name'], ['operator', '='], ['string', "O'Brien"],
+        ['keyword', 'AND'], ['identifier', 'id'], ['operator', '='], ['parameter', 'userId'], ['eof', ''],
+      ],
+    );
+  });
+
+  it("normalizes <> and == and skips line comments", () => {
+    const tokens = tokenize("a <> b -- ignored\n== c");
+    assert.deepEqual(tokens.filter(token => token.type === 'operator').map(token => token.value), ['!=', '=']);
+  });
+
+  it("reports where an unterminated string starts", () => {
+    assert.throws(() => tokenize("SELECT *\nFROM t WHERE a = 'oops"), (error: unknown) => {
+      assert.ok(error instanceof SqlParseError);
+      assert.equal(error.line, 2);
+      assert.equal(error.column, 18);
+      return true;
+    });
+  });
+});
+
+describe("parseSql", () => {
+  it("parses every clause of a select statement", () => {
+    const statement = parseSql(
+      "SELECT DISTINCT u.name AS userName, COUNT(*) total FROM users u " +
+      "LEFT OUTER JOIN orders o ON o.userId = u.id " +
+      "WHERE u.age BETWEEN 18 AND 65 GROUP BY u.name HAVING COUNT(*) > 1 " +
+      "ORDER BY total DESC, userName LIMIT 10 OFFSET 20;",
+    );
+
+    assert.equal(statement.distinct, true);
+    assert.deepEqual(statement.columns.map(item => [formatExpression(item.expression), item.alias]), [
+      ['u.name', 'userName'],
+      ['COUNT(*)', 'total'],
+    ]);
+    assert.deepEqual(statement.from, { name: 'users', alias: 'u' });
+    assert.equal(statement.joins.length, 1);
+    assert.equal(statement.joins[0].kind, 'LEFT');
+    assert.deepEqual(statement.joins[0].table, { name: 'orders', alias: 'o' });
+    assert.equal(formatExpression(statement.joins[0].on!), 'o.userId = u.id');
+    assert.equal(formatExpression(statement.where!), 'u.age BETWEEN 18 AND 65');
+    assert.deepEqual(statement.groupBy.map(formatExpression), ['u.name']);
+    assert.equal(formatExpression(statement.having!), 'COUNT(*) > 1');
+    assert.deepEqual(statement.orderBy.map(item => [formatExpression(item.expression), item.direction]), [
+      ['total', 'desc'],
+      ['userName', 'asc'],
+    ]);
+    assert.equal(statement.limit, 10);
+    assert.equal(statement.offset, 20);
+  });
+
+  it("reads comma-separated tables as cross joins and MySQL-style LIMIT offset, count", () => {
+    const statement = parseSql("SELECT * FROM a, b LIMIT 5, 10");
+
+    assert.deepEqual(statement.joins, [{ kind: 'CROSS', table: { name: 'b' } }]);
+    assert.equal(statement.offset, 5);
+    assert.equal(statement.limit, 10);
+  });
+
+  it("parses table.* in the select list", () => {
+    const statement = parseSql("SELECT o.*, u.name FROM orders o JOIN users u ON u.id = o.userId");
+    assert.deepEqual(statement.columns[0].expression, { type: 'star', table: 'o' });
+  });
+
+  it("keeps the case of qualified columns named like keywords", () => {
+    const statement = parseSql("SELECT t.order, t.Desc FROM tasks t ORDER BY t.order");
+
+    assert.deepEqual(statement.columns.map(item => item.expression), [
+      { type: 'column', table: 't', name: 'order' },
+      { type: 'column', table: 't', name: 'Desc' },
+    ]);
+    assert.deepEqual(statement.orderBy[0].expression, { type: 'column', table: 't', name: 'order' });
+  });
+
+  it("rejects trailing input and bad LIMIT values with their position", () => {
+    assert.throws(() => parseSql("SELECT * FROM t garbage more"), /Unexpected 'more' at line 1, column 25/);
+    assert.throws(() => parseSql("SELECT * FROM t LIMIT -1"), /LIMIT expects a non-negative integer/);
+    assert.throws(() => parseSql("SELECT * FROM"), /Expected a collection name/);
+  });
+});
+
+describe("parseExpression", () => {
+  it("binds AND tighter than OR and arithmetic tighter than comparison", () => {
+    const expression = parseExpression("a = 1 OR b + 2 * 3 > 4 AND NOT c IS NULL");
+    assert.equal(formatExpression(expression), '(a = 1 OR (b + 2 * 3 > 4 AND NOT c IS NULL))');
+
+    assert.deepEqual(parseExpression("b + 2 * 3"), {
+      type: 'arithmetic',
+      operator: '+',
+      left: { type: 'column', name: 'b' },
+      right: { type: 'arithmetic', operator: '*', left: { type: 'literal', value: 2 }, right: { type: 'literal', value: 3 } },
+    });
+  });
+
+  it("parses negated LIKE, IN and BETWEEN", () => {
+    assert.deepEqual(parseExpression("name NOT LIKE 'A%'"), {
+      type: 'like',
+      negated: true,
+      operand: { type: 'column', name: 'name' },
+      pattern: { type: 'literal', value: 'A%' },
+    });
+    assert.equal(formatExpression(parseExpression("id NOT IN (1, 2, :other)")), 'id NOT IN (1, 2, :other)');
+    assert.equal(formatExpression(parseExpression("age NOT BETWEEN 1 AND 2")), 'age NOT BETWEEN 1 AND 2');
+  });
+
+  it("parses literals and function calls", () => {
+    assert.deepEqual(parseExpression("NULL"), { type: 'literal', value: null });
+    assert.deepEqual(parseExpression("true"), { type: 'literal', value: true });
+    assert.deepEqual(parseExpression("1.5e2"), { type: 'literal', value: 150 });
+    assert.deepEqual(parseExpression("count(DISTINCT userId)"), {
+      type: 'function',
+      name: 'COUNT',
+      args: [{ type: 'column', name: 'userId' }],
+      distinct: true,
+    });
+  });
+
+  it("splits top-level AND terms only", () => {
+    const terms = splitConjunction(parseExpression("a = 1 AND (b = 2 OR c = 3) AND d = 4"));
+    assert.deepEqual(terms.map(formatExpression), ['a = 1', '(b = 2 OR c = 3)', 'd = 4']);
+  });
+});
@@ -0,0 +1,796 @@
+// Tokenizer and recursive-descent parser for the SQL dialect used by federated queries.
+// The parser produces a typed AST that the federation engine, the validator and the
+// file storage service all share, so every consumer agrees on what a query means.
+
+export type LiteralValue = string | number | boolean | null;
+
+export type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+export type ArithmeticOperator = '+' | '-' | '*' | '/' | '%';
+
+export type Expression =
+  | { type: 'literal'; value: LiteralValue }
+  | { type: 'parameter'; name: string }
+  | { type: 'column'; table?: string; name: string }
+  | { type: 'star'; table?: string }
+  | { type: 'comparison'; operator: ComparisonOperator; left: Expression; right: Expression }
+  | { type: 'arithmetic'; operator: ArithmeticOperator; left: Expression; right: Expression }
+  | { type: 'logical'; operator: 'AND' | 'OR'; left: Expression; right: Expression }
+  | { type: 'not'; operand: Expression }
+  | { type: 'negate'; operand: Expression }
+  | { type: 'like'; negated: boolean; operand: Expression; pattern: Expression }
+  | { type: 'in'; negated: boolean; operand: Expression; values: Expression[] }
+  | { type: 'between'; negated: boolean; operand: Expression; low: Expression; high: Expression }
+  | { type: 'isNull'; negated: boolean; operand: Expression }
+  | { type: 'function'; name: string; args: Expression[]; distinct: boolean };
+
+export interface SelectItem {
+  expression: Expression;
+  alias?: string;
+}
+
+export interface TableReference {
+  name: string;
+  alias?: string;
+}
+
+export type JoinKind = 'INNER' | 'LEFT' | 'RIGHT' | 'FULL' | 'CROSS';
+
+export interface JoinClause {
+  kind: JoinKind;
+  table: TableReference;
+  on?: Expression;
+}
+
+export interface OrderByItem {
+  expression: Expression;
+  direction: 'asc' | 'desc';
+}
+
+export interface SelectStatement {
+  type: 'select';
+  distinct: boolean;
+  columns: SelectItem[];
+  from: TableReference;
+  joins: JoinClause[];
+  where?: Expression;
+  groupBy: Expression[];
+  having?: Expression;
+  orderBy: OrderByItem[];
+  limit?: number;
+  offset?: number;
+}
+
+type TokenType = 'keyword' | 'identifier' | 'string' | 'number' | 'parameter' | 'operator' | 'punctuation' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  // Keywords only: the word as written, since `value` is uppercased
+  text?: string;
+  line: number;
+  column: number;
+}
+
+const KEYWORDS = new Set([
+  'SELECT', 'DISTINCT', 'FROM', 'AS', 'WHERE', 'AND', 'OR', 'NOT', 'IN', 'LIKE', 'BETWEEN',
+  'IS', 'NULL', 'TRUE', 'FALSE', 'JOIN', 'INNER', 'LEFT', 'RIGHT', 'FULL', 'OUTER', 'CROSS',
+  'ON', 'GROUP', 'BY', 'HAVING', 'ORDER', 'ASC', 'DESC', 'LIMIT', 'OFFSET',
+]);
+
+export class SqlParseError extends Error {
+  constructor(message: string, public line: number, public column: number) {
+    super(`${message} at line ${line}, column ${column}`);
+    this.name = 'SqlParseError';
+  }
+}
+
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (sql[index] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      index++;
+    }
+  };
+
+  while (index < sql.length) {
+    const char = sql[index];
+
+    // Whitespace
+    if (/\s/.test(char)) {
+      advance(1);
+      continue;
+    }
+
+    // Line comments
+    if (char === '-' && sql[index + 1] === '-') {
+      while (index < sql.length && sql[index] !== '\n') advance(1);
+      continue;
+    }
+
+    const startLine = line;
+    const startColumn = column;
+
+    // String literals, with doubled quotes as the escape
+    if (char === "'" || char === '"') {
+      let value = '';
+      advance(1);
+      while (true) {
+        if (index >= sql.length) {
+          throw new SqlParseError('Unterminated string literal', startLine, startColumn);
+        }
+        if (sql[index] === char) {
+          if (sql[index + 1] === char) {
+            value += char;
+            advance(2);
+            continue;
+          }
+          advance(1);
+          break;
+        }
+        value += sql[index];
+        advance(1);
+      }
+      tokens.push({ type: 'string', value, line: startLine, column: startColumn });
+      continue;
+    }
+
+    // Backtick-quoted identifiers
+    if (char === '`') {
+      const end = sql.indexOf('`', index + 1);
+      if (end === -1) {
+        throw new SqlParseError('Unterminated quoted identifier', startLine, startColumn);
+      }
+      const value = sql.slice(index + 1, end);
+      advance(end - index + 1);
+      tokens.push({ type: 'identifier', value, line: startLine, column: startColumn });
+      continue;
+    }
+
+    // Numbers
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(sql[index + 1] || ''))) {
+      const match = sql.slice(index).match(/^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/)!;
+      advance(match[0].length);
+      tokens.push({ type: 'number', value: match[0], line: startLine, column: startColumn });
+      continue;
+    }
+
+    // Named parameters (:userId)
+    if (char === ':' && /[a-zA-Z_]/.test(sql[index + 1] || '')) {
+      const match = sql.slice(index + 1).match(/^[a-zA-Z_][a-zA-Z0-9_]*/)!;
+      advance(match[0].length + 1);
+      tokens.push({ type: 'parameter', value: match[0], line: startLine, column: startColumn });
+      continue;
+    }
+
+    // Identifiers and keywords
+    if (/[a-zA-Z_$]/.test(char)) {
+      const match = sql.slice(index).match(/^[a-zA-Z_$][a-zA-Z0-9_$]*/)!;
+      advance(match[0].length);
+      const upper = match[0].toUpperCase();
+      if (KEYWORDS.has(upper)) {
+        tokens.push({ type: 'keyword', value: upper, text: match[0], line: startLine, column: startColumn });
+      } else {
+        tokens.push({ type: 'identifier', value: match[0], line: startLine, column: startColumn });
+      }
+      continue;
+    }
+
+    // Operators
+    const twoChars = sql.slice(index, index + 2);
+    if (twoChars === '<=' || twoChars === '>=' || twoChars === '!=' || twoChars === '<>' || twoChars === '==') {
+      advance(2);
+      const value = twoChars === '<>' ? '!=' : twoChars === '==' ? '=' : twoChars;
+      tokens.push({ type: 'operator', value, line: startLine, column: startColumn });
+      continue;
+    }
+    if ('=<>+-*/%'.includes(char)) {
+      advance(1);
+      tokens.push({ type: 'operator', value: char, line: startLine, column: startColumn });
+      continue;
+    }
+    if ('(),.;'.includes(char)) {
+      advance(1);
+      tokens.push({ type: 'punctuation', value: char, line: startLine, column: startColumn });
+      continue;
+    }
+
+    throw new SqlParseError(`Unexpected character '${char}'`, startLine, startColumn);
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column });
+  return tokens;
+}
+
+class SqlParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(sql: string) {
+    this.tokens = tokenize(sql);
+  }
+
+  parseStatement(): SelectStatement {
+    this.expectKeyword('SELECT');
+    const distinct = this.matchKeyword('DISTINCT');
+    const columns = this.parseSelectList();
+
+    this.expectKeyword('FROM');
+    const from = this.parseTableReference();
+    const joins: JoinClause[] = [];
+
+    while (true) {
+      if (this.matchPunctuation(',')) {
+        joins.push({ kind: 'CROSS', table: this.parseTableReference() });
+        continue;
+      }
+      const join = this.parseJoin();
+      if (!join) break;
+      joins.push(join);
+    }
+
+    const statement: SelectStatement = {
+      type: 'select',
+      distinct,
+      columns,
+      from,
+      joins,
+      groupBy: [],
+      orderBy: [],
+    };
+
+    if (this.matchKeyword('WHERE')) {
+      statement.where = this.parseExpression();
+    }
+
+    if (this.matchKeyword('GROUP')) {
+      this.expectKeyword('BY');
+      do {
+        statement.groupBy.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+    }
+
+    if (this.matchKeyword('HAVING')) {
+      statement.having = this.parseExpression();
+    }
+
+    if (this.matchKeyword('ORDER')) {
+      this.expectKeyword('BY');
+      do {
+        const expression = this.parseExpression();
+        let direction: 'asc' | 'desc' = 'asc';
+        if (this.matchKeyword('DESC')) {
+          direction = 'desc';
+        } else {
+          this.matchKeyword('ASC');
+        }
+        statement.orderBy.push({ expression, direction });
+      } while (this.matchPunctuation(','));
+    }
+
+    if (this.matchKeyword('LIMIT')) {
+      const first = this.parseNonNegativeInteger('LIMIT');
+      if (this.matchPunctuation(',')) {
+        // MySQL style "LIMIT offset, count"
+        statement.offset = first;
+        statement.limit = this.parseNonNegativeInteger('LIMIT');
+      } else {
+        statement.limit = first;
+      }
+    }
+
+    if (this.matchKeyword('OFFSET')) {
+      statement.offset = this.parseNonNegativeInteger('OFFSET');
+    }
+
+    this.matchPunctuation(';');
+
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw this.error(`Unexpected ${this.describe(trailing)}`, trailing);
+    }
+
+    return statement;
+  }
+
+  // A whole input that is a single expression, e.g. a mapping rule's transform
+  parseStandaloneExpression(): Expression {
+    const expression = this.parseExpression();
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw this.error(`Unexpected ${this.describe(trailing)}`, trailing);
+    }
+    return expression;
+  }
+
+  private parseSelectList(): SelectItem[] {
+    const items: SelectItem[] = [];
+
+    do {
+      if (this.matchOperator('*')) {
+        items.push({ expression: { type: 'star' } });
+        continue;
+      }
+
+      // alias.* selects every column of one table
+      const token = this.peek();
+      const next = this.peek(1);
+      const afterNext = this.peek(2);
+      if (token.type === 'identifier' && next.value === '.' && afterNext.type === 'operator' && afterNext.value === '*') {
+        this.position += 3;
+        items.push({ expression: { type: 'star', table: token.value } });
+        continue;
+      }
+
+      const expression = this.parseExpression();
+      const alias = this.parseAlias();
+      items.push(alias ? { expression, alias } : { expression });
+    } while (this.matchPunctuation(','));
+
+    return items;
+  }
+
+  private parseTableReference(): TableReference {
+    const token = this.peek();
+    if (token.type !== 'identifier') {
+      throw this.error(`Expected a collection name but found ${this.describe(token)}`, token);
+    }
+    this.position++;
+
+    // Dotted collection names (e.g. "schema.table") are kept as a single name
+    let name = token.value;
+    while (this.peek().value === '.' && this.peek(1).type === 'identifier') {
+      this.position++;
+      name += '.' + this.consume().value;
+    }
+
+    const alias = this.parseAlias();
+    return alias ? { name, alias } : { name };
+  }
+
+  private parseAlias(): string | undefined {
+    if (this.matchKeyword('AS')) {
+      const token = this.peek();
+      if (token.type !== 'identifier' && token.type !== 'string') {
+        throw this.error(`Expected an alias after AS but found ${this.describe(token)}`, token);
+      }
+      this.position++;
+      return token.value;
+    }
+
+    const token = this.peek();
+    if (token.type === 'identifier') {
+      this.position++;
+      return token.value;
+    }
+
+    return undefined;
+  }
+
+  private parseJoin(): JoinClause | null {
+    let kind: JoinKind | null = null;
+
+    if (this.matchKeyword('JOIN')) {
+      kind = 'INNER';
+    } else if (this.matchKeyword('INNER')) {
+      kind = 'INNER';
+    } else if (this.matchKeyword('LEFT')) {
+      kind = 'LEFT';
+    } else if (this.matchKeyword('RIGHT')) {
+      kind = 'RIGHT';
+    } else if (this.matchKeyword('FULL')) {
+      kind = 'FULL';
+    } else if (this.matchKeyword('CROSS')) {
+      kind = 'CROSS';
+    }
+
+    if (!kind) return null;
+
+    const previous = this.tokens[this.position - 1];
+    if (previous.value !== 'JOIN') {
+      if (kind === 'LEFT' || kind === 'RIGHT' || kind === 'FULL') {
+        this.matchKeyword('OUTER');
+      }
+      this.expectKeyword('JOIN');
+    }
+
+    const table = this.parseTableReference();
+
+    if (kind === 'CROSS') {
+      return { kind, table };
+    }
+
+    this.expectKeyword('ON');
+    const on = this.parseExpression();
+    return { kind, table, on };
+  }
+
+  private parseNonNegativeInteger(clause: string): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^[0-9]+$/.test(token.value)) {
+      throw this.error(`${clause} expects a non-negative integer but found ${this.describe(token)}`, token);
+    }
+    this.position++;
+    return parseInt(token.value, 10);
+  }
+
+  // Expression grammar, lowest precedence first:
+  // OR -> AND -> NOT -> predicate (comparison, LIKE, IN, BETWEEN, IS NULL) -> additive -> multiplicative -> unary -> primary
+  parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  private parseOr(): Expression {
+    let left = this.parseAnd();
+    while (this.matchKeyword('OR')) {
+      const right = this.parseAnd();
+      left = { type: 'logical', operator: 'OR', left, right };
+    }
+    return left;
+  }
+
+  private parseAnd(): Expression {
+    let left = this.parseNot();
+    while (this.matchKeyword('AND')) {
+      const right = this.parseNot();
+      left = { type: 'logical', operator: 'AND', left, right };
+    }
+    return left;
+  }
+
+  private parseNot(): Expression {
+    if (this.matchKeyword('NOT')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parsePredicate();
+  }
+
+  private parsePredicate(): Expression {
+    const left = this.parseAdditive();
+    const token = this.peek();
+
+    if (token.type === 'operator' && ['=', '!=', '<', '<=', '>', '>='].includes(token.value)) {
+      this.position++;
+      const right = this.parseAdditive();
+      return { type: 'comparison', operator: token.value as ComparisonOperator, left, right };
+    }
+
+    if (this.matchKeyword('IS')) {
+      const negated = this.matchKeyword('NOT');
+      this.expectKeyword('NULL');
+      return { type: 'isNull', negated, operand: left };
+    }
+
+    // NOT may prefix LIKE, IN and BETWEEN
+    let negated = false;
+    if (token.type === 'keyword' && token.value === 'NOT') {
+      const next = this.peek(1);
+      if (next.type === 'keyword' && ['LIKE', 'IN', 'BETWEEN'].includes(next.value)) {
+        this.position++;
+        negated = true;
+      }
+    }
+
+    if (this.matchKeyword('LIKE')) {
+      return { type: 'like', negated, operand: left, pattern: this.parseAdditive() };
+    }
+
+    if (this.matchKeyword('IN')) {
+      this.expectPunctuation('(');
+      const values: Expression[] = [];
+      do {
+        values.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+      this.expectPunctuation(')');
+      return { type: 'in', negated, operand: left, values };
+    }
+
+    if (this.matchKeyword('BETWEEN')) {
+      const low = this.parseAdditive();
+      this.expectKeyword('AND');
+      const high = this.parseAdditive();
+      return { type: 'between', negated, operand: left, low, high };
+    }
+
+    return left;
+  }
+
+  private parseAdditive(): Expression {
+    let left = this.parseMultiplicative();
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'operator' && (token.value === '+' || token.value === '-')) {
+        this.position++;
+        const right = this.parseMultiplicative();
+        left = { type: 'arithmetic', operator: token.value, left, right };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseMultiplicative(): Expression {
+    let left = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'operator' && (token.value === '*' || token.value === '/' || token.value === '%')) {
+        this.position++;
+        const right = this.parseUnary();
+        left = { type: 'arithmetic', operator: token.value, left, right };
+      } else {
+        return left;
+      }
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.matchOperator('-')) {
+      const operand = this.parseUnary();
+      if (operand.type === 'literal' && typeof operand.value === 'number') {
+        return { type: 'literal', value: -operand.value };
+      }
+      return { type: 'negate', operand };
+    }
+    if (this.matchOperator('+')) {
+      return this.parseUnary();
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.position++;
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'string':
+        this.position++;
+        return { type: 'literal', value: token.value };
+
+      case 'parameter':
+        this.position++;
+        return { type: 'parameter', name: token.value };
+
+      case 'keyword':
+        if (token.value === 'NULL') {
+          this.position++;
+          return { type: 'literal', value: null };
+        }
+        if (token.value === 'TRUE' || token.value === 'FALSE') {
+          this.position++;
+          return { type: 'literal', value: token.value === 'TRUE' };
+        }
+        break;
+
+      case 'punctuation':
+        if (token.value === '(') {
+          this.position++;
+          const expression = this.parseExpression();
+          this.expectPunctuation(')');
+          return expression;
+        }
+        break;
+
+      case 'identifier': {
+        this.position++;
+
+        // Function call
+        if (this.peek().value === '(' && this.peek().type === 'punctuation') {
+          return this.parseFunctionCall(token.value);
+        }
+
+        // Qualified column reference (alias.column)
+        if (this.peek().value === '.' && this.peek().type === 'punctuation') {
+          this.position++;
+          const columnToken = this.peek();
+          if (columnToken.type !== 'identifier' && columnToken.type !== 'keyword') {
+            throw this.error(`Expected a column name after '${token.value}.' but found ${this.describe(columnToken)}`, columnToken);
+          }
+          this.position++;
+          return { type: 'column', table: token.value, name: columnToken.text ?? columnToken.value };
+        }
+
+        return { type: 'column', name: token.value };
+      }
+    }
+
+    throw this.error(`Unexpected ${this.describe(token)}`, token);
+  }
+
+  private parseFunctionCall(name: string): Expression {
+    this.expectPunctuation('(');
+    const upperName = name.toUpperCase();
+
+    if (this.matchPunctuation(')')) {
+      return { type: 'function', name: upperName, args: [], distinct: false };
+    }
+
+    const distinct = this.matchKeyword('DISTINCT');
+    const args: Expression[] = [];
+
+    if (this.matchOperator('*')) {
+      args.push({ type: 'star' });
+    } else {
+      do {
+        args.push(this.parseExpression());
+      } while (this.matchPunctuation(','));
+    }
+
+    this.expectPunctuation(')');
+    return { type: 'function', name: upperName, args, distinct };
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private consume(): Token {
+    const token = this.peek();
+    this.position++;
+    return token;
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek();
+    if (token.type === 'keyword' && token.value === keyword) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.position++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.matchKeyword(keyword)) {
+      const token = this.peek();
+      throw this.error(`Expected ${keyword} but found ${this.describe(token)}`, token);
+    }
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.matchPunctuation(value)) {
+      const token = this.peek();
+      throw this.error(`Expected '${value}' but found ${this.describe(token)}`, token);
+    }
+  }
+
+  private describe(token: Token): string {
+    switch (token.type) {
+      case 'eof': return 'end of query';
+      case 'string': return `string '${token.value}'`;
+      case 'parameter': return `parameter :${token.value}`;
+      default: return `'${token.value}'`;
+    }
+  }
+
+  private error(message: string, token: Token): SqlParseError {
+    return new SqlParseError(message, token.line, token.column);
+  }
+}
+
+export function parseSql(sql: string): SelectStatement {
+  return new SqlParser(sql).parseStatement();
+}
+
+export function parseExpression(text: string): Expression {
+  return new SqlParser(text).parseStandaloneExpression();
+}
+
+// Collect every column referenced by an expression
+export function collectColumns(expression: Expression | undefined, columns: { table?: string; name: string }[] = []): { table?: string; name: string }[] {
+  if (!expression) return columns;
+
+  switch (expression.type) {
+    case 'column':
+      columns.push({ table: expression.table, name: expression.name });
+      break;
+    case 'comparison':
+    case 'arithmetic':
+    case 'logical':
+      collectColumns(expression.left, columns);
+      collectColumns(expression.right, columns);
+      break;
+    case 'not':
+    case 'negate':
+    case 'isNull':
+      collectColumns(expression.operand, columns);
+      break;
+    case 'like':
+      collectColumns(expression.operand, columns);
+      collectColumns(expression.pattern, columns);
+      break;
+    case 'in':
+      collectColumns(expression.operand, columns);
+      expression.values.forEach(value => collectColumns(value, columns));
+      break;
+    case 'between':
+      collectColumns(expression.operand, columns);
+      collectColumns(expression.low, columns);
+      collectColumns(expression.high, columns);
+      break;
+    case 'function':
+      expression.args.forEach(arg => collectColumns(arg, columns));
+      break;
+  }
+
+  return columns;
+}
+
+// Split an expression into its top-level AND terms
+export function splitConjunction(expression: Expression | undefined): Expression[] {
+  if (!expression) return [];
+  if (expression.type === 'logical' && expression.operator === 'AND') {
+    return [...splitConjunction(expression.left), ...splitConjunction(expression.right)];
+  }
+  return [expression];
+}
+
+// Rebuild an AND chain from a list of terms
+export function joinConjunction(terms: Expression[]): Expression | undefined {
+  if (terms.length === 0) return undefined;
+  return terms.reduce((left, right) => ({ type: 'logical', operator: 'AND', left, right }));
+}
+
+// Render an expression back to SQL text, used for default column names and plan output
+export function formatExpression(expression: Expression): string {
+  switch (expression.type) {
+    case 'literal':
+      if (expression.value === null) return 'NULL';
+      if (typeof expression.value === 'string') return `'${expression.value.replace(/'/g, "''")}'`;
+      if (typeof expression.value === 'boolean') return expression.value ? 'TRUE' : 'FALSE';
+      return String(expression.value);
+    case 'parameter':
+      return `:${expression.name}`;
+    case 'column':
+      return expression.table ? `${expression.table}.${expression.name}` : expression.name;
+    case 'star':
+      return expression.table ? `${expression.table}.*` : '*';
+    case 'comparison':
+    case 'arithmetic':
+      return `${formatExpression(expression.left)} ${expression.operator} ${formatExpression(expression.right)}`;
+    case 'logical':
+      return `(${formatExpression(expression.left)} ${expression.operator} ${formatExpression(expression.right)})`;
+    case 'not':
+      return `NOT ${formatExpression(expression.operand)}`;
+    case 'negate':
+      return `-${formatExpression(expression.operand)}`;
+    case 'like':
+      return `${formatExpression(expression.operand)}${expression.negated ? ' NOT' : ''} LIKE ${formatExpression(expression.pattern)}`;
+    case 'in':
+      return `${formatExpression(expression.operand)}${expression.negated ? ' NOT' : ''} IN (${expression.values.map(formatExpression).join(', ')})`;
+    case 'between':
+      return `${formatExpression(expression.operand)}${expression.negated ? ' NOT' : ''} BETWEEN ${formatExpression(expression.low)} AND ${formatExpression(expression.high)}`;
+    case 'isNull':
+      return `${formatExpression(expression.operand)} IS ${expression.negated ? 'NOT ' : ''}NULL`;
+    case 'function':
+      return `${expression.name}(${expression.distinct ? 'DISTINCT ' : ''}${expression.args.map(formatExpression).join(', ')})`;
+  }
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, jsonb, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, json, jsonb, timestamp, unique, varchar, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,16 +7,35 @@ export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"), // "admin", "editor", "viewer"
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A user as the API returns it
+export type PublicUser = Omit<User, "password">;
+
+// What each role may do: viewers read and run queries, editors also change data sources,
+// mappings and queries, admins also delete data sources and manage users, grants and settings
+export const USER_ROLES = ["viewer", "editor", "admin"] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+// Login sessions, in the layout connect-pg-simple expects
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("user_sessions_expire_idx").on(table.expire),
+]);
+
 // Data Sources schema
 export const dataSources = pgTable("data_sources", {
   id: serial("id").primaryKey(),
@@ -24,7 +43,11 @@ export const dataSources = pgTable("data_sources", {
   type: text("type").notNull(), // "firebase" or "mongodb"
   config: jsonb("config").notNull(), // Connection details as JSON
   collections: jsonb("collections"), // Available collections/tables
-  status: text("status").notNull().default("connected"), // "connected", "disconnected", "error"
+  status: text("status").notNull().default("disconnected"), // "connected", "disconnected", "error"; set by connection attempts and health checks
+  lastError: text("last_error"), // Why the last connection attempt failed, when status is "error"
+  demoMode: boolean("demo_mode").notNull().default(false), // Read built-in sample data instead of connecting
+  snapshotCollections: jsonb("snapshot_collections").notNull().default({}), // Collection name -> snapshot refresh interval (minutes) for hybrid queries
+  maxRows: integer("max_rows"), // Most rows a query reads from one collection; DEFAULT_MAX_ROWS when null
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -35,8 +58,17 @@ export const insertDataSourceSchema = createInsertSchema(dataSources).pick({
   config: true,
   collections: true,
   status: true,
+  snapshotCollections: true,
+  maxRows: true,
+  demoMode: true,
 });
 
+// Stands in for a secret config value in API responses; sending it back keeps the stored secret
+export const REDACTED_SECRET = "[redacted]";
+
+// Row budget for sources that don't set maxRows
+export const DEFAULT_MAX_ROWS = 10000;
+
 export type InsertDataSource = z.infer<typeof insertDataSourceSchema>;
 export type DataSource = typeof dataSources.$inferSelect;
 
@@ -50,6 +82,7 @@ export const schemaMappings = pgTable("schema_mappings", {
   targetCollection: text("target_collection").notNull(),
   mappingRules: jsonb("mapping_rules").notNull(), // Array of field mappings
   status: text("status").notNull().default("active"), // "active", "inactive"
+  bidirectional: boolean("bidirectional").notNull().default(false), // Also maps target documents back to the source
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -62,6 +95,7 @@ export const insertSchemaMappingSchema = createInsertSchema(schemaMappings).pick
   targetCollection: true,
   mappingRules: true,
   status: true,
+  bidirectional: true,
 });
 
 export type InsertSchemaMapping = z.infer<typeof insertSchemaMappingSchema>;
@@ -94,23 +128,312 @@ export type Query = typeof queries.$inferSelect;
 export const queryResults = pgTable("query_results", {
   id: serial("id").primaryKey(),
   queryId: integer("query_id").notNull(),
+  paramsHash: text("params_hash").notNull().default(""), // Hash of the query parameters the results were computed with
   results: jsonb("results").notNull(),
   executionTime: integer("execution_time").notNull(), // in milliseconds
+  truncated: boolean("truncated").notNull().default(false), // Whether a source hit its row budget
+  scanned: jsonb("scanned").notNull().default([]), // Rows read per source scan
+  summary: jsonb("summary").notNull().default({}), // The rest of the run's response: joins, aggregation, mappings
   lastUpdated: timestamp("last_updated").defaultNow(),
   nextUpdate: timestamp("next_update"),
 });
 
 export const insertQueryResultSchema = createInsertSchema(queryResults).pick({
   queryId: true,
+  paramsHash: true,
   results: true,
   executionTime: true,
+  truncated: true,
+  scanned: true,
+  summary: true,
   nextUpdate: true,
 });
 
 export type InsertQueryResult = z.infer<typeof insertQueryResultSchema>;
 export type QueryResult = typeof queryResults.$inferSelect;
 
+// Snapshots of slowly changing collections, read by hybrid queries instead of the live source
+export const collectionSnapshots = pgTable("collection_snapshots", {
+  id: serial("id").primaryKey(),
+  sourceId: integer("source_id").notNull(),
+  collection: text("collection").notNull(),
+  rows: jsonb("rows").notNull(),
+  rowCount: integer("row_count").notNull(),
+  lastUpdated: timestamp("last_updated").defaultNow(),
+}, (table) => [
+  unique("collection_snapshots_source_collection_unique").on(table.sourceId, table.collection),
+]);
+
+export const insertCollectionSnapshotSchema = createInsertSchema(collectionSnapshots).pick({
+  sourceId: true,
+  collection: true,
+  rows: true,
+  rowCount: true,
+});
+
+export type InsertCollectionSnapshot = z.infer<typeof insertCollectionSnapshotSchema>;
+export type CollectionSnapshot = typeof collectionSnapshots.$inferSelect;
+
+// Refresh schedules for saved queries: a cron expression or a fixed interval in minutes
+export const querySchedules = pgTable("query_schedules", {
+  id: serial("id").primaryKey(),
+  queryId: integer("query_id").notNull().unique(),
+  cron: text("cron"), // Five-field cron expression, evaluated in server time
+  intervalMinutes: integer("interval_minutes"),
+  params: jsonb("params").notNull().default({}), // Parameter values the query runs with
+  enabled: boolean("enabled").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  nextRunAt: timestamp("next_run_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertQueryScheduleSchema = createInsertSchema(querySchedules).pick({
+  queryId: true,
+  cron: true,
+  intervalMinutes: true,
+  params: true,
+  enabled: true,
+  nextRunAt: true,
+});
+
+export type InsertQuerySchedule = z.infer<typeof insertQueryScheduleSchema>;
+export type QuerySchedule = typeof querySchedules.$inferSelect;
+
+// History of query runs made by the scheduler
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  queryId: integer("query_id").notNull(),
+  scheduleId: integer("schedule_id"),
+  trigger: text("trigger").notNull().default("schedule"), // "schedule", "manual"
+  status: text("status").notNull().default("running"), // "running", "succeeded", "failed"
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  rowCount: integer("row_count"),
+  error: text("error"),
+});
+
+export const insertJobRunSchema = createInsertSchema(jobRuns).pick({
+  queryId: true,
+  scheduleId: true,
+  trigger: true,
+  status: true,
+});
+
+export type InsertJobRun = z.infer<typeof insertJobRunSchema>;
+export type JobRun = typeof jobRuns.$inferSelect;
+
+// Connectivity history written by the health checker
+export const sourceHealthChecks = pgTable("source_health_checks", {
+  id: serial("id").primaryKey(),
+  sourceId: integer("source_id").notNull(),
+  status: text("status").notNull(), // "connected", "error"
+  latencyMs: integer("latency_ms"),
+  error: text("error"),
+  checkedAt: timestamp("checked_at").defaultNow(),
+});
+
+export const insertSourceHealthCheckSchema = createInsertSchema(sourceHealthChecks).pick({
+  sourceId: true,
+  status: true,
+  latencyMs: true,
+  error: true,
+});
+
+export type InsertSourceHealthCheck = z.infer<typeof insertSourceHealthCheckSchema>;
+export type SourceHealthCheck = typeof sourceHealthChecks.$inferSelect;
+
+// What a non-admin user may read: a whole data source, one collection of it, or some of that
+// collection's columns. Admins can read everything without grants.
+export const accessGrants = pgTable("access_grants", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  sourceId: integer("source_id").notNull(),
+  collection: text("collection"), // null grants every collection of the source
+  columns: jsonb("columns"), // Column names; null grants every column of the collection
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertAccessGrantSchema = createInsertSchema(accessGrants).pick({
+  userId: true,
+  sourceId: true,
+  collection: true,
+  columns: true,
+});
+
+export type InsertAccessGrant = z.infer<typeof insertAccessGrantSchema>;
+export type AccessGrant = typeof accessGrants.$inferSelect;
+
+// API keys for programmatic access. A key acts as the user who minted it, limited to its scope;
+// only a hash of it is stored, and the key itself is shown once when it is created.
+export const apiKeys = pgTable("api_keys", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  name: text("name").notNull(),
+  prefix: text("prefix").notNull(), // The start of the key, so it can be recognized in lists
+  keyHash: text("key_hash").notNull().unique(),
+  scope: text("scope").notNull(), // "read", "execute"
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).pick({
+  userId: true,
+  name: true,
+  prefix: true,
+  keyHash: true,
+  scope: true,
+  expiresAt: true,
+});
+
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+
+// An API key as the API returns it
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+// How a field of a source collection is masked in query results for users whose role isn't exempt
+export const maskingPolicies = pgTable("masking_policies", {
+  id: serial("id").primaryKey(),
+  sourceId: integer("source_id").notNull(),
+  collection: text("collection").notNull(),
+  field: text("field").notNull(), // A nested field like "address.city", or an object to mask whole
+  strategy: text("strategy").notNull(), // "hash", "partial", "null", "tokenize"
+  exemptRoles: jsonb("exempt_roles").notNull().default(["admin"]), // Roles that see the raw value
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertMaskingPolicySchema = createInsertSchema(maskingPolicies).pick({
+  sourceId: true,
+  collection: true,
+  field: true,
+  strategy: true,
+  exemptRoles: true,
+});
+
+export type InsertMaskingPolicy = z.infer<typeof insertMaskingPolicySchema>;
+export type MaskingPolicy = typeof maskingPolicies.$inferSelect;
+
+// Append-only record of who changed what and who ran which query
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id"), // null for the scheduler
+  actor: text("actor").notNull(), // The username, or "scheduler"
+  apiKeyId: integer("api_key_id"), // Set when the request authenticated with an API key
+  action: text("action").notNull(), // "create", "update", "delete", "execute", "run", "revoke"
+  entityType: text("entity_type").notNull(), // "data_source", "schema_mapping", "query", "query_schedule", ...
+  entityId: integer("entity_id"),
+  status: text("status").notNull(), // "succeeded", "failed", "denied"
+  changes: jsonb("changes"), // Changed fields as { field: { before, after } }
+  queryText: text("query_text"),
+  params: jsonb("params"),
+  sourceIds: jsonb("source_ids"), // Data sources a query read
+  rowCount: integer("row_count"),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("audit_events_created_at_idx").on(table.createdAt),
+]);
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).pick({
+  userId: true,
+  actor: true,
+  apiKeyId: true,
+  action: true,
+  entityType: true,
+  entityId: true,
+  status: true,
+  changes: true,
+  queryText: true,
+  params: true,
+  sourceIds: true,
+  rowCount: true,
+  error: true,
+});
+
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
+export type AuditEvent = typeof auditEvents.$inferSelect;
+
+// Application settings (a single row)
+export const appSettings = pgTable("app_settings", {
+  id: integer("id").primaryKey().default(1),
+  applicationName: text("application_name").notNull().default("Unified Data Aggregation System"),
+  enableNotifications: boolean("enable_notifications").notNull().default(true),
+  defaultFederationStrategy: text("default_federation_strategy").notNull().default("virtual"),
+  dataRefreshInterval: integer("data_refresh_interval").notNull().default(15), // Minutes before materialized results are refreshed
+  demoMode: boolean("demo_mode").notNull().default(false), // Every data source reads sample data
+  apiKeysEnabled: boolean("api_keys_enabled").notNull().default(false), // Bearer API keys are accepted
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export type AppSettings = typeof appSettings.$inferSelect;
+
 // Zod schemas for validating API requests
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(256),
+});
+
+export const updateUserRoleSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+export const accessGrantRequestSchema = z.object({
+  userId: z.number().int(),
+  sourceId: z.number().int(),
+  collection: z.string().trim().min(1).nullable().default(null),
+  columns: z.array(z.string().trim().min(1)).min(1).nullable().default(null),
+}).refine(grant => grant.columns === null || grant.collection !== null, {
+  message: "Column grants must name a collection",
+  path: ["columns"],
+});
+
+export const auditFilterSchema = z.object({
+  userId: z.coerce.number().int().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.coerce.number().int().optional(),
+  status: z.enum(["succeeded", "failed", "denied"]).optional(),
+  since: z.coerce.date().optional(),
+  until: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(200),
+});
+
+export type AuditFilter = z.infer<typeof auditFilterSchema>;
+
+// hash: a keyed SHA-256 digest; partial: all but a few characters starred out;
+// null: the value is removed; tokenize: a short token that is the same for equal values
+export const MASKING_STRATEGIES = ["hash", "partial", "null", "tokenize"] as const;
+export type MaskingStrategy = typeof MASKING_STRATEGIES[number];
+
+export const maskingPolicyRequestSchema = z.object({
+  sourceId: z.number().int(),
+  collection: z.string().trim().min(1, "Collection is required"),
+  field: z.string().trim().min(1, "Field is required"),
+  strategy: z.enum(MASKING_STRATEGIES),
+  exemptRoles: z.array(z.enum(USER_ROLES)).default(["admin"]),
+});
+
+// "read" keys can read saved queries; "execute" keys can also run queries
+export const API_KEY_SCOPES = ["read", "execute"] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const createApiKeyRequestSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  scope: z.enum(API_KEY_SCOPES),
+  // null keeps the key valid until it is revoked
+  expiresInDays: z.number().int().min(1).max(3650).nullable().default(null),
+});
+
+// Returned once, when a key is created; `key` is the only copy of the key itself
+export interface CreatedApiKey extends PublicApiKey {
+  key: string;
+}
+
 export const dataSourceConfigSchema = z.object({
   firebase: z.object({
     projectId: z.string(),
@@ -124,11 +447,36 @@ export const dataSourceConfigSchema = z.object({
   }).optional(),
 });
 
+export const snapshotCollectionsSchema = z.record(z.number().int().min(1).max(10080));
+
+export const maxRowsSchema = z.number().int().min(1).max(1000000).nullable();
+
 export const mappingRuleSchema = z.object({
   sourceField: z.string(),
   targetField: z.string(),
   type: z.enum(["direct", "custom", "transform"]),
   transform: z.string().optional(),
+  // Maps a target value back to the source value; derived from the transform when omitted
+  inverse: z.string().optional(),
+});
+
+export type MappingRule = z.infer<typeof mappingRuleSchema>;
+
+export const MAPPING_DIRECTIONS = ["source-to-target", "target-to-source"] as const;
+export type MappingDirection = typeof MAPPING_DIRECTIONS[number];
+
+// Try a mapping's rules on a few documents of its source collection before saving it
+export const mappingPreviewRequestSchema = z.object({
+  sourceId: z.number(),
+  sourceCollection: z.string(),
+  mappingRules: z.array(mappingRuleSchema),
+  limit: z.number().int().min(1).max(100).default(10),
+});
+
+// Rows, e.g. query results, in one collection's fields to translate into the other's
+export const mappingTranslateRequestSchema = z.object({
+  rows: z.array(z.record(z.any())).max(10000),
+  direction: z.enum(MAPPING_DIRECTIONS).default("source-to-target"),
 });
 
 export const schemaMappingRequestSchema = z.object({
@@ -139,6 +487,7 @@ export const schemaMappingRequestSchema = z.object({
   targetCollection: z.string(),
   mappingRules: z.array(mappingRuleSchema),
   status: z.enum(["active", "inactive"]).default("active"),
+  bidirectional: z.boolean().default(false),
 });
 
 export const queryRequestSchema = z.object({
@@ -153,4 +502,134 @@ export const executeQueryRequestSchema = z.object({
   queryId: z.number().optional(),
   query: z.string().optional(),
   params: z.record(z.any()).optional(),
+  // Paged execution: rows per page, and the nextCursor returned with the previous page
+  pageSize: z.number().int().min(1).max(10000).optional(),
+  cursor: z.string().min(1).optional(),
+});
+
+// A document field named by a direct source query; never a query operator such as $where
+const sourceFieldNameSchema = z.string().min(1).max(200)
+  .refine(field => !field.split('.').some(part => part.startsWith('$')), { message: "Field names may not start with '$'" });
+
+const sourceFilterScalarSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+export const SOURCE_FILTER_OPERATORS = ["==", "!=", "<", "<=", ">", ">=", "in", "not-in", "like", "contains", "array-contains"] as const;
+
+export type SourceFilterRequest =
+  | { field: string; operator: typeof SOURCE_FILTER_OPERATORS[number]; value: string | number | boolean | null | (string | number | boolean | null)[] }
+  | { type: "and" | "or"; filters: SourceFilterRequest[] }
+  | { type: "not"; filter: SourceFilterRequest };
+
+export const sourceFilterRequestSchema: z.ZodType<SourceFilterRequest> = z.lazy(() => z.union([
+  z.object({
+    field: sourceFieldNameSchema,
+    operator: z.enum(SOURCE_FILTER_OPERATORS),
+    value: z.union([sourceFilterScalarSchema, z.array(sourceFilterScalarSchema)]),
+  }).strict(),
+  z.object({ type: z.enum(["and", "or"]), filters: z.array(sourceFilterRequestSchema) }).strict(),
+  z.object({ type: z.literal("not"), filter: sourceFilterRequestSchema }).strict(),
+]));
+
+// Reading one collection of a data source directly. Only these keys reach the connector; others,
+// such as the connectors' legacy `columns`, are dropped so grants are checked on what is read.
+export const sourceQueryRequestSchema = z.object({
+  selectedColumns: z.array(z.union([z.literal("*"), sourceFieldNameSchema])).min(1).optional(),
+  filters: z.array(sourceFilterRequestSchema).optional(),
+  orderBy: z.record(sourceFieldNameSchema, z.enum(["asc", "desc"])).optional(),
+  limit: z.number().int().min(1).max(10000).optional(),
+});
+
+export const queryScheduleRequestSchema = z.object({
+  cron: z.string().min(1).nullable().optional(),
+  intervalMinutes: z.number().int().min(1).max(10080).nullable().optional(),
+  params: z.record(z.any()).optional(),
+  enabled: z.boolean().optional(),
+}).refine(schedule => Boolean(schedule.cron) !== Boolean(schedule.intervalMinutes), {
+  message: "Specify either cron or intervalMinutes",
 });
+
+export const jobRunFilterSchema = z.object({
+  queryId: z.coerce.number().int().optional(),
+  status: z.enum(["running", "succeeded", "failed"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50),
+});
+
+export type JobRunFilter = z.infer<typeof jobRunFilterSchema>;
+
+export const healthCheckFilterSchema = z.object({
+  sourceId: z.coerce.number().int().optional(),
+  since: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(5000).default(500),
+});
+
+export type HealthCheckFilter = z.infer<typeof healthCheckFilterSchema>;
+
+export const connectionTestRequestSchema = z.object({
+  type: z.string(),
+  config: z.record(z.any()),
+  // When testing changes to a saved source, secrets left out of config come from the source
+  sourceId: z.number().int().optional(),
+});
+
+// Outcome of trying a data source configuration before it is saved
+export interface ConnectionTestResult {
+  ok: boolean;
+  latencyMs: number;
+  serverVersion: string | null;
+  collections: string[];
+  error: string | null;
+  errorKind: 'auth' | 'network' | 'timeout' | 'config' | 'unknown' | null;
+}
+
+// Rows one query read from one source collection; truncated when the source's row budget cut it
+// short, sample when they came from a demo-mode source's built-in data
+export interface ScanCount {
+  sourceId: number;
+  collection: string;
+  alias: string;
+  mode: 'live' | 'snapshot';
+  rows: number;
+  truncated: boolean;
+  sample: boolean;
+}
+
+// A schema mapping a query read a collection through, with the rules that failed on its rows
+// (the first few; `errorCount` counts them all)
+export interface MappingUse {
+  mappingId: number;
+  name: string;
+  direction: MappingDirection;
+  sourceId: number;
+  collection: string;
+  rows: number;
+  errorCount: number;
+  errors: { row: number; sourceField: string; targetField: string; error: string }[];
+}
+
+// Frames of a streamed query execution. Clients receive progress frames while sources are
+// read, row frames as output rows become available and one summary (or error) frame last.
+export type QueryStreamEvent =
+  | { type: 'progress'; sourceId: number; collection: string; alias: string; mode: 'live' | 'snapshot'; rows: number; done: boolean }
+  | { type: 'rows'; rows: Record<string, any>[] }
+  | { type: 'summary'; rowCount: number; streamed: boolean; executionTime: number; lastUpdated: string; nextUpdate: string | null; cacheHit: boolean; truncated: boolean; sampleData: boolean; scanned: ScanCount[]; mappings: MappingUse[]; [key: string]: any }
+  | { type: 'error'; error: string };
+
+// Whether data source credentials are encrypted at rest (CREDENTIAL_MASTER_KEY is set)
+export interface CredentialVaultStatus {
+  enabled: boolean;
+  keyId: string | null;
+  // Sources with a secret stored in plaintext, or sealed with a key other than the current one
+  unsealedSources: number;
+  staleKeySources: number;
+}
+
+export const updateSettingsSchema = z.object({
+  applicationName: z.string().min(1).optional(),
+  enableNotifications: z.boolean().optional(),
+  defaultFederationStrategy: z.enum(["materialized", "virtual", "hybrid"]).optional(),
+  dataRefreshInterval: z.number().int().min(1).max(1440).optional(),
+  demoMode: z.boolean().optional(),
+  apiKeysEnabled: z.boolean().optional(),
+});
+
+export type UpdateSettings = z.infer<typeof updateSettingsSchema>;